@@ -0,0 +1,200 @@
+/**
+ * Compares the legacy base64 JSON audio events with binary socket.io frames.
+ *
+ * A socket.io server and client run in this process over a real websocket.
+ * For each transport the client streams microphone-sized frames up and the
+ * server streams model-sized frames down, doing the same encoding work the UI
+ * and the gateway do. Reported per transport: bytes on the wire in each
+ * direction (engine.io packets, including framing) and the CPU time used.
+ *
+ *   npm run bench:audio -- [frames]
+ */
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { Server } from 'socket.io';
+import { io, Socket as ClientSocket } from 'socket.io-client';
+import { parseAudioFrame, toAudioFrame } from '../src/live-model/audio-frames';
+
+type Transport = 'base64' | 'binary';
+
+interface Packet {
+  data?: unknown;
+}
+
+interface Result {
+  transport: Transport;
+  upBytes: number;
+  downBytes: number;
+  cpuMs: number;
+  wallMs: number;
+}
+
+const FRAMES = Number(process.argv[2]) || 500;
+// 256 ms of 16 kHz microphone audio, as produced by the recorder worklet
+const UP_FRAME_SAMPLES = 4096;
+// 200 ms of 24 kHz model audio
+const DOWN_FRAME_SAMPLES = 4800;
+
+function pcmFrame(samples: number, seed: number): Int16Array {
+  const frame = new Int16Array(samples);
+  for (let i = 0; i < samples; i++) {
+    frame[i] = Math.round(Math.sin((i + seed) / 7) * 8000);
+  }
+  return frame;
+}
+
+// What the UI did before binary frames: one character per byte, then btoa
+function legacyBase64Encode(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function legacyBase64Decode(base64: string): Int16Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Int16Array(bytes.buffer);
+}
+
+function packetSize(packet: Packet): number {
+  const { data } = packet;
+  if (typeof data === 'string') {
+    return Buffer.byteLength(data);
+  }
+  if (Buffer.isBuffer(data) || data instanceof ArrayBuffer) {
+    return data.byteLength;
+  }
+  return 0;
+}
+
+async function run(transport: Transport, port: number): Promise<Result> {
+  const client: ClientSocket = io(`http://localhost:${port}`, {
+    transports: ['websocket'],
+    query: { audioTransport: transport },
+  });
+  await new Promise<void>((resolve) => client.once('connect', resolve));
+
+  let upBytes = 0;
+  client.io.engine.on('packetCreate', (packet: Packet) => {
+    upBytes += packetSize(packet);
+  });
+  let downBytes = 0;
+  client.io.engine.on('packet', (packet: Packet) => {
+    downBytes += packetSize(packet);
+  });
+
+  const upFrames = Array.from({ length: FRAMES }, (_, i) =>
+    pcmFrame(UP_FRAME_SAMPLES, i),
+  );
+  let received = 0;
+  const allReceived = new Promise<void>((resolve) => {
+    const onAudio = () => {
+      if (++received === FRAMES) {
+        resolve();
+      }
+    };
+    client.on('audio-part', (part: { audio: { data: string } }) => {
+      legacyBase64Decode(part.audio.data);
+      onAudio();
+    });
+    client.on('audio-frame', (frame: { data: ArrayBuffer }) => {
+      new Int16Array(frame.data);
+      onAudio();
+    });
+  });
+
+  const cpuStart = process.cpuUsage();
+  const wallStart = performance.now();
+
+  for (const frame of upFrames) {
+    const mimeType = 'audio/pcm;rate=16000';
+    if (transport === 'base64') {
+      const data = legacyBase64Encode(new Uint8Array(frame.buffer));
+      client.emit('send-audio-chunk', { data, mimeType });
+    } else {
+      client.emit('send-audio-frame', { data: frame.buffer, mimeType });
+    }
+  }
+  await allReceived;
+
+  const cpu = process.cpuUsage(cpuStart);
+  const wallMs = performance.now() - wallStart;
+  client.disconnect();
+
+  return {
+    transport,
+    upBytes,
+    downBytes,
+    cpuMs: (cpu.user + cpu.system) / 1000,
+    wallMs,
+  };
+}
+
+async function main() {
+  const httpServer = createServer();
+  const server = new Server(httpServer, { maxHttpBufferSize: 1e8 });
+  const modelAudio = Buffer.from(pcmFrame(DOWN_FRAME_SAMPLES, 0).buffer);
+
+  server.on('connection', (socket) => {
+    const binary = socket.handshake.query.audioTransport === 'binary';
+    // Each microphone frame is answered with one model frame, which arrives
+    // from the SDK as base64 either way.
+    const reply = () => {
+      const audio = {
+        data: modelAudio.toString('base64'),
+        mimeType: 'audio/pcm;rate=24000',
+      };
+      if (binary) {
+        socket.emit('audio-frame', toAudioFrame(audio));
+      } else {
+        socket.emit('audio-part', { audio });
+      }
+    };
+    socket.on('send-audio-chunk', reply);
+    socket.on('send-audio-frame', (frame: unknown) => {
+      parseAudioFrame(frame);
+      reply();
+    });
+  });
+
+  await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+  const { port } = httpServer.address() as AddressInfo;
+
+  // Warm up both paths before measuring
+  await run('base64', port);
+  await run('binary', port);
+  const results = [await run('base64', port), await run('binary', port)];
+
+  await server.close();
+
+  const audioSeconds = (FRAMES * UP_FRAME_SAMPLES) / 16000;
+  console.log(
+    `${FRAMES} frames each way (${audioSeconds.toFixed(1)} s of microphone audio)`,
+  );
+  console.table(
+    results.map((result) => ({
+      transport: result.transport,
+      'up KiB': (result.upBytes / 1024).toFixed(1),
+      'down KiB': (result.downBytes / 1024).toFixed(1),
+      'CPU ms': result.cpuMs.toFixed(1),
+      'wall ms': result.wallMs.toFixed(1),
+    })),
+  );
+  const [legacy, binary] = results;
+  console.log(
+    `binary uses ${(
+      (100 * (binary.upBytes + binary.downBytes)) /
+      (legacy.upBytes + legacy.downBytes)
+    ).toFixed(0)}% of the bytes and ${(
+      (100 * binary.cpuMs) /
+      legacy.cpuMs
+    ).toFixed(0)}% of the CPU time of base64`,
+  );
+}
+
+void main();
@@ -0,0 +1,21 @@
+/**
+ * Checks that an audit log is an unbroken hash chain, and reports the first
+ * line that is not. Exits with status 1 when the log has been tampered with.
+ *
+ *   npm run audit:verify -- [path]   (defaults to AUDIT_LOG_PATH or data/audit.jsonl)
+ */
+import { readFileSync } from 'fs';
+import { verifyAuditChain } from '../src/audit/audit-chain';
+
+const path =
+  process.argv[2] ?? process.env.AUDIT_LOG_PATH ?? 'data/audit.jsonl';
+const result = verifyAuditChain(readFileSync(path, 'utf8').split('\n'));
+
+if (result.valid) {
+  console.log(`${path}: ${result.entries} entries, chain intact.`);
+} else {
+  console.error(
+    `${path}: chain broken at line ${result.line} after ${result.entries} valid entries. ${result.reason}`,
+  );
+  process.exitCode = 1;
+}
@@ -1,14 +1,36 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
+import { AuditService } from './audit/audit.service';
+import { AnonymousTokenVerifier } from './auth/anonymous-token.verifier';
+import { TOKEN_VERIFIER } from './auth/token-verifier';
+import { DEFAULT_LIVE_SESSION_CONFIG } from './live-model/live-session-config';
+import { RecordingService } from './recordings/recording.service';
+import { InMemorySessionRepository } from './sessions/in-memory-session.repository';
+import { SESSION_REPOSITORY } from './sessions/session-repository';
 
 describe('AppController', () => {
   let appController: AppController;
+  let sessions: InMemorySessionRepository;
+  let audit: { record: jest.Mock };
+
+  const sessionId = '6f1c2f7e-2b1a-4c4e-9a53-0d7c1d2e3f40';
+  const user = { id: 'user-1' };
+  const otherUser = { id: 'user-2' };
 
   beforeEach(async () => {
+    sessions = new InMemorySessionRepository();
+    audit = { record: jest.fn().mockResolvedValue(null) };
     const app: TestingModule = await Test.createTestingModule({
       controllers: [AppController],
-      providers: [AppService],
+      providers: [
+        AppService,
+        { provide: SESSION_REPOSITORY, useValue: sessions },
+        { provide: TOKEN_VERIFIER, useValue: new AnonymousTokenVerifier() },
+        { provide: AuditService, useValue: audit },
+        { provide: RecordingService, useValue: new RecordingService(null) },
+      ],
     }).compile();
 
     appController = app.get<AppController>(AppController);
@@ -19,4 +41,99 @@ describe('AppController', () => {
       expect(appController.getHello()).toBe('Hello World!');
     });
   });
+
+  describe('sessions', () => {
+    beforeEach(async () => {
+      await sessions.create({
+        id: sessionId,
+        userId: user.id,
+        status: 'active',
+        startedAt: '2025-01-01T10:00:00.000Z',
+        endedAt: null,
+        config: DEFAULT_LIVE_SESSION_CONFIG,
+        turns: [],
+        summary: null,
+      });
+      await sessions.appendTurn(sessionId, {
+        role: 'user',
+        text: 'I have a headache.',
+        interrupted: false,
+        timestamp: '2025-01-01T10:00:05.000Z',
+      });
+    });
+
+    it('lists session metadata', async () => {
+      expect(await appController.listSessions(user)).toEqual([
+        {
+          id: sessionId,
+          userId: user.id,
+          status: 'active',
+          startedAt: '2025-01-01T10:00:00.000Z',
+          endedAt: null,
+          model: DEFAULT_LIVE_SESSION_CONFIG.model,
+          turnCount: 1,
+          hasSummary: false,
+        },
+      ]);
+    });
+
+    it('returns a session transcript', async () => {
+      const session = await appController.getSession(sessionId, user);
+      expect(session.turns.map((turn) => turn.text)).toEqual([
+        'I have a headache.',
+      ]);
+      expect(audit.record).toHaveBeenCalledWith({
+        action: 'transcript.viewed',
+        actor: user.id,
+        sessionId,
+      });
+    });
+
+    it('hides sessions of other users', async () => {
+      expect(await appController.listSessions(otherUser)).toEqual([]);
+      await expect(
+        appController.getSession(sessionId, otherUser),
+      ).rejects.toThrow(NotFoundException);
+      await expect(
+        appController.deleteSession(sessionId, otherUser),
+      ).rejects.toThrow(NotFoundException);
+      expect(audit.record).not.toHaveBeenCalledWith(
+        expect.objectContaining({ sessionId }),
+      );
+    });
+
+    it('exports a session and audits the export', async () => {
+      const file = await appController.exportSession(
+        sessionId,
+        'markdown',
+        user,
+      );
+      expect(file.getHeaders()).toMatchObject({
+        type: 'text/markdown; charset=utf-8',
+        disposition: `attachment; filename="session-${sessionId}.md"`,
+      });
+      expect(audit.record).toHaveBeenCalledWith({
+        action: 'transcript.exported',
+        actor: user.id,
+        sessionId,
+        details: { format: 'markdown' },
+      });
+      await expect(
+        appController.exportSession(sessionId, 'docx', user),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        appController.exportSession(sessionId, 'fhir', otherUser),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('deletes a session', async () => {
+      await appController.deleteSession(sessionId, user);
+      await expect(appController.getSession(sessionId, user)).rejects.toThrow(
+        NotFoundException,
+      );
+      await expect(
+        appController.deleteSession(sessionId, user),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
 });
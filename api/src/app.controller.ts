@@ -1,12 +1,173 @@
-import { Controller, Get } from '@nestjs/common';
+import {
+  BadRequestException,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Inject,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { createReadStream } from 'fs';
 import { AppService } from './app.service';
+import { AuditService } from './audit/audit.service';
+import { AuthUser, HttpAuthGuard } from './auth/http-auth.guard';
+import type { AuthenticatedUser } from './auth/token-verifier';
+import { EXPORT_FORMATS, isExportFormat } from './exports/session-export';
+import { SESSION_EXPORTERS } from './exports/session-exporters';
+import {
+  RECORDING_TRACKS,
+  RecordingService,
+} from './recordings/recording.service';
+import type { RecordingTrackName } from './recordings/recording.service';
+import { SESSION_REPOSITORY } from './sessions/session-repository';
+import type {
+  SessionListItem,
+  SessionRecord,
+  SessionRepository,
+} from './sessions/session-repository';
 
 @Controller()
 export class AppController {
-  constructor(private readonly appService: AppService) {}
+  constructor(
+    private readonly appService: AppService,
+    @Inject(SESSION_REPOSITORY)
+    private readonly sessions: SessionRepository,
+    private readonly audit: AuditService,
+    private readonly recordings: RecordingService,
+  ) {}
 
   @Get()
   getHello(): string {
     return this.appService.getHello();
   }
+
+  @Get('sessions')
+  @UseGuards(HttpAuthGuard)
+  listSessions(
+    @AuthUser() user: AuthenticatedUser,
+  ): Promise<SessionListItem[]> {
+    void this.audit.record({ action: 'session.listed', actor: user.id });
+    return this.sessions.list(user.id);
+  }
+
+  @Get('sessions/:id')
+  @UseGuards(HttpAuthGuard)
+  async getSession(
+    @Param('id', ParseUUIDPipe) id: string,
+    @AuthUser() user: AuthenticatedUser,
+  ): Promise<SessionRecord> {
+    const session = await this.getOwnSession(id, user);
+    void this.audit.record({
+      action: 'transcript.viewed',
+      actor: user.id,
+      sessionId: id,
+    });
+    return session;
+  }
+
+  /**
+   * The session's summary and transcript as a document: `markdown`, `html`
+   * (printable, or saved as PDF from the browser) or `fhir` (an R4 document
+   * Bundle).
+   */
+  @Get('sessions/:id/export/:format')
+  @UseGuards(HttpAuthGuard)
+  async exportSession(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('format') format: string,
+    @AuthUser() user: AuthenticatedUser,
+  ): Promise<StreamableFile> {
+    if (!isExportFormat(format)) {
+      throw new BadRequestException(
+        `Unknown export format "${format}"; use one of ${EXPORT_FORMATS.join(', ')}.`,
+      );
+    }
+    const session = await this.getOwnSession(id, user);
+    const exporter = SESSION_EXPORTERS[format];
+    void this.audit.record({
+      action: 'transcript.exported',
+      actor: user.id,
+      sessionId: id,
+      details: { format },
+    });
+    return new StreamableFile(Buffer.from(exporter.render(session)), {
+      type: exporter.contentType,
+      disposition: `attachment; filename="session-${id}.${exporter.extension}"`,
+    });
+  }
+
+  /**
+   * One side of the session's audio recording as WAV, when recording is
+   * enabled: `input` (the user) or `output` (the model). Both tracks start
+   * when the session started, so they line up.
+   */
+  @Get('sessions/:id/recording/:track')
+  @UseGuards(HttpAuthGuard)
+  async getRecording(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('track') track: string,
+    @AuthUser() user: AuthenticatedUser,
+  ): Promise<StreamableFile> {
+    if (!(RECORDING_TRACKS as readonly string[]).includes(track)) {
+      throw new BadRequestException(
+        `Unknown track "${track}"; use one of ${RECORDING_TRACKS.join(', ')}.`,
+      );
+    }
+    await this.getOwnSession(id, user);
+    const path = await this.recordings.getTrackPath(
+      id,
+      track as RecordingTrackName,
+    );
+    if (!path) {
+      throw new NotFoundException(`Session ${id} has no ${track} recording.`);
+    }
+    void this.audit.record({
+      action: 'recording.downloaded',
+      actor: user.id,
+      sessionId: id,
+      details: { track },
+    });
+    return new StreamableFile(createReadStream(path), {
+      type: 'audio/wav',
+      disposition: `attachment; filename="session-${id}.${track}.wav"`,
+    });
+  }
+
+  @Delete('sessions/:id')
+  @UseGuards(HttpAuthGuard)
+  @HttpCode(204)
+  async deleteSession(
+    @Param('id', ParseUUIDPipe) id: string,
+    @AuthUser() user: AuthenticatedUser,
+  ): Promise<void> {
+    await this.getOwnSession(id, user);
+    if (!(await this.sessions.delete(id))) {
+      throw new NotFoundException(`Session ${id} not found.`);
+    }
+    await this.recordings.delete(id);
+    void this.audit.record({
+      action: 'session.deleted',
+      actor: user.id,
+      sessionId: id,
+    });
+  }
+
+  /**
+   * Other users' sessions are reported as missing rather than forbidden so
+   * their ids cannot be probed.
+   */
+  private async getOwnSession(
+    id: string,
+    user: AuthenticatedUser,
+  ): Promise<SessionRecord> {
+    const session = await this.sessions.get(id);
+    if (!session || session.userId !== user.id) {
+      throw new NotFoundException(`Session ${id} not found.`);
+    }
+    return session;
+  }
 }
@@ -1,147 +1,864 @@
 import {
-    WebSocketGateway,
-    WebSocketServer,
-    SubscribeMessage,
-    OnGatewayConnection,
-    OnGatewayDisconnect,
-    MessageBody,
-    ConnectedSocket,
+  WebSocketGateway,
+  WebSocketServer,
+  SubscribeMessage,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  OnGatewayInit,
+  MessageBody,
+  ConnectedSocket,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
-import { Logger } from '@nestjs/common';
-import { Session, LiveServerMessage } from '@google/genai';
-import { GeminiAiService } from './gemini-ai.service';
-
-@WebSocketGateway({
-    cors: {
-        origin: '*', // Be more specific in production
-        credentials: true,
+import type { DefaultEventsMap } from 'socket.io';
+import { randomUUID } from 'crypto';
+import { Inject, Logger, OnModuleDestroy, UseFilters } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LiveServerMessage } from '@google/genai';
+import {
+  audioDurationSeconds,
+  AudioFrameError,
+  parseAudioFrame,
+  toAudioFrame,
+} from './live-model/audio-frames';
+import { translateLiveServerMessage } from './live-model/live-event-translator';
+import { LIVE_MODEL_PROVIDER } from './live-model/live-model-provider';
+import {
+  resolveLiveSessionConfig,
+  SessionConfigError,
+} from './live-model/live-session-config';
+import type { LiveSessionConfig } from './live-model/live-session-config';
+import type {
+  LiveModelCloseEvent,
+  LiveModelError,
+  LiveModelProvider,
+  LiveModelSession,
+} from './live-model/live-model-provider';
+import { AuditService } from './audit/audit.service';
+import { ChecklistService } from './checklist/checklist.service';
+import { readNonNegativeInteger } from './config/settings';
+import { MetricsService } from './metrics/metrics.service';
+import {
+  AudioChunkDto,
+  ResumeSessionDto,
+  SendTextDto,
+  StartSessionDto,
+} from './protocol/client-payloads.dto';
+import { protocolVersionMiddleware } from './protocol/handshake';
+import type {
+  Base64Audio,
+  ClientToServerEvents,
+  ServerEventEmitter,
+  ServerEventName,
+  ServerEventPayload,
+  ServerToClientEvents,
+} from './protocol/socket-protocol';
+import { SessionErrorFilter, WsValidationPipe } from './protocol/ws-validation';
+import { ResumableLiveSession } from './live-model/resumable-live-session';
+import {
+  getSocketUser,
+  socketAuthMiddleware,
+} from './auth/socket-auth.middleware';
+import { TOKEN_VERIFIER } from './auth/token-verifier';
+import type { TokenVerifier } from './auth/token-verifier';
+import { QuotaExceededError } from './quotas/quota-limits';
+import type { QuotaName } from './quotas/quota-limits';
+import { QuotaService } from './quotas/quota.service';
+import { RecordingService } from './recordings/recording.service';
+import { RedactionService } from './redaction/redaction.service';
+import { PromptTemplateError } from './templates/prompt-template';
+import { TemplateService } from './templates/template.service';
+import { TranscriptAccumulator } from './live-model/transcript-accumulator';
+import type { FinalTranscript } from './live-model/transcript-accumulator';
+import { SESSION_REPOSITORY } from './sessions/session-repository';
+import type { SessionRepository } from './sessions/session-repository';
+import { ToolCallRunner } from './tools/tool-call-runner';
+import { ToolRegistry } from './tools/tool-registry.service';
+
+type ClientSocket = Socket<
+  ClientToServerEvents<Buffer>,
+  ServerToClientEvents<Buffer>
+>;
+
+type SocketServer = Server<
+  ClientToServerEvents<Buffer>,
+  ServerToClientEvents<Buffer>,
+  DefaultEventsMap
+>;
+
+/**
+ * Emits an event whose name is only known at runtime, such as a translated
+ * model event or a tool's own event.
+ */
+function emitEvent<E extends ServerEventName>(
+  client: ClientSocket,
+  event: E,
+  payload: ServerEventPayload<E, Buffer>,
+) {
+  // Every server event has at most one argument, which TypeScript cannot
+  // see through an event name that is itself generic
+  const args = [payload] as Parameters<ServerToClientEvents<Buffer>[E]>;
+  client.emit(event, ...args);
+}
+
+const validatePayload = new WsValidationPipe();
+
+/**
+ * The parts of a session config safe to keep in the audit log. The audit log
+ * cannot be scrubbed later, so the system instruction and template variables
+ * (which hold patient details) stay out of it.
+ */
+function auditedConfig(config: LiveSessionConfig) {
+  return {
+    model: config.model,
+    voice: config.voice,
+    language: config.language,
+    responseModality: config.responseModality,
+    activityDetection: config.activityDetection,
+    audioTransport: config.audioTransport,
+    template: config.template && {
+      id: config.template.id,
+      version: config.template.version,
     },
-})
-export class AppGateway implements OnGatewayConnection, OnGatewayDisconnect {
-    @WebSocketServer()
-    server: Server;
-
-    private readonly logger = new Logger(AppGateway.name);
-    private connections = new Map<string, Session>();
-
-    constructor(private readonly geminiAiService: GeminiAiService) { }
-
-    handleConnection(client: Socket) {
-        this.logger.log(`Client connected: ${client.id}`);
-    }
-
-    handleDisconnect(client: Socket) {
-        this.logger.log(`Client disconnected: ${client.id}`);
-        const geminiSession = this.connections.get(client.id);
-        if (geminiSession) {
-            geminiSession.close();
-            this.connections.delete(client.id);
-            this.logger.log(`Gemini session closed and removed for client: ${client.id}`);
-        }
-    }
-
-    @SubscribeMessage('start-session')
-    async startSession(@ConnectedSocket() client: Socket) {
-        if (this.connections.has(client.id)) {
-            this.logger.warn(`Client ${client.id} already has an active session.`);
-            client.emit('session-error', { message: 'Session already active.' });
-            return;
-        }
-
-        this.logger.log(`Starting Gemini session for client: ${client.id}`);
-        try {
-            const geminiSession = await this.geminiAiService.createLiveSession({
-                onOpen: () => {
-                    this.logger.log(`Gemini session opened for client: ${client.id}`);
-                    client.emit('session-started');
-                },
-                onMessage: async (message: LiveServerMessage) => {
-                    if (message) {
-                        this.handleGeminiMessage(client, message);
-                    } else {
-                        await new Promise((resolve) => setTimeout(resolve, 100));
-                    }
-                },
-                onError: (error: ErrorEvent) => {
-                    this.logger.error(`Gemini session error for client ${client.id}:`, error.message);
-                    client.emit('session-error', { message: error.message });
-                    this.connections.delete(client.id);
-                },
-                onClose: (event: CloseEvent) => {
-                    this.logger.log(`Gemini session closed for client ${client.id}: ${event.reason}`);
-                    client.emit('session-closed', { reason: event.reason });
-                    this.connections.delete(client.id);
-                },
-            });
-
-            this.connections.set(client.id, geminiSession);
-        } catch (error) {
-            this.logger.error(`Failed to start Gemini session for client ${client.id}:`, error);
-            client.emit('session-error', {
-                message: 'Failed to initiate Gemini session.',
-            });
-        }
-    }
-
-    @SubscribeMessage('send-text')
-    handleTextMessage(
-        @ConnectedSocket() client: Socket,
-        @MessageBody() text: string,
+  };
+}
+
+// Incoming event names are chosen by the client, so the metrics label any
+// other name as `unknown`
+const CLIENT_EVENTS: ReadonlySet<string> = new Set<keyof ClientToServerEvents>([
+  'start-session',
+  'resume-session',
+  'end-session',
+  'send-text',
+  'send-audio-frame',
+  'send-audio-chunk',
+  'activity-start',
+  'activity-end',
+  'audio-stream-end',
+  'cover-checklist',
+]);
+
+/**
+ * Per-session state that exists before the model connection is open.
+ */
+interface LiveSessionContext {
+  sessionId: string;
+  userId: string;
+  config: LiveSessionConfig;
+  transcript: TranscriptAccumulator;
+  toolCalls: ToolCallRunner;
+  /** The socket the session is attached to; null while the client is away. */
+  client: ClientSocket | null;
+  /** Ends the session if the client does not come back in time. */
+  detachTimer?: NodeJS.Timeout;
+  ended?: boolean;
+  /** The quota that refused the last input, so a run of refusals is reported once. */
+  quotaExceeded?: QuotaName;
+  /** `Date.now()` when the session started. */
+  startedAt: number;
+  /** When the user last sent input the model has not started answering yet. */
+  lastInputAt?: number;
+  /** Set from the first audio of a model turn until the turn ends. */
+  answering?: boolean;
+}
+
+interface LiveConnection extends LiveSessionContext {
+  session: LiveModelSession;
+}
+
+// CORS for the socket is configured by CorsIoAdapter in main.ts
+@WebSocketGateway()
+@UseFilters(SessionErrorFilter)
+export class AppGateway
+  implements
+    OnGatewayInit,
+    OnGatewayConnection,
+    OnGatewayDisconnect,
+    OnModuleDestroy
+{
+  @WebSocketServer()
+  server: SocketServer;
+
+  private readonly logger = new Logger(AppGateway.name);
+  private readonly reattachGraceMs: number;
+  // Attached sessions by socket id
+  private connections = new Map<string, LiveConnection>();
+  // Every open session by session id, attached or not
+  private liveSessions = new Map<string, LiveConnection>();
+
+  constructor(
+    @Inject(LIVE_MODEL_PROVIDER)
+    private readonly liveModelProvider: LiveModelProvider,
+    @Inject(SESSION_REPOSITORY)
+    private readonly sessions: SessionRepository,
+    private readonly tools: ToolRegistry,
+    private readonly quotas: QuotaService,
+    private readonly redaction: RedactionService,
+    private readonly audit: AuditService,
+    private readonly recordings: RecordingService,
+    private readonly templates: TemplateService,
+    private readonly checklist: ChecklistService,
+    private readonly metrics: MetricsService,
+    @Inject(TOKEN_VERIFIER)
+    private readonly tokenVerifier: TokenVerifier,
+    configService: ConfigService,
+  ) {
+    this.reattachGraceMs = readNonNegativeInteger(
+      configService,
+      'SESSION_REATTACH_GRACE_MS',
+      30000,
+    );
+  }
+
+  afterInit(server: SocketServer) {
+    // Clients speaking another protocol version or without a valid token are
+    // refused during the handshake
+    server.use(protocolVersionMiddleware());
+    server.use(socketAuthMiddleware(this.tokenVerifier));
+  }
+
+  handleConnection(client: ClientSocket) {
+    this.logger.log(
+      `Client connected: ${client.id} (user ${getSocketUser(client).id})`,
+    );
+    this.metrics.socketConnected();
+    client.onAny((event: string) =>
+      this.metrics.message('in', CLIENT_EVENTS.has(event) ? event : 'unknown'),
+    );
+    client.onAnyOutgoing((event: string) => this.metrics.message('out', event));
+  }
+
+  /**
+   * A dropped socket does not end its session right away: the session is
+   * kept open for `SESSION_REATTACH_GRACE_MS` so the client can reconnect and
+   * send `resume-session`.
+   */
+  handleDisconnect(client: ClientSocket) {
+    this.logger.log(`Client disconnected: ${client.id}`);
+    this.metrics.socketDisconnected();
+    const connection = this.connections.get(client.id);
+    if (connection) {
+      this.connections.delete(client.id);
+      this.detach(connection);
+    }
+  }
+
+  onModuleDestroy() {
+    for (const connection of this.liveSessions.values()) {
+      this.closeSession(connection, 'The server is shutting down.');
+    }
+  }
+
+  @SubscribeMessage('start-session')
+  async startSession(
+    @ConnectedSocket() client: ClientSocket,
+    @MessageBody(validatePayload) options: StartSessionDto,
+  ) {
+    if (this.connections.has(client.id)) {
+      this.logger.warn(`Client ${client.id} already has an active session.`);
+      client.emit('session-error', { message: 'Session already active.' });
+      return;
+    }
+
+    let config: LiveSessionConfig;
+    try {
+      const { options: rendered, template } =
+        await this.templates.apply(options);
+      config = resolveLiveSessionConfig(rendered);
+      if (template) {
+        config.template = template;
+      }
+    } catch (error) {
+      if (
+        error instanceof SessionConfigError ||
+        error instanceof PromptTemplateError
+      ) {
+        this.logger.warn(
+          `Client ${client.id} sent invalid session options: ${error.message}`,
+        );
+        client.emit('session-error', { message: error.message });
+        return;
+      }
+      throw error;
+    }
+
+    const userId = getSocketUser(client).id;
+    try {
+      this.quotas.acquireSession(userId);
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        this.logger.warn(
+          `Refused a session for user ${userId}: ${error.message}`,
+        );
+        client.emit('quota-exceeded', error.toPayload());
+        return;
+      }
+      throw error;
+    }
+    this.logger.log(
+      `Starting Gemini session for client: ${client.id} (user: ${userId}, model: ${config.model})`,
+    );
+    const sessionId = randomUUID();
+    const context: LiveSessionContext = {
+      sessionId,
+      userId,
+      config,
+      client,
+      startedAt: Date.now(),
+      transcript: new TranscriptAccumulator(),
+      toolCalls: new ToolCallRunner(this.tools, {
+        sessionId,
+        userId,
+        emit: (event, payload) =>
+          context.client && emitEvent(context.client, event, payload),
+        respond: (response) =>
+          this.liveSessions
+            .get(sessionId)
+            ?.session.sendToolResponse({ functionResponses: [response] }),
+      }),
+    };
+    this.persist(
+      this.sessions.create({
+        id: context.sessionId,
+        userId,
+        status: 'active',
+        startedAt: new Date().toISOString(),
+        endedAt: null,
+        config,
+        turns: [],
+        summary: null,
+      }),
+      `create session ${context.sessionId}`,
+    );
+    void this.audit.record({
+      action: 'session.started',
+      actor: userId,
+      sessionId,
+      details: auditedConfig(config),
+    });
+    this.recordings.start(sessionId);
+    this.metrics.sessionStarted();
+    const checklist = this.checklist.start(sessionId);
+    try {
+      const session = await ResumableLiveSession.open(
+        this.liveModelProvider,
+        config,
+        {
+          onOpen: () => {
+            this.logger.log(`Gemini session opened: ${sessionId}`);
+            context.client?.emit('session-started', { sessionId, config });
+            context.client?.emit('quota-usage', this.quotas.getUsage(userId));
+            context.client?.emit('checklist-progress', checklist);
+          },
+          onMessage: (message: LiveServerMessage) => {
+            if (message) {
+              this.handleGeminiMessage(message, context);
+            }
+          },
+          onError: (error: LiveModelError) => {
+            // A close always follows, and ends the session unless it resumes
+            this.logger.error(
+              `Gemini session error in ${sessionId}:`,
+              error.message,
+            );
+            context.client?.emit('session-error', { message: error.message });
+          },
+          onReconnecting: (reason: string) => {
+            context.client?.emit('session-reconnecting', { reason });
+          },
+          onReconnected: () => {
+            context.client?.emit('session-reconnected');
+          },
+          onClose: (event: LiveModelCloseEvent) => {
+            this.logger.log(
+              `Gemini session ${sessionId} closed: ${event.reason}`,
+            );
+            context.client?.emit('session-closed', { reason: event.reason });
+            this.release(context, event.reason);
+          },
+        },
+        { tools: this.tools.getDeclarations() },
+      );
+
+      const connection = Object.assign(context, { session });
+      if (connection.ended) {
+        return;
+      }
+      this.liveSessions.set(sessionId, connection);
+      if (client.connected) {
+        this.connections.set(client.id, connection);
+      } else {
+        // The socket dropped while the model connection was opening
+        this.detach(connection);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to start Gemini session for client ${client.id}:`,
+        error,
+      );
+      this.release(context, 'The model connection could not be opened.');
+      client.emit('session-error', {
+        message: 'Failed to initiate Gemini session.',
+      });
+    }
+  }
+
+  /**
+   * Reattaches a client that lost its socket to the session it had open.
+   * A socket that still holds the session (its drop may not have been
+   * noticed yet) is detached from it.
+   */
+  @SubscribeMessage('resume-session')
+  resumeSession(
+    @ConnectedSocket() client: ClientSocket,
+    @MessageBody(validatePayload) { sessionId }: ResumeSessionDto,
+  ) {
+    if (this.connections.has(client.id)) {
+      client.emit('session-error', { message: 'Session already active.' });
+      return;
+    }
+    const connection = this.liveSessions.get(sessionId);
+    // Someone else's session is reported as missing, not as forbidden
+    if (!connection || connection.userId !== getSocketUser(client).id) {
+      this.logger.warn(
+        `Client ${client.id} tried to resume unknown session ${sessionId}.`,
+      );
+      client.emit('session-error', {
+        message: 'Session not found or already ended.',
+      });
+      return;
+    }
+
+    if (connection.client) {
+      this.connections.delete(connection.client.id);
+    }
+    clearTimeout(connection.detachTimer);
+    connection.detachTimer = undefined;
+    connection.client = client;
+    this.connections.set(client.id, connection);
+    this.logger.log(
+      `Client ${client.id} reattached to session ${connection.sessionId}.`,
+    );
+    void this.audit.record({
+      action: 'session.resumed',
+      actor: connection.userId,
+      sessionId: connection.sessionId,
+    });
+    client.emit('session-started', {
+      sessionId: connection.sessionId,
+      config: connection.config,
+      resumed: true,
+    });
+    client.emit('quota-usage', this.quotas.getUsage(connection.userId));
+    const checklist = this.checklist.getProgress(connection.sessionId);
+    if (checklist) {
+      client.emit('checklist-progress', checklist);
+    }
+  }
+
+  /**
+   * A typed user turn. It is complete as sent, so the model answers right
+   * away; typed turns have no input transcription, so the turn is recorded
+   * here.
+   */
+  @SubscribeMessage('send-text')
+  handleTextMessage(
+    @ConnectedSocket() client: ClientSocket,
+    @MessageBody(validatePayload) { text }: SendTextDto,
+  ) {
+    const connection = this.getConnection(client, 'send text');
+    if (
+      connection &&
+      this.withinQuota(connection, () =>
+        this.quotas.consumeMessage(connection.userId),
+      )
     ) {
-        const geminiSession = this.connections.get(client.id);
-        if (geminiSession) {
-            this.logger.log(`Sending text from client ${client.id}: "${text}"`);
-            geminiSession.sendClientContent({ turns: [text] });
-        } else {
-            this.logger.warn(`Client ${client.id} tried to send text without a session.`);
-            client.emit('session-error', { message: 'No active session.' });
-        }
-    }
-
-    @SubscribeMessage('send-audio-chunk')
-    handleAudioChunk(
-        @ConnectedSocket() client: Socket,
-        @MessageBody() audioData: { data: string; mimeType: string },
+      this.logger.log(
+        `Sending text from client ${client.id}: "${this.redaction.redact(text)}"`,
+      );
+      connection.session.sendClientContent({
+        turns: [{ role: 'user', parts: [{ text }] }],
+        turnComplete: true,
+      });
+      connection.lastInputAt = Date.now();
+      this.recordTurn(connection, {
+        role: 'user',
+        text,
+        interrupted: false,
+      });
+    }
+  }
+
+  /**
+   * Asks the model to cover the required checklist items still missing,
+   * typically before the user ends the session. The request is sent as a
+   * user turn but is not part of the patient's transcript.
+   */
+  @SubscribeMessage('cover-checklist')
+  handleCoverChecklist(@ConnectedSocket() client: ClientSocket) {
+    const connection = this.getConnection(client, 'cover the checklist');
+    if (!connection) {
+      return;
+    }
+    const prompt = this.checklist.coveragePrompt(connection.sessionId);
+    if (!prompt) {
+      const progress = this.checklist.getProgress(connection.sessionId);
+      if (progress) {
+        client.emit('checklist-progress', progress);
+      }
+      return;
+    }
+    if (
+      this.withinQuota(connection, () =>
+        this.quotas.consumeMessage(connection.userId),
+      )
     ) {
-        const geminiSession = this.connections.get(client.id);
-        if (geminiSession) {
-            geminiSession.sendClientContent({
-                turns: 
-                    {
-                        inlineData: audioData,
-                    }
-            });
-        } else {
-            this.logger.warn(`Client ${client.id} tried to send audio without a session.`);
-            client.emit('session-error', { message: 'No active session.' });
-        }
-    }
-
-    // ✅ CORRECTED FUNCTION
-    private handleGeminiMessage(client: Socket, message: LiveServerMessage) {
-        if (message.serverContent?.modelTurn?.parts) {
-            const part = message.serverContent?.modelTurn?.parts?.[0];
-
-            if (part?.inlineData) {
-                client.emit('audio-part', {
-                    audio: {
-                        data: part.inlineData.data, // This is a base64 string
-                        mimeType: part.inlineData.mimeType,
-                    },
-                });
-            }
+      connection.session.sendClientContent({
+        turns: [{ role: 'user', parts: [{ text: prompt }] }],
+        turnComplete: true,
+      });
+      connection.lastInputAt = Date.now();
+    }
+  }
+
+  /**
+   * Legacy base64 audio input, kept while clients move to `send-audio-frame`.
+   */
+  @SubscribeMessage('send-audio-chunk')
+  handleAudioChunk(
+    @ConnectedSocket() client: ClientSocket,
+    @MessageBody(validatePayload) audioData: AudioChunkDto,
+  ) {
+    const connection = this.getConnection(client, 'send audio');
+    if (
+      connection &&
+      this.withinQuota(connection, () =>
+        this.quotas.consumeAudio(
+          connection.userId,
+          audioDurationSeconds(audioData),
+        ),
+      )
+    ) {
+      // Streamed as realtime input so the model can listen while the user is
+      // still talking; the turn ends on activity-end or the model's own
+      // activity detection.
+      connection.session.sendRealtimeInput({ audio: audioData });
+      this.recordAudioInput(connection, audioData);
+    }
+  }
+
+  /**
+   * Microphone audio as a binary attachment: `{ data, mimeType }` with `data`
+   * an ArrayBuffer of 16-bit PCM.
+   */
+  @SubscribeMessage('send-audio-frame')
+  handleAudioFrame(
+    @ConnectedSocket() client: ClientSocket,
+    @MessageBody() frame: unknown,
+  ) {
+    const connection = this.getConnection(client, 'send audio');
+    if (!connection) {
+      return;
+    }
+    try {
+      const audio = parseAudioFrame(frame);
+      if (
+        this.withinQuota(connection, () =>
+          this.quotas.consumeAudio(
+            connection.userId,
+            audioDurationSeconds(audio),
+          ),
+        )
+      ) {
+        connection.session.sendRealtimeInput({ audio });
+        this.recordAudioInput(connection, audio);
+      }
+    } catch (error) {
+      if (error instanceof AudioFrameError) {
+        this.logger.warn(
+          `Client ${client.id} sent an invalid audio frame: ${error.message}`,
+        );
+        client.emit('session-error', { message: error.message });
+        return;
+      }
+      throw error;
+    }
+  }
+
+  @SubscribeMessage('activity-start')
+  handleActivityStart(@ConnectedSocket() client: ClientSocket) {
+    const connection = this.getManualActivityConnection(client);
+    if (connection) {
+      connection.session.sendRealtimeInput({ activityStart: {} });
+    }
+  }
+
+  @SubscribeMessage('activity-end')
+  handleActivityEnd(@ConnectedSocket() client: ClientSocket) {
+    const connection = this.getManualActivityConnection(client);
+    if (connection) {
+      connection.session.sendRealtimeInput({ activityEnd: {} });
+      connection.lastInputAt = Date.now();
+    }
+  }
+
+  @SubscribeMessage('audio-stream-end')
+  handleAudioStreamEnd(@ConnectedSocket() client: ClientSocket) {
+    const connection = this.getConnection(client, 'end the audio stream');
+    if (connection && connection.config.activityDetection === 'automatic') {
+      // Lets the model's activity detection close the user's turn even though
+      // the trailing silence was never sent.
+      connection.session.sendRealtimeInput({ audioStreamEnd: true });
+    }
+  }
+
+  private recordAudioInput(connection: LiveConnection, audio: Base64Audio) {
+    this.recordings.recordInput(connection.sessionId, audio);
+    this.metrics.audio('in', Buffer.byteLength(audio.data, 'base64'));
+    connection.lastInputAt = Date.now();
+  }
+
+  private getConnection(
+    client: ClientSocket,
+    action: string,
+  ): LiveConnection | undefined {
+    const connection = this.connections.get(client.id);
+    if (!connection) {
+      this.logger.warn(
+        `Client ${client.id} tried to ${action} without a session.`,
+      );
+      client.emit('session-error', { message: 'No active session.' });
+    }
+    return connection;
+  }
 
-            if (part?.text) {
-                client.emit('text-part', { text: part.text });
-                console.log(part?.text);
-            } 
-        }
+  private getManualActivityConnection(
+    client: ClientSocket,
+  ): LiveConnection | undefined {
+    const connection = this.getConnection(client, 'signal activity');
+    if (connection && connection.config.activityDetection !== 'manual') {
+      this.logger.warn(
+        `Client ${client.id} sent an activity signal to a session with automatic activity detection.`,
+      );
+      client.emit('session-error', {
+        message: 'Activity signals require activityDetection "manual".',
+      });
+      return undefined;
     }
+    return connection;
+  }
+
+  /**
+   * Runs a quota check for input from the session's client. Refused input is
+   * dropped; the client hears about it once per run of refusals rather than
+   * for every audio frame.
+   */
+  private withinQuota(connection: LiveConnection, check: () => void) {
+    try {
+      check();
+      connection.quotaExceeded = undefined;
+      return true;
+    } catch (error) {
+      if (!(error instanceof QuotaExceededError)) {
+        throw error;
+      }
+      if (connection.quotaExceeded !== error.quota) {
+        connection.quotaExceeded = error.quota;
+        this.logger.warn(
+          `Session ${connection.sessionId} (user ${connection.userId}) is over quota: ${error.message}`,
+        );
+        connection.client?.emit('quota-exceeded', error.toPayload());
+      }
+      return false;
+    }
+  }
+
+  private handleGeminiMessage(
+    message: LiveServerMessage,
+    context: LiveSessionContext,
+  ) {
+    const { sessionId, config, transcript, toolCalls } = context;
+    // Dropped while detached; transcripts are still recorded
+    const emit: ServerEventEmitter<Buffer> = (event, payload) =>
+      context.client && emitEvent(context.client, event, payload);
+    if (message.toolCall?.functionCalls?.length) {
+      void toolCalls.run(message.toolCall.functionCalls);
+    }
+    if (message.toolCallCancellation?.ids?.length) {
+      toolCalls.cancel(message.toolCallCancellation.ids);
+    }
+    for (const translated of translateLiveServerMessage(message)) {
+      if (translated.event === 'text-part') {
+        this.logger.debug(
+          `Model text in session ${sessionId}: ${this.redaction.redact(translated.payload.text)}`,
+        );
+      }
+      // Final transcripts go out ahead of the turn-complete that ends them.
+      for (const final of transcript.accept(translated)) {
+        emit('transcript-final', final);
+        this.recordTurn(context, final);
+      }
+      if (translated.event === 'usage-metadata') {
+        this.metrics.usage(translated.payload);
+        this.recordUsage(context, translated.payload.totalTokenCount);
+      }
+      if (translated.event === 'audio-part') {
+        this.recordAudioOutput(context, translated.payload.audio);
+      } else if (translated.event === 'interrupted') {
+        this.recordings.interruptOutput(sessionId);
+      }
+      if (
+        translated.event === 'interrupted' ||
+        translated.event === 'turn-complete'
+      ) {
+        context.answering = false;
+      }
+      if (
+        translated.event === 'audio-part' &&
+        config.audioTransport === 'binary'
+      ) {
+        emit('audio-frame', toAudioFrame(translated.payload.audio));
+      } else {
+        emit(translated.event, translated.payload);
+      }
+    }
+  }
+
+  /**
+   * Records model audio; the first audio of a turn also measures how long
+   * the user waited for the answer to start.
+   */
+  private recordAudioOutput(context: LiveSessionContext, audio: Base64Audio) {
+    this.recordings.recordOutput(context.sessionId, audio);
+    this.metrics.audio('out', Buffer.byteLength(audio.data, 'base64'));
+    if (!context.answering) {
+      context.answering = true;
+      if (context.lastInputAt !== undefined) {
+        this.metrics.firstAudio((Date.now() - context.lastInputAt) / 1000);
+        context.lastInputAt = undefined;
+      }
+    }
+  }
+
+  /**
+   * Counts tokens against the user's daily budget and ends the session once
+   * the budget is spent.
+   */
+  private recordUsage(context: LiveSessionContext, tokens: number) {
+    const { sessionId, userId } = context;
+    this.quotas.recordTokens(userId, tokens);
+    context.client?.emit('quota-usage', this.quotas.getUsage(userId));
+    try {
+      this.quotas.assertTokenBudget(userId);
+    } catch (error) {
+      if (!(error instanceof QuotaExceededError)) {
+        throw error;
+      }
+      this.logger.warn(`Ending session ${sessionId}: ${error.message}`);
+      context.client?.emit('quota-exceeded', error.toPayload());
+      const connection = this.liveSessions.get(sessionId);
+      if (connection) {
+        this.closeSession(connection, 'The daily token budget is used up.');
+      }
+    }
+  }
+
+  /**
+   * Stores a finished turn and updates the checklist coverage it implies.
+   */
+  private recordTurn(context: LiveSessionContext, final: FinalTranscript) {
+    const { sessionId } = context;
+    this.persist(
+      this.sessions.appendTurn(sessionId, {
+        ...final,
+        timestamp: new Date().toISOString(),
+      }),
+      `record a turn for session ${sessionId}`,
+    );
+    const progress = this.checklist.acceptTurn(sessionId, final);
+    if (progress) {
+      context.client?.emit('checklist-progress', progress);
+    }
+  }
+
+  private detach(connection: LiveConnection) {
+    connection.client = null;
+    this.logger.log(
+      `Session ${connection.sessionId} detached; keeping it for ${this.reattachGraceMs} ms.`,
+    );
+    connection.detachTimer = setTimeout(
+      () =>
+        this.closeSession(connection, 'The client did not reconnect in time.'),
+      this.reattachGraceMs,
+    );
+  }
+
+  /**
+   * Closes the model connection. The rest of the teardown runs in `onClose`,
+   * which still reaches the client that asked for it.
+   */
+  private closeSession(connection: LiveConnection, reason: string) {
+    if (connection.client) {
+      this.connections.delete(connection.client.id);
+    }
+    this.release(connection, reason);
+    connection.session.close();
+  }
+
+  private release(context: LiveSessionContext, reason: string) {
+    clearTimeout(context.detachTimer);
+    if (context.ended) {
+      return;
+    }
+    context.ended = true;
+    this.metrics.sessionEnded((Date.now() - context.startedAt) / 1000);
+    if (this.liveSessions.get(context.sessionId) === context) {
+      this.liveSessions.delete(context.sessionId);
+    }
+    if (context.client && this.connections.get(context.client.id) === context) {
+      this.connections.delete(context.client.id);
+    }
+    this.endSession(context, reason);
+  }
+
+  private endSession(
+    { sessionId, userId, toolCalls }: LiveSessionContext,
+    reason: string,
+  ) {
+    toolCalls.cancelAll();
+    this.quotas.releaseSession(userId);
+    this.checklist.finish(sessionId);
+    void this.audit.record({
+      action: 'session.ended',
+      actor: userId,
+      sessionId,
+      details: { reason },
+    });
+    this.persist(
+      this.sessions.end(sessionId, new Date().toISOString()),
+      `end session ${sessionId}`,
+    );
+    this.persist(
+      this.recordings.finish(sessionId),
+      `save the recording of session ${sessionId}`,
+    );
+  }
+
+  /**
+   * Storage runs in the background: a failed write is logged but never
+   * interrupts the live conversation.
+   */
+  private persist(operation: Promise<unknown>, description: string) {
+    operation.catch((error: unknown) =>
+      this.logger.error(`Failed to ${description}:`, error),
+    );
+  }
 
-    @SubscribeMessage('end-session')
-    handleEndSession(@ConnectedSocket() client: Socket) {
-        this.logger.log(`Client ${client.id} requested to end the session.`);
-        this.handleDisconnect(client);
+  @SubscribeMessage('end-session')
+  handleEndSession(@ConnectedSocket() client: ClientSocket) {
+    this.logger.log(`Client ${client.id} requested to end the session.`);
+    const connection = this.connections.get(client.id);
+    if (connection) {
+      this.closeSession(connection, 'Ended by the client.');
     }
+  }
 }
@@ -2,14 +2,39 @@ import { Module } from '@nestjs/common';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { AppGateway } from './app.gateway';
-import { GeminiAiService } from './gemini-ai.service';
 import { ConfigModule } from '@nestjs/config';
+import { AuditModule } from './audit/audit.module';
+import { AuthModule } from './auth/auth.module';
+import { ChecklistModule } from './checklist/checklist.module';
+import { HealthModule } from './health/health.module';
+import { LiveModelModule } from './live-model/live-model.module';
+import { MetricsModule } from './metrics/metrics.module';
+import { QuotasModule } from './quotas/quotas.module';
+import { RecordingsModule } from './recordings/recordings.module';
+import { RedactionModule } from './redaction/redaction.module';
+import { SessionsModule } from './sessions/sessions.module';
+import { TemplatesModule } from './templates/templates.module';
+import { ToolsModule } from './tools/tools.module';
 
 @Module({
-  imports: [ConfigModule.forRoot({
-  isGlobal: true,
-})],
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+    }),
+    AuditModule,
+    AuthModule,
+    ChecklistModule,
+    HealthModule,
+    LiveModelModule,
+    MetricsModule,
+    QuotasModule,
+    RecordingsModule,
+    RedactionModule,
+    SessionsModule,
+    TemplatesModule,
+    ToolsModule,
+  ],
   controllers: [AppController],
-  providers: [AppService, AppGateway, GeminiAiService],
+  providers: [AppService, AppGateway],
 })
 export class AppModule {}
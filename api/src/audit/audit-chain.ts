@@ -0,0 +1,108 @@
+import { createHash } from 'crypto';
+
+export type AuditAction =
+  | 'session.started'
+  | 'session.resumed'
+  | 'session.ended'
+  | 'session.listed'
+  | 'session.deleted'
+  | 'summary.submitted'
+  | 'transcript.viewed'
+  | 'transcript.exported'
+  | 'recording.downloaded'
+  | 'template.created'
+  | 'template.updated'
+  | 'template.deleted'
+  | 'audit.queried';
+
+/**
+ * Something that happened, as reported by the code that saw it.
+ */
+export interface AuditEvent {
+  action: AuditAction;
+  /** The user who caused the event. */
+  actor: string;
+  sessionId?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * One line of the audit log. `hash` covers every other field, including the
+ * previous entry's hash, so changing, inserting or removing an entry breaks
+ * the chain from that point on.
+ */
+export interface AuditEntry extends AuditEvent {
+  seq: number;
+  /** ISO 8601 time the event was recorded. */
+  at: string;
+  prevHash: string;
+  hash: string;
+}
+
+export type AuditVerification =
+  | { valid: true; entries: number }
+  | { valid: false; entries: number; line: number; reason: string };
+
+/** The `prevHash` of the first entry. */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/** JSON with object keys sorted, so the hash does not depend on key order. */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`,
+      )
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function hashAuditEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  return createHash('sha256').update(canonicalJson(entry)).digest('hex');
+}
+
+/**
+ * Checks the lines of an audit log: every entry must parse, follow on from
+ * the one before and hash to its recorded `hash`.
+ */
+export function verifyAuditChain(lines: string[]): AuditVerification {
+  let prevHash = GENESIS_HASH;
+  let entries = 0;
+  for (const [index, line] of lines.entries()) {
+    if (!line.trim()) {
+      continue;
+    }
+    const fail = (reason: string): AuditVerification => ({
+      valid: false,
+      entries,
+      line: index + 1,
+      reason,
+    });
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(line) as AuditEntry;
+    } catch {
+      return fail('Not valid JSON.');
+    }
+    const { hash, ...rest } = entry;
+    if (entry.seq !== entries + 1) {
+      return fail(`Expected entry ${entries + 1}, found ${entry.seq}.`);
+    }
+    if (entry.prevHash !== prevHash) {
+      return fail('Does not follow on from the previous entry.');
+    }
+    if (hashAuditEntry(rest) !== hash) {
+      return fail('Content does not match its hash.');
+    }
+    prevHash = hash;
+    entries++;
+  }
+  return { valid: true, entries };
+}
@@ -0,0 +1,59 @@
+import {
+  BadRequestException,
+  Controller,
+  ForbiddenException,
+  Get,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthUser, HttpAuthGuard } from '../auth/http-auth.guard';
+import type { AuthenticatedUser } from '../auth/token-verifier';
+import type { AuditEntry } from './audit-chain';
+import { AuditService } from './audit.service';
+
+function parseTime(name: string, value?: string): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = new Date(value);
+  if (Number.isNaN(time.getTime())) {
+    throw new BadRequestException(`${name} must be an ISO 8601 time.`);
+  }
+  return time;
+}
+
+@Controller('audit')
+@UseGuards(HttpAuthGuard)
+export class AuditController {
+  constructor(private readonly audit: AuditService) {}
+
+  /**
+   * Audit entries, oldest first, filtered by `userId`, `sessionId` and a
+   * `from`/`to` time range. Only users listed in `AUDIT_READERS` may read
+   * the audit log, and every read is itself audited.
+   */
+  @Get()
+  async query(
+    @AuthUser() user: AuthenticatedUser,
+    @Query('userId') userId?: string,
+    @Query('sessionId') sessionId?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<AuditEntry[]> {
+    if (!this.audit.canRead(user.id)) {
+      throw new ForbiddenException('Not allowed to read the audit log.');
+    }
+    const filter = {
+      actor: userId,
+      sessionId,
+      from: parseTime('from', from),
+      to: parseTime('to', to),
+    };
+    await this.audit.record({
+      action: 'audit.queried',
+      actor: user.id,
+      details: { userId, sessionId, from, to },
+    });
+    return this.audit.query(filter);
+  }
+}
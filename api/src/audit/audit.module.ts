@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuthModule } from '../auth/auth.module';
+import { AuditController } from './audit.controller';
+import { AuditService } from './audit.service';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [AuditController],
+  providers: [
+    {
+      provide: AuditService,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): AuditService =>
+        new AuditService(
+          configService.get<string>('AUDIT_LOG_PATH', 'data/audit.jsonl'),
+          configService
+            .get<string>('AUDIT_READERS', '')
+            .split(',')
+            .map((userId) => userId.trim())
+            .filter(Boolean),
+        ),
+    },
+  ],
+  exports: [AuditService],
+})
+export class AuditModule {}
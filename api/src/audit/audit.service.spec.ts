@@ -0,0 +1,148 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GENESIS_HASH, verifyAuditChain } from './audit-chain';
+import { AuditService } from './audit.service';
+
+describe('AuditService', () => {
+  let directory: string;
+  let path: string;
+
+  const lines = async () =>
+    (await readFile(path, 'utf8')).split('\n').filter(Boolean);
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'audit-'));
+    path = join(directory, 'logs', 'audit.jsonl');
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('appends a verifiable hash chain across restarts', async () => {
+    const audit = new AuditService(path);
+    const [first] = await Promise.all([
+      audit.record({
+        action: 'session.started',
+        actor: 'user-1',
+        sessionId: 's1',
+      }),
+      audit.record({
+        action: 'transcript.viewed',
+        actor: 'user-1',
+        sessionId: 's1',
+      }),
+    ]);
+    expect(first).toMatchObject({ seq: 1, prevHash: GENESIS_HASH });
+
+    const restarted = new AuditService(path);
+    await restarted.record({
+      action: 'session.ended',
+      actor: 'user-1',
+      sessionId: 's1',
+    });
+
+    expect(verifyAuditChain(await lines())).toEqual({
+      valid: true,
+      entries: 3,
+    });
+  });
+
+  it('re-reads the chain after a write and the re-read both fail', async () => {
+    const unhandled = jest.fn();
+    process.on('unhandledRejection', unhandled);
+    try {
+      const audit = new AuditService(path);
+      await audit.record({ action: 'session.listed', actor: 'user-1' });
+      const written = await readFile(path, 'utf8');
+
+      // A file where the log directory should be fails both
+      await rm(join(directory, 'logs'), { recursive: true });
+      await writeFile(join(directory, 'logs'), '');
+      await expect(
+        audit.record({ action: 'session.listed', actor: 'user-2' }),
+      ).resolves.toBeNull();
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(unhandled).not.toHaveBeenCalled();
+
+      await rm(join(directory, 'logs'));
+      await mkdir(join(directory, 'logs'));
+      await writeFile(path, written);
+      await expect(
+        audit.record({ action: 'session.listed', actor: 'user-3' }),
+      ).resolves.toMatchObject({ seq: 2 });
+      expect(verifyAuditChain(await lines())).toEqual({
+        valid: true,
+        entries: 2,
+      });
+    } finally {
+      process.off('unhandledRejection', unhandled);
+    }
+  });
+
+  it('detects edited, removed and reordered entries', async () => {
+    const audit = new AuditService(path);
+    for (const actor of ['user-1', 'user-2', 'user-3']) {
+      await audit.record({ action: 'session.listed', actor });
+    }
+    const original = await lines();
+
+    const edited = [...original];
+    edited[1] = edited[1].replace('user-2', 'user-9');
+    expect(verifyAuditChain(edited)).toMatchObject({
+      valid: false,
+      line: 2,
+      reason: 'Content does not match its hash.',
+    });
+
+    expect(verifyAuditChain([original[0], original[2]])).toMatchObject({
+      valid: false,
+      line: 2,
+    });
+    expect(
+      verifyAuditChain([original[1], original[0], original[2]]),
+    ).toMatchObject({ valid: false, line: 1 });
+    expect(verifyAuditChain(['{oops'])).toMatchObject({
+      valid: false,
+      reason: 'Not valid JSON.',
+    });
+  });
+
+  it('filters entries by user, session and time range', async () => {
+    const audit = new AuditService(path);
+    await audit.record({
+      action: 'session.started',
+      actor: 'user-1',
+      sessionId: 's1',
+    });
+    await audit.record({
+      action: 'session.started',
+      actor: 'user-2',
+      sessionId: 's2',
+    });
+    await audit.record({
+      action: 'session.ended',
+      actor: 'user-1',
+      sessionId: 's1',
+    });
+
+    expect(
+      (await audit.query({ actor: 'user-1' })).map((entry) => entry.action),
+    ).toEqual(['session.started', 'session.ended']);
+    expect(await audit.query({ sessionId: 's2' })).toHaveLength(1);
+    expect(await audit.query({ from: new Date(Date.now() + 60_000) })).toEqual(
+      [],
+    );
+    expect(
+      await audit.query({ to: new Date(Date.now() + 60_000) }),
+    ).toHaveLength(3);
+  });
+
+  it('only lets configured readers query', () => {
+    const audit = new AuditService(path, ['auditor']);
+
+    expect(audit.canRead('auditor')).toBe(true);
+    expect(audit.canRead('user-1')).toBe(false);
+  });
+});
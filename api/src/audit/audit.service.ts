@@ -0,0 +1,121 @@
+import { Logger } from '@nestjs/common';
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { dirname } from 'path';
+import {
+  AuditEntry,
+  AuditEvent,
+  GENESIS_HASH,
+  hashAuditEntry,
+} from './audit-chain';
+
+export interface AuditQuery {
+  actor?: string;
+  sessionId?: string;
+  /** Inclusive lower bound on `at`. */
+  from?: Date;
+  /** Exclusive upper bound on `at`. */
+  to?: Date;
+}
+
+/**
+ * Appends audit events to a JSON lines file as a hash chain (see
+ * `verifyAuditChain`). Writes are serialised in this process; the file must
+ * not be shared by several servers.
+ */
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+  // The chain's tail after pending writes; undefined when it must be re-read
+  private last?: Promise<{ seq: number; hash: string } | undefined>;
+
+  constructor(
+    private readonly path: string,
+    /** Users allowed to query the log. */
+    private readonly readers: string[] = [],
+  ) {}
+
+  canRead(userId: string): boolean {
+    return this.readers.includes(userId);
+  }
+
+  /**
+   * Appends the event. Callers that must not wait on disk can ignore the
+   * promise: failures are logged here.
+   */
+  record(event: AuditEvent): Promise<AuditEntry | null> {
+    const written = (this.last ?? Promise.resolve(undefined)).then(
+      async (tail) => {
+        const { seq, hash: prevHash } = tail ?? (await this.readTail());
+        const unhashed = {
+          ...event,
+          seq: seq + 1,
+          at: new Date().toISOString(),
+          prevHash,
+        };
+        const entry: AuditEntry = {
+          ...unhashed,
+          hash: hashAuditEntry(unhashed),
+        };
+        await appendFile(this.path, `${JSON.stringify(entry)}\n`, 'utf8');
+        return entry;
+      },
+    );
+    // A failed write leaves the chain where it was. This promise must not
+    // reject, as nothing observes it: if the tail cannot be read either, the
+    // next write reads it again.
+    this.last = written
+      .then(
+        ({ seq, hash }) => ({ seq, hash }),
+        () => this.readTail(),
+      )
+      .catch(() => undefined);
+    return written.catch((error: unknown) => {
+      this.logger.error(`Failed to record ${event.action}:`, error);
+      return null;
+    });
+  }
+
+  /** Entries matching every given filter, oldest first. */
+  async query({
+    actor,
+    sessionId,
+    from,
+    to,
+  }: AuditQuery): Promise<AuditEntry[]> {
+    // Let pending writes land first
+    await this.last?.catch(() => undefined);
+    return (await this.readEntries()).filter((entry) => {
+      const at = new Date(entry.at);
+      return (
+        (actor === undefined || entry.actor === actor) &&
+        (sessionId === undefined || entry.sessionId === sessionId) &&
+        (from === undefined || at >= from) &&
+        (to === undefined || at < to)
+      );
+    });
+  }
+
+  private async readTail(): Promise<{ seq: number; hash: string }> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const entries = await this.readEntries();
+    const tail = entries[entries.length - 1];
+    return tail
+      ? { seq: tail.seq, hash: tail.hash }
+      : { seq: 0, hash: GENESIS_HASH };
+  }
+
+  private async readEntries(): Promise<AuditEntry[]> {
+    let content: string;
+    try {
+      content = await readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    return content
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as AuditEntry);
+  }
+}
@@ -0,0 +1,13 @@
+import { AuthenticatedUser, TokenVerifier } from './token-verifier';
+
+export const ANONYMOUS_USER: AuthenticatedUser = { id: 'anonymous' };
+
+/**
+ * Accepts every caller as the same anonymous user. Selected with
+ * `AUTH_MODE=none` for local development only.
+ */
+export class AnonymousTokenVerifier implements TokenVerifier {
+  verify(): Promise<AuthenticatedUser> {
+    return Promise.resolve(ANONYMOUS_USER);
+  }
+}
@@ -0,0 +1,39 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AnonymousTokenVerifier } from './anonymous-token.verifier';
+import { HttpAuthGuard } from './http-auth.guard';
+import { JwtTokenVerifier } from './jwt-token.verifier';
+import { AuthMode, TOKEN_VERIFIER, TokenVerifier } from './token-verifier';
+
+@Module({
+  providers: [
+    {
+      provide: TOKEN_VERIFIER,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): TokenVerifier => {
+        const mode = configService.get<AuthMode>('AUTH_MODE', 'jwt');
+        switch (mode) {
+          case 'jwt':
+            return new JwtTokenVerifier({
+              secret: configService.get<string>('JWT_SECRET'),
+              jwksPath: configService.get<string>('JWT_JWKS_PATH'),
+              issuer: configService.get<string>('JWT_ISSUER'),
+              audience: configService.get<string>('JWT_AUDIENCE'),
+            });
+          case 'none':
+            new Logger(AuthModule.name).warn(
+              'AUTH_MODE=none: every caller is accepted as the anonymous user.',
+            );
+            return new AnonymousTokenVerifier();
+          default:
+            throw new Error(
+              `Unknown AUTH_MODE "${String(mode)}". Expected "jwt" or "none".`,
+            );
+        }
+      },
+    },
+    HttpAuthGuard,
+  ],
+  exports: [TOKEN_VERIFIER, HttpAuthGuard],
+})
+export class AuthModule {}
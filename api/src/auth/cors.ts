@@ -0,0 +1,35 @@
+import { INestApplicationContext } from '@nestjs/common';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import type { ServerOptions } from 'socket.io';
+
+export const DEFAULT_CORS_ORIGINS = ['http://localhost:4200'];
+
+/**
+ * Parses the comma separated `CORS_ORIGINS` allow-list.
+ */
+export function parseCorsOrigins(value: string | undefined): string[] {
+  const origins = (value ?? '')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+  return origins.length ? origins : DEFAULT_CORS_ORIGINS;
+}
+
+/**
+ * socket.io adapter that applies the same origin allow-list as the REST API.
+ */
+export class CorsIoAdapter extends IoAdapter {
+  constructor(
+    app: INestApplicationContext,
+    private readonly origins: string[],
+  ) {
+    super(app);
+  }
+
+  createIOServer(port: number, options?: ServerOptions): unknown {
+    return super.createIOServer(port, {
+      ...options,
+      cors: { origin: this.origins, credentials: true },
+    });
+  }
+}
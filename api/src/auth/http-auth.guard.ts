@@ -0,0 +1,55 @@
+import {
+  CanActivate,
+  createParamDecorator,
+  ExecutionContext,
+  Inject,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import {
+  AuthenticatedUser,
+  AuthenticationError,
+  bearerToken,
+  TOKEN_VERIFIER,
+} from './token-verifier';
+import type { TokenVerifier } from './token-verifier';
+
+type AuthenticatedRequest = Request & { user?: AuthenticatedUser };
+
+/**
+ * Requires a valid `Authorization: Bearer` token on REST routes and exposes
+ * the user through {@link AuthUser}.
+ */
+@Injectable()
+export class HttpAuthGuard implements CanActivate {
+  constructor(
+    @Inject(TOKEN_VERIFIER)
+    private readonly tokenVerifier: TokenVerifier,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    try {
+      request.user = await this.tokenVerifier.verify(
+        bearerToken(request.headers.authorization),
+      );
+      return true;
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        throw new UnauthorizedException(error.message);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * The user authenticated by {@link HttpAuthGuard}.
+ */
+export const AuthUser = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): AuthenticatedUser => {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    return request.user as AuthenticatedUser;
+  },
+);
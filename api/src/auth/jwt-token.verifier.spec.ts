@@ -0,0 +1,92 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { exportJWK, generateKeyPair, SignJWT } from 'jose';
+import { JwtTokenVerifier } from './jwt-token.verifier';
+import { AuthenticationError } from './token-verifier';
+
+describe('JwtTokenVerifier', () => {
+  const secret = 'a-test-secret-that-is-long-enough-for-hs256';
+  const sign = (claims: Record<string, unknown>, key = secret) =>
+    new SignJWT(claims)
+      .setProtectedHeader({ alg: 'HS256' })
+      .setIssuedAt()
+      .setExpirationTime('5m')
+      .sign(new TextEncoder().encode(key));
+
+  it('returns the user of a token signed with the shared secret', async () => {
+    const verifier = new JwtTokenVerifier({ secret });
+
+    await expect(
+      verifier.verify(await sign({ sub: 'user-1', name: 'Dr. Lee' })),
+    ).resolves.toEqual({ id: 'user-1', name: 'Dr. Lee' });
+  });
+
+  it('rejects missing, forged, expired and subject-less tokens', async () => {
+    const verifier = new JwtTokenVerifier({ secret });
+    const expired = await new SignJWT({ sub: 'user-1' })
+      .setProtectedHeader({ alg: 'HS256' })
+      .setExpirationTime(Math.floor(Date.now() / 1000) - 60)
+      .sign(new TextEncoder().encode(secret));
+
+    await expect(verifier.verify(undefined)).rejects.toThrow(
+      'Missing access token.',
+    );
+    await expect(
+      verifier.verify(await sign({ sub: 'user-1' }, 'another-secret')),
+    ).rejects.toThrow('Invalid access token.');
+    await expect(verifier.verify(expired)).rejects.toThrow(
+      'Access token has expired.',
+    );
+    await expect(verifier.verify(await sign({}))).rejects.toThrow(
+      AuthenticationError,
+    );
+  });
+
+  it('checks issuer and audience when configured', async () => {
+    const verifier = new JwtTokenVerifier({
+      secret,
+      issuer: 'clinic-idp',
+      audience: 'gemini-poc',
+    });
+
+    await expect(
+      verifier.verify(
+        await sign({ sub: 'user-1', iss: 'clinic-idp', aud: 'gemini-poc' }),
+      ),
+    ).resolves.toMatchObject({ id: 'user-1' });
+    await expect(
+      verifier.verify(await sign({ sub: 'user-1', iss: 'elsewhere' })),
+    ).rejects.toThrow(AuthenticationError);
+  });
+
+  it('verifies tokens against a local JWKS file', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'jwks-'));
+    try {
+      const { publicKey, privateKey } = await generateKeyPair('ES256');
+      const jwksPath = join(directory, 'jwks.json');
+      await writeFile(
+        jwksPath,
+        JSON.stringify({
+          keys: [{ ...(await exportJWK(publicKey)), kid: 'k1', alg: 'ES256' }],
+        }),
+      );
+      const token = await new SignJWT({ sub: 'user-2' })
+        .setProtectedHeader({ alg: 'ES256', kid: 'k1' })
+        .setExpirationTime('5m')
+        .sign(privateKey);
+
+      await expect(
+        new JwtTokenVerifier({ jwksPath }).verify(token),
+      ).resolves.toEqual({ id: 'user-2', name: undefined });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('needs a key source', () => {
+    expect(() => new JwtTokenVerifier({})).toThrow(
+      /JWT_JWKS_PATH or JWT_SECRET/,
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import { readFileSync } from 'fs';
+import {
+  createLocalJWKSet,
+  errors,
+  JSONWebKeySet,
+  jwtVerify,
+  JWTVerifyGetKey,
+} from 'jose';
+import {
+  AuthenticatedUser,
+  AuthenticationError,
+  TokenVerifier,
+} from './token-verifier';
+
+export interface JwtVerifierOptions {
+  /** Shared secret for HS256/384/512 tokens. */
+  secret?: string;
+  /** Path to a JSON Web Key Set with the public keys tokens are signed with. */
+  jwksPath?: string;
+  issuer?: string;
+  audience?: string;
+}
+
+/**
+ * Verifies JWT bearer tokens against a local JWKS file or a shared secret.
+ * Nothing is fetched over the network.
+ */
+export class JwtTokenVerifier implements TokenVerifier {
+  private readonly key: Uint8Array | JWTVerifyGetKey;
+  private readonly algorithms?: string[];
+
+  constructor(private readonly options: JwtVerifierOptions) {
+    if (options.jwksPath) {
+      this.key = createLocalJWKSet(
+        JSON.parse(readFileSync(options.jwksPath, 'utf8')) as JSONWebKeySet,
+      );
+    } else if (options.secret) {
+      this.key = new TextEncoder().encode(options.secret);
+      this.algorithms = ['HS256', 'HS384', 'HS512'];
+    } else {
+      throw new Error(
+        'AUTH_MODE "jwt" needs JWT_JWKS_PATH or JWT_SECRET to verify tokens.',
+      );
+    }
+  }
+
+  async verify(token: string | undefined): Promise<AuthenticatedUser> {
+    if (!token) {
+      throw new AuthenticationError('Missing access token.');
+    }
+    try {
+      const options = {
+        issuer: this.options.issuer,
+        audience: this.options.audience,
+        algorithms: this.algorithms,
+      };
+      const { payload } =
+        typeof this.key === 'function'
+          ? await jwtVerify(token, this.key, options)
+          : await jwtVerify(token, this.key, options);
+      if (!payload.sub) {
+        throw new AuthenticationError('Access token has no subject.');
+      }
+      return {
+        id: payload.sub,
+        name: typeof payload.name === 'string' ? payload.name : undefined,
+      };
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        throw error;
+      }
+      if (error instanceof errors.JWTExpired) {
+        throw new AuthenticationError('Access token has expired.');
+      }
+      if (error instanceof errors.JOSEError) {
+        throw new AuthenticationError('Invalid access token.');
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { Logger } from '@nestjs/common';
+import type { Socket } from 'socket.io';
+import { HandshakeError } from '../protocol/handshake';
+import {
+  AuthenticatedUser,
+  AuthenticationError,
+  bearerToken,
+} from './token-verifier';
+import type { TokenVerifier } from './token-verifier';
+
+const logger = new Logger('SocketAuth');
+
+/**
+ * socket.io middleware that authenticates the handshake before the gateway
+ * sees the socket. The token is read from `auth.token`, falling back to an
+ * `Authorization` header for non-browser clients. Refused clients receive
+ * `connect_error` with `data.code === 'unauthorized'`.
+ */
+export function socketAuthMiddleware(tokenVerifier: TokenVerifier) {
+  return (socket: Socket, next: (error?: Error) => void) => {
+    const { auth, headers } = socket.handshake;
+    const token =
+      typeof auth?.token === 'string'
+        ? auth.token
+        : bearerToken(headers.authorization);
+
+    tokenVerifier.verify(token).then(
+      (user) => {
+        (socket.data as { user?: AuthenticatedUser }).user = user;
+        next();
+      },
+      (error: unknown) => {
+        if (error instanceof AuthenticationError) {
+          logger.warn(
+            `Refused socket from ${socket.handshake.address}: ${error.message}`,
+          );
+          next(new HandshakeError(error.message, { code: 'unauthorized' }));
+          return;
+        }
+        logger.error('Socket authentication failed:', error);
+        next(new Error('Authentication failed.'));
+      },
+    );
+  };
+}
+
+/**
+ * The user attached to a socket by {@link socketAuthMiddleware}.
+ */
+export function getSocketUser(socket: Socket): AuthenticatedUser {
+  return (socket.data as { user: AuthenticatedUser }).user;
+}
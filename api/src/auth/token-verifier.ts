@@ -0,0 +1,38 @@
+/**
+ * Injection token for the configured {@link TokenVerifier}.
+ */
+export const TOKEN_VERIFIER = Symbol('TOKEN_VERIFIER');
+
+/**
+ * Names accepted by the `AUTH_MODE` environment variable.
+ */
+export type AuthMode = 'jwt' | 'none';
+
+/**
+ * The caller behind a verified token. `id` is the token subject and is what
+ * sessions are recorded under.
+ */
+export interface AuthenticatedUser {
+  id: string;
+  name?: string;
+}
+
+export class AuthenticationError extends Error {}
+
+/**
+ * Turns a bearer token into the user it was issued to.
+ */
+export interface TokenVerifier {
+  /**
+   * @throws AuthenticationError when the token is missing or not valid.
+   */
+  verify(token: string | undefined): Promise<AuthenticatedUser>;
+}
+
+/**
+ * Reads the token from an `Authorization: Bearer <token>` header.
+ */
+export function bearerToken(header: string | undefined): string | undefined {
+  const match = /^Bearer\s+(\S+)$/i.exec(header ?? '');
+  return match?.[1];
+}
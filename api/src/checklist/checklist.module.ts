@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ChecklistService } from './checklist.service';
+import {
+  DEFAULT_INTAKE_CHECKLIST,
+  loadIntakeChecklist,
+} from './intake-checklist';
+
+@Module({
+  providers: [
+    {
+      provide: ChecklistService,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): ChecklistService => {
+        const path = configService.get<string>('INTAKE_CHECKLIST_PATH');
+        return new ChecklistService(
+          path ? loadIntakeChecklist(path) : DEFAULT_INTAKE_CHECKLIST,
+        );
+      },
+    },
+  ],
+  exports: [ChecklistService],
+})
+export class ChecklistModule {}
@@ -0,0 +1,144 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ChecklistService } from './checklist.service';
+import {
+  DEFAULT_INTAKE_CHECKLIST,
+  loadIntakeChecklist,
+} from './intake-checklist';
+
+describe('ChecklistService', () => {
+  const sessionId = 'session-1';
+  let checklist: ChecklistService;
+
+  const covered = () =>
+    checklist
+      .getProgress(sessionId)
+      ?.items.filter((item) => item.covered)
+      .map(({ id, coveredBy }) => [id, coveredBy]);
+
+  beforeEach(() => {
+    checklist = new ChecklistService(DEFAULT_INTAKE_CHECKLIST);
+  });
+
+  it('starts with every item missing', () => {
+    const progress = checklist.start(sessionId);
+
+    expect(progress.items.every((item) => !item.covered)).toBe(true);
+    expect(progress.missingRequired).toEqual([
+      'chief-complaint',
+      'symptom-onset',
+      'pain-scale',
+      'current-medications',
+      'allergies',
+    ]);
+  });
+
+  it('covers items the patient mentions or answers', () => {
+    checklist.start(sessionId);
+
+    expect(
+      checklist.acceptTurn(sessionId, {
+        role: 'user',
+        text: 'I am allergic to penicillin.',
+        interrupted: false,
+      })?.missingRequired,
+    ).not.toContain('allergies');
+    expect(
+      checklist.acceptTurn(sessionId, {
+        role: 'assistant',
+        text: 'On a scale of 0 to 10, how bad is it?',
+        interrupted: false,
+      }),
+    ).toBeNull();
+    checklist.acceptTurn(sessionId, {
+      role: 'user',
+      text: 'About a six.',
+      interrupted: false,
+    });
+
+    expect(covered()).toEqual([
+      ['pain-scale', 'transcript'],
+      ['allergies', 'transcript'],
+    ]);
+  });
+
+  it('ignores questions the patient interrupted', () => {
+    checklist.start(sessionId);
+    checklist.acceptTurn(sessionId, {
+      role: 'assistant',
+      text: 'Do you take any medications?',
+      interrupted: true,
+    });
+
+    expect(
+      checklist.acceptTurn(sessionId, {
+        role: 'user',
+        text: 'Sorry, can you repeat that?',
+        interrupted: false,
+      }),
+    ).toBeNull();
+  });
+
+  it('covers items the model reports by id or label', () => {
+    checklist.start(sessionId);
+
+    expect(
+      checklist.markCovered(sessionId, 'Symptom onset', 'tool'),
+    ).toHaveProperty('missingRequired', [
+      'chief-complaint',
+      'pain-scale',
+      'current-medications',
+      'allergies',
+    ]);
+    expect(
+      checklist.markCovered(sessionId, 'symptom-onset', 'tool'),
+    ).toBeNull();
+    expect(checklist.markCovered(sessionId, 'diet', 'tool')).toBe('unknown');
+    expect(covered()).toEqual([['symptom-onset', 'tool']]);
+  });
+
+  it('asks the model for the required items still missing', () => {
+    checklist.start(sessionId);
+    for (const id of ['chief-complaint', 'symptom-onset', 'pain-scale']) {
+      checklist.markCovered(sessionId, id, 'tool');
+    }
+
+    expect(checklist.coveragePrompt(sessionId)).toBe(
+      'Before we finish, the intake still needs: current medications, allergies. ' +
+        'Please ask the patient about each of these, one at a time.',
+    );
+    checklist.markCovered(sessionId, 'current-medications', 'tool');
+    checklist.markCovered(sessionId, 'allergies', 'tool');
+    expect(checklist.coveragePrompt(sessionId)).toBeNull();
+
+    checklist.finish(sessionId);
+    expect(checklist.getProgress(sessionId)).toBeNull();
+  });
+
+  it('loads a checklist from a JSON file', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'checklist-'));
+    const path = join(directory, 'checklist.json');
+    try {
+      await writeFile(
+        path,
+        JSON.stringify([
+          { id: 'smoking', label: 'Smoking', patterns: ['\\bsmok'] },
+          { id: 'diet', label: 'Diet', required: false, patterns: ['\\beat'] },
+        ]),
+      );
+      checklist = new ChecklistService(loadIntakeChecklist(path));
+      checklist.start(sessionId);
+      checklist.acceptTurn(sessionId, {
+        role: 'user',
+        text: 'I SMOKE a pack a day.',
+        interrupted: false,
+      });
+
+      expect(covered()).toEqual([['smoking', 'transcript']]);
+      expect(checklist.getProgress(sessionId)?.missingRequired).toEqual([]);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,79 @@
+import type { FinalTranscript } from '../protocol/socket-protocol';
+import {
+  ChecklistCoverageSource,
+  ChecklistItem,
+  ChecklistProgressPayload,
+  ChecklistTracker,
+} from './intake-checklist';
+
+/**
+ * Keeps a {@link ChecklistTracker} for every live session. Methods that
+ * change coverage return the new progress for the client, or null when
+ * nothing changed.
+ */
+export class ChecklistService {
+  private readonly trackers = new Map<string, ChecklistTracker>();
+
+  constructor(private readonly items: ChecklistItem[]) {}
+
+  /** The ids the `mark_checklist_item` tool accepts. */
+  get itemIds(): string[] {
+    return this.items.map((item) => item.id);
+  }
+
+  start(sessionId: string): ChecklistProgressPayload {
+    const tracker = new ChecklistTracker(this.items);
+    this.trackers.set(sessionId, tracker);
+    return tracker.progress();
+  }
+
+  getProgress(sessionId: string): ChecklistProgressPayload | null {
+    return this.trackers.get(sessionId)?.progress() ?? null;
+  }
+
+  acceptTurn(
+    sessionId: string,
+    turn: FinalTranscript,
+  ): ChecklistProgressPayload | null {
+    const tracker = this.trackers.get(sessionId);
+    return tracker?.acceptTurn(turn) ? tracker.progress() : null;
+  }
+
+  /**
+   * Marks the item with this id or label as covered.
+   *
+   * @returns `unknown` when the session or the item does not exist.
+   */
+  markCovered(
+    sessionId: string,
+    topic: string,
+    source: ChecklistCoverageSource,
+  ): ChecklistProgressPayload | null | 'unknown' {
+    const tracker = this.trackers.get(sessionId);
+    const item = tracker?.find(topic);
+    if (!tracker || !item) {
+      return 'unknown';
+    }
+    return tracker.markCovered(item.id, source) ? tracker.progress() : null;
+  }
+
+  /**
+   * An instruction asking the model to cover the required items still
+   * missing before the session ends, or null when nothing is missing.
+   */
+  coveragePrompt(sessionId: string): string | null {
+    const missing = this.trackers.get(sessionId)?.missingRequired() ?? [];
+    if (missing.length === 0) {
+      return null;
+    }
+    const topics = missing.map((item) => item.label.toLowerCase()).join(', ');
+    return (
+      `Before we finish, the intake still needs: ${topics}. ` +
+      'Please ask the patient about each of these, one at a time.'
+    );
+  }
+
+  finish(sessionId: string): void {
+    this.trackers.delete(sessionId);
+  }
+}
@@ -0,0 +1,193 @@
+import { readFileSync } from 'fs';
+import type {
+  ChecklistCoverageSource,
+  ChecklistProgressPayload,
+  FinalTranscript,
+} from '../protocol/socket-protocol';
+
+export type { ChecklistCoverageSource, ChecklistProgressPayload };
+
+/**
+ * A topic the intake conversation should cover. `patterns` recognise the
+ * topic in the transcript, in either the assistant's question or the
+ * patient's answer.
+ */
+export interface ChecklistItem {
+  id: string;
+  label: string;
+  required: boolean;
+  patterns: RegExp[];
+}
+
+/**
+ * An item as written in the `INTAKE_CHECKLIST_PATH` JSON file.
+ */
+export interface ChecklistItemDefinition {
+  id: string;
+  label: string;
+  required?: boolean;
+  patterns: string[];
+}
+
+/**
+ * The built-in checklist, in the order a clinician would expect the topics
+ * on an intake form. A different checklist can be loaded from
+ * `INTAKE_CHECKLIST_PATH`.
+ */
+export const DEFAULT_INTAKE_CHECKLIST: ChecklistItem[] = [
+  {
+    id: 'chief-complaint',
+    label: 'Reason for visit',
+    required: true,
+    patterns: [
+      /\b(?:brings you in|reason for (?:your|the|today's) visit|main (?:problem|concern|complaint)|what seems to be)\b/i,
+    ],
+  },
+  {
+    id: 'symptom-onset',
+    label: 'Symptom onset',
+    required: true,
+    patterns: [
+      /\bwhen did (?:it|this|that|they|the \w+|your \w+) (?:start|begin)\b/i,
+      /\b(?:how long have you|since (?:yesterday|last|this)|(?:started|began) (?:on|last|yesterday|this|about|a few))\b/i,
+    ],
+  },
+  {
+    id: 'pain-scale',
+    label: 'Pain scale',
+    required: true,
+    patterns: [
+      /\b(?:scale (?:of|from) (?:0|zero|1|one) to (?:10|ten)|out of (?:10|ten)|pain (?:score|scale|level)|how (?:bad|severe) is (?:the|your) pain)\b/i,
+    ],
+  },
+  {
+    id: 'current-medications',
+    label: 'Current medications',
+    required: true,
+    patterns: [
+      /\b(?:medications?|medicines?|prescriptions?|pills|tablets|supplements)\b/i,
+    ],
+  },
+  {
+    id: 'allergies',
+    label: 'Allergies',
+    required: true,
+    patterns: [/\ballerg(?:y|ies|ic)\b/i],
+  },
+  {
+    id: 'medical-history',
+    label: 'Past medical history',
+    required: false,
+    patterns: [
+      /\b(?:medical history|past (?:illnesses|surgeries|conditions)|chronic (?:conditions?|illness)|been diagnosed|surger(?:y|ies)|operations?)\b/i,
+    ],
+  },
+];
+
+/**
+ * Reads a checklist from a JSON file of {@link ChecklistItemDefinition}s.
+ * Patterns are case-insensitive.
+ */
+export function loadIntakeChecklist(path: string): ChecklistItem[] {
+  const definitions = JSON.parse(
+    readFileSync(path, 'utf8'),
+  ) as ChecklistItemDefinition[];
+  if (!Array.isArray(definitions) || definitions.length === 0) {
+    throw new Error(`${path} must contain a JSON array of checklist items.`);
+  }
+  return definitions.map(({ id, label, required = true, patterns }) => {
+    if (
+      typeof id !== 'string' ||
+      typeof label !== 'string' ||
+      !Array.isArray(patterns)
+    ) {
+      throw new Error(
+        `Checklist items in ${path} need a string "id" and "label" and an array of "patterns".`,
+      );
+    }
+    return {
+      id,
+      label,
+      required,
+      patterns: patterns.map((pattern) => new RegExp(pattern, 'i')),
+    };
+  });
+}
+
+/**
+ * Tracks which checklist items one session has covered.
+ *
+ * From the transcript, an item counts as covered when the patient mentions
+ * it, or when the assistant asks about it and the patient answers in the
+ * next turn. The model can also report items as covered outright.
+ */
+export class ChecklistTracker {
+  private readonly covered = new Map<string, ChecklistCoverageSource>();
+  // Items the assistant asked about, waiting for the patient's answer
+  private asked = new Set<string>();
+
+  constructor(private readonly items: ChecklistItem[]) {}
+
+  /**
+   * The item with this id or label, ignoring case.
+   */
+  find(topic: string): ChecklistItem | undefined {
+    const wanted = topic.trim().toLowerCase();
+    return this.items.find(
+      (item) => item.id === wanted || item.label.toLowerCase() === wanted,
+    );
+  }
+
+  /** Returns true when the item was not covered before. */
+  markCovered(id: string, source: ChecklistCoverageSource): boolean {
+    if (this.covered.has(id)) {
+      return false;
+    }
+    this.covered.set(id, source);
+    this.asked.delete(id);
+    return true;
+  }
+
+  /** Returns true when the turn covered at least one new item. */
+  acceptTurn({ role, text, interrupted }: FinalTranscript): boolean {
+    const mentioned = this.items
+      .filter((item) => !this.covered.has(item.id))
+      .filter((item) => item.patterns.some((pattern) => pattern.test(text)));
+
+    if (role === 'assistant') {
+      // A question the patient talked over may never have been heard
+      if (!interrupted) {
+        mentioned.forEach((item) => this.asked.add(item.id));
+      }
+      return false;
+    }
+    if (!text.trim()) {
+      return false;
+    }
+    const answered = [...this.asked, ...mentioned.map((item) => item.id)];
+    this.asked = new Set();
+    return answered
+      .map((id) => this.markCovered(id, 'transcript'))
+      .some(Boolean);
+  }
+
+  /** Required items not covered yet, in checklist order. */
+  missingRequired(): ChecklistItem[] {
+    return this.items.filter(
+      (item) => item.required && !this.covered.has(item.id),
+    );
+  }
+
+  progress(): ChecklistProgressPayload {
+    return {
+      items: this.items.map(({ id, label, required }) => ({
+        id,
+        label,
+        required,
+        covered: this.covered.has(id),
+        coveredBy: this.covered.get(id),
+      })),
+      missingRequired: this.missingRequired().map((item) => item.id),
+    };
+  }
+}
@@ -0,0 +1,30 @@
+import { ConfigService } from '@nestjs/config';
+import { readNonNegativeInteger } from './settings';
+
+describe('readNonNegativeInteger', () => {
+  const read = (value?: string) =>
+    readNonNegativeInteger(
+      new ConfigService(value === undefined ? {} : { LIMIT: value }),
+      'LIMIT',
+      30,
+    );
+
+  it('falls back to the default when the setting is missing or empty', () => {
+    expect(read()).toBe(30);
+    expect(read('')).toBe(30);
+  });
+
+  it('reads whole numbers, including 0', () => {
+    expect(read('0')).toBe(0);
+    expect(read(' 120 ')).toBe(120);
+  });
+
+  it.each(['10/min', '-1', '1.5', 'abc', '1e3', '99999999999999999999'])(
+    'rejects "%s"',
+    (value) => {
+      expect(() => read(value)).toThrow(
+        `LIMIT must be a non-negative integer, got "${value}".`,
+      );
+    },
+  );
+});
@@ -0,0 +1,21 @@
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Reads a setting that must be a whole number of zero or more, such as a
+ * limit or a duration. A malformed value stops the app at startup instead
+ * of turning into `NaN`, which would silently disable whatever it limits.
+ */
+export function readNonNegativeInteger(
+  configService: ConfigService,
+  name: string,
+  fallback: number,
+): number {
+  const value = configService.get<string>(name)?.trim();
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  if (!/^\d+$/.test(value) || !Number.isSafeInteger(Number(value))) {
+    throw new Error(`${name} must be a non-negative integer, got "${value}".`);
+  }
+  return Number(value);
+}
@@ -0,0 +1,204 @@
+import { randomUUID } from 'crypto';
+import type { SessionRecord } from '../sessions/session-repository';
+import {
+  escapeHtml,
+  NOTHING_RECORDED,
+  SessionExporter,
+  speakerLabel,
+  summarySections,
+} from './session-export';
+import type { SummarySection } from './session-export';
+
+const LOINC = 'http://loinc.org';
+
+interface CodeableConcept {
+  coding?: { system: string; code: string; display: string }[];
+  text?: string;
+}
+
+interface Narrative {
+  status: 'generated';
+  div: string;
+}
+
+/** The subset of FHIR R4 `Composition` this export fills in. */
+interface Composition {
+  resourceType: 'Composition';
+  identifier: { system: string; value: string };
+  status: 'preliminary' | 'final';
+  type: CodeableConcept;
+  date: string;
+  author: { display: string }[];
+  title: string;
+  section: {
+    title: string;
+    code?: CodeableConcept;
+    text: Narrative;
+    entry?: { reference: string }[];
+  }[];
+}
+
+/** The subset of FHIR R4 `DocumentReference` this export fills in. */
+interface DocumentReference {
+  resourceType: 'DocumentReference';
+  status: 'current';
+  docStatus: 'preliminary' | 'final';
+  type: CodeableConcept;
+  date: string;
+  author: { display: string }[];
+  description: string;
+  content: {
+    attachment: {
+      contentType: string;
+      data: string;
+      title: string;
+      creation: string;
+    };
+  }[];
+  context: { period: { start: string; end?: string } };
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  identifier: { system: string; value: string };
+  type: 'document';
+  timestamp: string;
+  entry: { fullUrl: string; resource: Composition | DocumentReference }[];
+}
+
+const loinc = (code: string, display: string): CodeableConcept => ({
+  coding: [{ system: LOINC, code, display }],
+});
+
+const SECTION_CODES: Partial<Record<SummarySection['key'], CodeableConcept>> = {
+  chiefComplaint: loinc('10154-3', 'Chief complaint Narrative - Reported'),
+  history: loinc('10164-2', 'History of Present illness Narrative'),
+  medications: loinc('10160-0', 'History of Medication use Narrative'),
+  allergies: loinc('48765-2', 'Allergies and adverse reactions Document'),
+  vitals: loinc('8716-3', 'Vital signs'),
+};
+
+const xhtml = (content: string): Narrative => ({
+  status: 'generated',
+  div: `<div xmlns="http://www.w3.org/1999/xhtml">${content}</div>`,
+});
+
+function sectionNarrative({ items }: SummarySection): Narrative {
+  if (items.length === 0) {
+    return xhtml(`<p>${NOTHING_RECORDED}</p>`);
+  }
+  if (items.length === 1) {
+    return xhtml(`<p>${escapeHtml(items[0])}</p>`);
+  }
+  return xhtml(
+    `<ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`,
+  );
+}
+
+function transcriptText(session: SessionRecord): string {
+  return session.turns
+    .map(
+      (turn) =>
+        `${speakerLabel(turn.role)} (${turn.timestamp})${turn.interrupted ? ' [interrupted]' : ''}: ${turn.text}`,
+    )
+    .join('\n');
+}
+
+/**
+ * Builds a FHIR R4 document Bundle: a `Composition` holding the clinical
+ * summary, whose last section points at a `DocumentReference` carrying the
+ * transcript as plain text. There is no Patient resource; the transcript
+ * and summary are already redacted of identifiers.
+ */
+export function toFhirBundle(
+  session: SessionRecord,
+  now = new Date(),
+): FhirBundle {
+  const final = session.status === 'ended' && session.summary !== null;
+  const author = [
+    { display: `Live intake assistant (${session.config.model})` },
+  ];
+  const transcriptUrl = `urn:uuid:${randomUUID()}`;
+
+  const transcript: DocumentReference = {
+    resourceType: 'DocumentReference',
+    status: 'current',
+    docStatus: session.status === 'ended' ? 'final' : 'preliminary',
+    type: { text: 'Conversation transcript' },
+    date: session.endedAt ?? session.startedAt,
+    author,
+    description: `Transcript of intake session ${session.id}`,
+    content: [
+      {
+        attachment: {
+          contentType: 'text/plain; charset=utf-8',
+          data: Buffer.from(transcriptText(session)).toString('base64'),
+          title: `Intake session ${session.id} transcript`,
+          creation: session.startedAt,
+        },
+      },
+    ],
+    context: {
+      period: {
+        start: session.startedAt,
+        ...(session.endedAt ? { end: session.endedAt } : {}),
+      },
+    },
+  };
+
+  const composition: Composition = {
+    resourceType: 'Composition',
+    identifier: {
+      system: 'urn:ietf:rfc:3986',
+      value: `urn:uuid:${session.id}`,
+    },
+    status: final ? 'final' : 'preliminary',
+    type: loinc('34117-2', 'History and physical note'),
+    date: session.summary?.submittedAt ?? session.endedAt ?? session.startedAt,
+    author,
+    title: 'Intake summary',
+    section: [
+      ...(session.summary
+        ? summarySections(session.summary).map((section) => ({
+            title: section.title,
+            ...(SECTION_CODES[section.key]
+              ? { code: SECTION_CODES[section.key] }
+              : {}),
+            text: sectionNarrative(section),
+          }))
+        : [
+            {
+              title: 'Clinical summary',
+              text: xhtml('<p>No summary was submitted.</p>'),
+            },
+          ]),
+      {
+        title: 'Transcript',
+        text: xhtml(
+          `<p>Conversation transcript, ${session.turns.length} turns.</p>`,
+        ),
+        entry: [{ reference: transcriptUrl }],
+      },
+    ],
+  };
+
+  return {
+    resourceType: 'Bundle',
+    identifier: {
+      system: 'urn:ietf:rfc:3986',
+      value: `urn:uuid:${randomUUID()}`,
+    },
+    type: 'document',
+    timestamp: now.toISOString(),
+    entry: [
+      { fullUrl: `urn:uuid:${randomUUID()}`, resource: composition },
+      { fullUrl: transcriptUrl, resource: transcript },
+    ],
+  };
+}
+
+export const fhirExporter: SessionExporter = {
+  contentType: 'application/fhir+json; charset=utf-8',
+  extension: 'json',
+  render: (session) => JSON.stringify(toFhirBundle(session), null, 2),
+};
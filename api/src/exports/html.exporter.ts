@@ -0,0 +1,91 @@
+import type { SessionRecord } from '../sessions/session-repository';
+import {
+  escapeHtml,
+  NOTHING_RECORDED,
+  SessionExporter,
+  speakerLabel,
+  summarySections,
+} from './session-export';
+
+// Self-contained so the document prints (or saves as PDF) without the app
+const STYLES = `
+  body { font: 12pt/1.4 system-ui, sans-serif; margin: 2cm; color: #111; }
+  h1 { font-size: 18pt; margin-bottom: 0; }
+  h2 { font-size: 14pt; border-bottom: 1px solid #999; margin-top: 1.5em; }
+  h3 { font-size: 12pt; margin-bottom: 0.2em; }
+  .meta { color: #555; }
+  .turn { margin: 0.4em 0; page-break-inside: avoid; }
+  .speaker { font-weight: bold; }
+  .time, .interrupted { color: #555; font-size: 10pt; }
+  @page { margin: 2cm; }
+  @media print { body { margin: 0; } }
+`;
+
+const paragraphs = (text: string) =>
+  text
+    .split(/\n+/)
+    .map((line) => `<p>${escapeHtml(line)}</p>`)
+    .join('');
+
+function renderSummary(session: SessionRecord): string {
+  if (!session.summary) {
+    return '<p>No summary was submitted.</p>';
+  }
+  const sections = summarySections(session.summary).map((section) => {
+    let body: string;
+    if (section.items.length === 0) {
+      body = `<p>${NOTHING_RECORDED}</p>`;
+    } else if (section.key === 'chiefComplaint' || section.key === 'history') {
+      body = section.items.map(paragraphs).join('');
+    } else {
+      body = `<ul>${section.items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+    }
+    return `<section><h3>${section.title}</h3>${body}</section>`;
+  });
+  return `${sections.join('\n')}
+<p class="meta">Submitted ${escapeHtml(session.summary.submittedAt)}</p>`;
+}
+
+function renderTranscript(session: SessionRecord): string {
+  if (session.turns.length === 0) {
+    return '<p>No turns were recorded.</p>';
+  }
+  return session.turns
+    .map(
+      (turn) =>
+        `<div class="turn"><span class="speaker">${speakerLabel(turn.role)}</span> ` +
+        `<span class="time">${escapeHtml(turn.timestamp)}</span>` +
+        (turn.interrupted
+          ? ' <span class="interrupted">(interrupted)</span>'
+          : '') +
+        `${paragraphs(turn.text)}</div>`,
+    )
+    .join('\n');
+}
+
+function renderHtml(session: SessionRecord): string {
+  const title = `Intake session ${escapeHtml(session.id)}`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p class="meta">Started ${escapeHtml(session.startedAt)} · Ended ${escapeHtml(session.endedAt ?? 'in progress')} · Model ${escapeHtml(session.config.model)}</p>
+<h2>Clinical summary</h2>
+${renderSummary(session)}
+<h2>Transcript</h2>
+${renderTranscript(session)}
+</body>
+</html>
+`;
+}
+
+export const htmlExporter: SessionExporter = {
+  contentType: 'text/html; charset=utf-8',
+  extension: 'html',
+  render: renderHtml,
+};
@@ -0,0 +1,62 @@
+import type { SessionRecord } from '../sessions/session-repository';
+import {
+  NOTHING_RECORDED,
+  SessionExporter,
+  speakerLabel,
+  summarySections,
+} from './session-export';
+
+// Keeps transcript text from being read as Markdown structure
+const escapeMarkdown = (text: string) =>
+  text.replace(/([\\`*_{}[\]<>#|])/g, '\\$1').replace(/\n/g, '  \n');
+
+function renderMarkdown(session: SessionRecord): string {
+  const lines = [
+    `# Intake session ${session.id}`,
+    '',
+    `- Started: ${session.startedAt}`,
+    `- Ended: ${session.endedAt ?? 'in progress'}`,
+    `- Model: ${session.config.model}`,
+    '',
+    '## Clinical summary',
+    '',
+  ];
+  if (session.summary) {
+    for (const section of summarySections(session.summary)) {
+      lines.push(`### ${section.title}`, '');
+      if (section.items.length === 0) {
+        lines.push(NOTHING_RECORDED);
+      } else if (
+        section.key === 'chiefComplaint' ||
+        section.key === 'history'
+      ) {
+        lines.push(...section.items.map(escapeMarkdown));
+      } else {
+        lines.push(...section.items.map((item) => `- ${escapeMarkdown(item)}`));
+      }
+      lines.push('');
+    }
+    lines.push(`_Submitted ${session.summary.submittedAt}_`, '');
+  } else {
+    lines.push('No summary was submitted.', '');
+  }
+
+  lines.push('## Transcript', '');
+  if (session.turns.length === 0) {
+    lines.push('No turns were recorded.', '');
+  }
+  for (const turn of session.turns) {
+    const interrupted = turn.interrupted ? ' _(interrupted)_' : '';
+    lines.push(
+      `**${speakerLabel(turn.role)}** (${turn.timestamp})${interrupted}: ${escapeMarkdown(turn.text)}`,
+      '',
+    );
+  }
+  return lines.join('\n');
+}
+
+export const markdownExporter: SessionExporter = {
+  contentType: 'text/markdown; charset=utf-8',
+  extension: 'md',
+  render: renderMarkdown,
+};
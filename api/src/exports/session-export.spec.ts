@@ -0,0 +1,134 @@
+import { DEFAULT_LIVE_SESSION_CONFIG } from '../live-model/live-session-config';
+import type { SessionRecord } from '../sessions/session-repository';
+import { toFhirBundle } from './fhir.exporter';
+import { htmlExporter } from './html.exporter';
+import { markdownExporter } from './markdown.exporter';
+
+describe('session exports', () => {
+  const session: SessionRecord = {
+    id: '6f1c2f7e-2b1a-4c4e-9a53-0d7c1d2e3f40',
+    userId: 'user-1',
+    status: 'ended',
+    startedAt: '2025-01-01T10:00:00.000Z',
+    endedAt: '2025-01-01T10:05:00.000Z',
+    config: DEFAULT_LIVE_SESSION_CONFIG,
+    turns: [
+      {
+        role: 'user',
+        text: 'I have a <b>headache</b>.',
+        interrupted: false,
+        timestamp: '2025-01-01T10:00:05.000Z',
+      },
+      {
+        role: 'assistant',
+        text: 'How long have you had it?',
+        interrupted: true,
+        timestamp: '2025-01-01T10:00:08.000Z',
+      },
+    ],
+    summary: {
+      chiefComplaint: 'Headache',
+      history: 'Started two days ago.',
+      medications: [{ name: 'Ibuprofen', dose: '400 mg', frequency: 'daily' }],
+      allergies: [],
+      vitals: { temperature: '37.2 C' },
+      redFlags: [],
+      submittedAt: '2025-01-01T10:04:00.000Z',
+    },
+  };
+
+  it('renders Markdown with the summary ahead of the transcript', () => {
+    const markdown = markdownExporter.render(session);
+
+    expect(markdown).toContain('### Chief complaint\n\nHeadache');
+    expect(markdown).toContain('- Ibuprofen, 400 mg, daily');
+    expect(markdown).toContain('### Allergies\n\nNone recorded.');
+    expect(markdown).toContain('- Temperature: 37.2 C');
+    expect(markdown).toContain(
+      '**Patient** (2025-01-01T10:00:05.000Z): I have a \\<b\\>headache\\</b\\>.',
+    );
+    expect(markdown).toContain(
+      '**Assistant** (2025-01-01T10:00:08.000Z) _(interrupted)_',
+    );
+    expect(markdown.indexOf('## Clinical summary')).toBeLessThan(
+      markdown.indexOf('## Transcript'),
+    );
+  });
+
+  it('renders printable HTML with the transcript escaped', () => {
+    const html = htmlExporter.render(session);
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('I have a &lt;b&gt;headache&lt;/b&gt;.');
+    expect(html).not.toContain('<b>headache</b>');
+    expect(html).toContain('<li>Ibuprofen, 400 mg, daily</li>');
+    expect(html).toContain('@media print');
+  });
+
+  it('builds a FHIR document Bundle led by a Composition', () => {
+    const bundle = toFhirBundle(session, new Date('2025-01-02T00:00:00Z'));
+
+    expect(bundle).toMatchObject({
+      resourceType: 'Bundle',
+      type: 'document',
+      timestamp: '2025-01-02T00:00:00.000Z',
+    });
+    const [composition, transcript] = bundle.entry;
+    expect(composition.resource).toMatchObject({
+      resourceType: 'Composition',
+      status: 'final',
+      identifier: { value: `urn:uuid:${session.id}` },
+      date: '2025-01-01T10:04:00.000Z',
+    });
+    expect(transcript.resource).toMatchObject({
+      resourceType: 'DocumentReference',
+      docStatus: 'final',
+      context: {
+        period: { start: session.startedAt, end: session.endedAt },
+      },
+    });
+
+    if (composition.resource.resourceType !== 'Composition') {
+      throw new Error('The first entry must be the Composition.');
+    }
+    const sections = composition.resource.section;
+    expect(sections.map((section) => section.title)).toEqual([
+      'Chief complaint',
+      'History of present illness',
+      'Medications',
+      'Allergies',
+      'Vital signs',
+      'Red flags',
+      'Transcript',
+    ]);
+    expect(sections[0].code?.coding?.[0].code).toBe('10154-3');
+    expect(sections[6].entry).toEqual([{ reference: transcript.fullUrl }]);
+    expect(sections[0].text.div).toBe(
+      '<div xmlns="http://www.w3.org/1999/xhtml"><p>Headache</p></div>',
+    );
+
+    if (transcript.resource.resourceType !== 'DocumentReference') {
+      throw new Error('The second entry must be the DocumentReference.');
+    }
+    const text = Buffer.from(
+      transcript.resource.content[0].attachment.data,
+      'base64',
+    ).toString();
+    expect(text).toBe(
+      'Patient (2025-01-01T10:00:05.000Z): I have a <b>headache</b>.\n' +
+        'Assistant (2025-01-01T10:00:08.000Z) [interrupted]: How long have you had it?',
+    );
+  });
+
+  it('marks sessions without a summary as preliminary', () => {
+    const bundle = toFhirBundle({ ...session, summary: null });
+
+    expect(bundle.entry[0].resource).toMatchObject({
+      status: 'preliminary',
+      section: [{ title: 'Clinical summary' }, { title: 'Transcript' }],
+    });
+    expect(markdownExporter.render({ ...session, summary: null })).toContain(
+      'No summary was submitted.',
+    );
+  });
+});
@@ -0,0 +1,102 @@
+import type {
+  SessionRecord,
+  SessionSummary,
+} from '../sessions/session-repository';
+import type { Vitals } from '../tools/clinical-summary';
+
+export type ExportFormat = 'markdown' | 'html' | 'fhir';
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = [
+  'markdown',
+  'html',
+  'fhir',
+];
+
+export function isExportFormat(format: string): format is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(format);
+}
+
+/**
+ * Renders a recorded session as a document clinicians can take into the
+ * record.
+ */
+export interface SessionExporter {
+  contentType: string;
+  extension: string;
+  render(session: SessionRecord): string;
+}
+
+/**
+ * One section of the clinical summary, in the order every export lists them.
+ */
+export interface SummarySection {
+  key: keyof Omit<SessionSummary, 'submittedAt'>;
+  title: string;
+  /** One entry per line or list item; empty when nothing was recorded. */
+  items: string[];
+}
+
+const VITAL_LABELS: Record<keyof Vitals, string> = {
+  bloodPressure: 'Blood pressure',
+  heartRate: 'Heart rate',
+  temperature: 'Temperature',
+  respiratoryRate: 'Respiratory rate',
+  oxygenSaturation: 'Oxygen saturation',
+  weight: 'Weight',
+};
+
+const nonEmpty = (values: (string | undefined)[]) =>
+  values.filter((value): value is string => !!value?.trim());
+
+export function summarySections(summary: SessionSummary): SummarySection[] {
+  return [
+    {
+      key: 'chiefComplaint',
+      title: 'Chief complaint',
+      items: nonEmpty([summary.chiefComplaint]),
+    },
+    {
+      key: 'history',
+      title: 'History of present illness',
+      items: nonEmpty([summary.history]),
+    },
+    {
+      key: 'medications',
+      title: 'Medications',
+      items: summary.medications.map(({ name, dose, frequency }) =>
+        nonEmpty([name, dose, frequency]).join(', '),
+      ),
+    },
+    {
+      key: 'allergies',
+      title: 'Allergies',
+      items: nonEmpty(summary.allergies),
+    },
+    {
+      key: 'vitals',
+      title: 'Vital signs',
+      items: (Object.keys(VITAL_LABELS) as (keyof Vitals)[])
+        .filter((name) => summary.vitals[name]?.trim())
+        .map((name) => `${VITAL_LABELS[name]}: ${summary.vitals[name]}`),
+    },
+    {
+      key: 'redFlags',
+      title: 'Red flags',
+      items: nonEmpty(summary.redFlags),
+    },
+  ];
+}
+
+export const NOTHING_RECORDED = 'None recorded.';
+
+export const speakerLabel = (role: 'user' | 'assistant') =>
+  role === 'user' ? 'Patient' : 'Assistant';
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,10 @@
+import { fhirExporter } from './fhir.exporter';
+import { htmlExporter } from './html.exporter';
+import { markdownExporter } from './markdown.exporter';
+import type { ExportFormat, SessionExporter } from './session-export';
+
+export const SESSION_EXPORTERS: Record<ExportFormat, SessionExporter> = {
+  markdown: markdownExporter,
+  html: htmlExporter,
+  fhir: fhirExporter,
+};
@@ -0,0 +1,87 @@
+import {
+  Controller,
+  Get,
+  Inject,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { LIVE_MODEL_PROVIDER } from '../live-model/live-model-provider';
+import type { LiveModelProvider } from '../live-model/live-model-provider';
+import { SESSION_REPOSITORY } from '../sessions/session-repository';
+import type { SessionRepository } from '../sessions/session-repository';
+
+// A dependency that does not answer within this time counts as down
+const CHECK_TIMEOUT_MS = 3000;
+
+export type HealthCheckResult =
+  | { status: 'ok' }
+  | { status: 'error'; message: string };
+
+export interface HealthReport {
+  status: 'ok' | 'error';
+  checks?: Record<string, HealthCheckResult>;
+}
+
+async function runCheck(
+  check: () => Promise<void>,
+): Promise<HealthCheckResult> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`No answer within ${CHECK_TIMEOUT_MS} ms.`)),
+      CHECK_TIMEOUT_MS,
+    );
+  });
+  try {
+    await Promise.race([check(), timeout]);
+    return { status: 'ok' };
+  } catch (error) {
+    return {
+      status: 'error',
+      message: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Probes for orchestrators. Like `/metrics` they are not authenticated and
+ * reveal nothing about sessions or users.
+ */
+@Controller('health')
+export class HealthController {
+  constructor(
+    @Inject(LIVE_MODEL_PROVIDER)
+    private readonly liveModelProvider: LiveModelProvider,
+    @Inject(SESSION_REPOSITORY)
+    private readonly sessions: SessionRepository,
+  ) {}
+
+  /** The process is up and serving requests. */
+  @Get('live')
+  live(): HealthReport {
+    return { status: 'ok' };
+  }
+
+  /**
+   * Whether the API can take sessions: the live model provider is
+   * configured and usable, and the session store can be read and written.
+   * Answers 503 with the same report when a check fails.
+   */
+  @Get('ready')
+  async ready(): Promise<HealthReport> {
+    const [provider, storage] = await Promise.all([
+      runCheck(() => this.liveModelProvider.checkHealth()),
+      runCheck(() => this.sessions.checkHealth()),
+    ]);
+    const checks = { provider, storage };
+    const healthy = Object.values(checks).every(
+      (check) => check.status === 'ok',
+    );
+    const report: HealthReport = { status: healthy ? 'ok' : 'error', checks };
+    if (!healthy) {
+      throw new ServiceUnavailableException(report);
+    }
+    return report;
+  }
+}
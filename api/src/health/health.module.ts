@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { LiveModelModule } from '../live-model/live-model.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { HealthController } from './health.controller';
+
+@Module({
+  imports: [LiveModelModule, SessionsModule],
+  controllers: [HealthController],
+})
+export class HealthModule {}
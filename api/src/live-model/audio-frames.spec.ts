@@ -0,0 +1,53 @@
+import {
+  audioDurationSeconds,
+  AudioFrameError,
+  MAX_AUDIO_FRAME_BYTES,
+  parseAudioFrame,
+  toAudioFrame,
+} from './audio-frames';
+
+describe('audio frames', () => {
+  const mimeType = 'audio/pcm;rate=16000';
+
+  it('round-trips PCM between binary frames and base64', () => {
+    const samples = Buffer.from([0x01, 0x00, 0xff, 0x7f]);
+    const encoded = parseAudioFrame({ data: samples, mimeType });
+
+    expect(encoded).toEqual({ data: 'AQD/fw==', mimeType });
+    expect(toAudioFrame(encoded).data.equals(samples)).toBe(true);
+  });
+
+  it('accepts ArrayBuffers and typed array views', () => {
+    const samples = new Int16Array([1, -1, 2]);
+
+    expect(parseAudioFrame({ data: samples.buffer, mimeType }).data).toBe(
+      Buffer.from(samples.buffer).toString('base64'),
+    );
+    expect(parseAudioFrame({ data: samples.subarray(1), mimeType }).data).toBe(
+      Buffer.from(samples.buffer, 2).toString('base64'),
+    );
+  });
+
+  it.each([
+    [null, /must be an object/],
+    [{ data: 'AQD/fw==', mimeType }, /must be binary/],
+    [{ data: Buffer.alloc(4), mimeType: 'audio/wav' }, /audio\/pcm/],
+    [{ data: Buffer.alloc(4), mimeType: 'audio/pcm;rate=99999999' }, /16000/],
+    [{ data: Buffer.alloc(4), mimeType: 'audio/pcm;rate=16000000' }, /16000/],
+    [{ data: Buffer.alloc(3), mimeType }, /whole 16-bit samples/],
+    [{ data: Buffer.alloc(MAX_AUDIO_FRAME_BYTES + 2), mimeType }, /at most/],
+  ])('rejects %#', (payload, message) => {
+    expect(() => parseAudioFrame(payload)).toThrow(AudioFrameError);
+    expect(() => parseAudioFrame(payload)).toThrow(message);
+  });
+
+  it('measures audio at the rate named by its mimeType', () => {
+    const data = Buffer.alloc(3200).toString('base64');
+
+    expect(audioDurationSeconds({ data, mimeType })).toBe(0.1);
+    expect(
+      audioDurationSeconds({ data, mimeType: 'audio/pcm;rate=8000' }),
+    ).toBe(0.2);
+    expect(audioDurationSeconds({ data, mimeType: 'audio/pcm' })).toBe(0.1);
+  });
+});
@@ -0,0 +1,90 @@
+import { types } from 'util';
+import type { AudioFrame, Base64Audio } from '../protocol/socket-protocol';
+
+/**
+ * A PCM audio frame sent as a socket.io binary attachment. Clients that
+ * negotiated `audioTransport: 'binary'` receive model audio as `audio-frame`
+ * events of this shape and may send microphone audio as `send-audio-frame`.
+ */
+export type AudioFramePayload = AudioFrame<Buffer>;
+
+export type { Base64Audio };
+
+/** Upper bound for one inbound frame: a second of 16 kHz mono 16-bit PCM. */
+export const MAX_AUDIO_FRAME_BYTES = 32000;
+
+/**
+ * The mimeTypes accepted for microphone audio: 16-bit PCM at 16 kHz, the
+ * only rate the UI sends. Quotas and recordings measure audio at the rate
+ * the mimeType names, so a client must not be able to claim another one.
+ */
+export const INPUT_AUDIO_MIME_TYPE = /^audio\/pcm(;rate=16000)?$/;
+
+export class AudioFrameError extends Error {}
+
+/**
+ * Decodes model audio into a binary frame for the client. This is the only
+ * place outbound audio is base64-decoded.
+ */
+export function toAudioFrame(audio: Base64Audio): AudioFramePayload {
+  return {
+    data: Buffer.from(audio.data, 'base64'),
+    mimeType: audio.mimeType,
+  };
+}
+
+/**
+ * Length of 16-bit mono PCM audio in seconds, at the `rate` its mimeType
+ * names (16 kHz when it names none).
+ */
+export function audioDurationSeconds(audio: Base64Audio): number {
+  const rate = Number(/rate=(\d+)/.exec(audio.mimeType)?.[1] ?? 16000);
+  return Buffer.byteLength(audio.data, 'base64') / 2 / rate;
+}
+
+function toBuffer(data: unknown): Buffer | null {
+  if (Buffer.isBuffer(data)) {
+    return data;
+  }
+  if (types.isAnyArrayBuffer(data)) {
+    return Buffer.from(data);
+  }
+  if (ArrayBuffer.isView(data)) {
+    return Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  }
+  return null;
+}
+
+/**
+ * Validates a `send-audio-frame` payload and encodes it the way the SDK needs
+ * it. This is the only place inbound audio is base64-encoded.
+ *
+ * @throws AudioFrameError when the payload is not a 16-bit PCM frame.
+ */
+export function parseAudioFrame(payload: unknown): Base64Audio {
+  if (typeof payload !== 'object' || payload === null) {
+    throw new AudioFrameError('Audio frame must be an object.');
+  }
+  const { data, mimeType } = payload as { data?: unknown; mimeType?: unknown };
+
+  if (typeof mimeType !== 'string' || !INPUT_AUDIO_MIME_TYPE.test(mimeType)) {
+    throw new AudioFrameError(
+      'Audio frame mimeType must be audio/pcm;rate=16000.',
+    );
+  }
+  const buffer = toBuffer(data);
+  if (!buffer) {
+    throw new AudioFrameError('Audio frame data must be binary.');
+  }
+  if (buffer.length === 0 || buffer.length % 2 !== 0) {
+    throw new AudioFrameError(
+      'Audio frame data must contain whole 16-bit samples.',
+    );
+  }
+  if (buffer.length > MAX_AUDIO_FRAME_BYTES) {
+    throw new AudioFrameError(
+      `Audio frame must be at most ${MAX_AUDIO_FRAME_BYTES} bytes.`,
+    );
+  }
+  return { data: buffer.toString('base64'), mimeType };
+}
@@ -0,0 +1,72 @@
+import { LiveServerMessage } from '@google/genai';
+
+/**
+ * Server messages captured from a Gemini Live session (audio payloads
+ * shortened) and replayed by the translator tests.
+ */
+const recorded = {
+  setupComplete: { setupComplete: {} },
+  multiPartTurn: {
+    serverContent: {
+      modelTurn: {
+        parts: [
+          { text: 'Hello! ' },
+          {
+            inlineData: { mimeType: 'audio/pcm;rate=24000', data: 'AAEAAgAD' },
+          },
+          { text: 'How can I help you today?' },
+          {
+            inlineData: { mimeType: 'audio/pcm;rate=24000', data: 'AAQABQAG' },
+          },
+        ],
+      },
+    },
+  },
+  thoughtPart: {
+    serverContent: {
+      modelTurn: {
+        parts: [
+          { text: 'The user greeted me.', thought: true },
+          { text: 'Hi there.' },
+        ],
+      },
+    },
+  },
+  transcribedTurn: {
+    serverContent: {
+      inputTranscription: { text: 'I feel dizzy', finished: true },
+      modelTurn: {
+        parts: [
+          {
+            inlineData: { mimeType: 'audio/pcm;rate=24000', data: 'AAcACAAJ' },
+          },
+        ],
+      },
+      outputTranscription: { text: 'When did it start?' },
+    },
+  },
+  generationComplete: { serverContent: { generationComplete: true } },
+  turnCompleteWithUsage: {
+    serverContent: { turnComplete: true },
+    usageMetadata: {
+      promptTokenCount: 310,
+      responseTokenCount: 52,
+      totalTokenCount: 362,
+      promptTokensDetails: [{ modality: 'AUDIO', tokenCount: 310 }],
+    },
+  },
+  interrupted: { serverContent: { interrupted: true } },
+  goAway: { goAway: { timeLeft: '9.5s' } },
+  resumptionUpdate: {
+    sessionResumptionUpdate: { newHandle: 'Cj4KHgoUdGVzdA', resumable: true },
+  },
+  notResumable: { sessionResumptionUpdate: { resumable: false } },
+};
+
+export type RecordedLiveMessage = keyof typeof recorded;
+
+export function recordedLiveMessage(
+  name: RecordedLiveMessage,
+): LiveServerMessage {
+  return Object.assign(new LiveServerMessage(), recorded[name]);
+}
@@ -0,0 +1,159 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  GoogleGenAI,
+  LiveConnectConfig,
+  LiveServerMessage,
+  MediaResolution,
+  Modality,
+} from '@google/genai';
+import {
+  LiveModelCallbacks,
+  LiveModelProvider,
+  LiveModelSession,
+  LiveSessionOptions,
+} from './live-model-provider';
+import { LiveSessionConfig } from './live-session-config';
+import {
+  classifyModelError,
+  ModelErrorStage,
+  NORMAL_CLOSE_CODES,
+} from './model-errors';
+import { MetricsService } from '../metrics/metrics.service';
+import { RedactionService } from '../redaction/redaction.service';
+
+@Injectable()
+export class GeminiAiService implements LiveModelProvider {
+  private readonly logger = new Logger(GeminiAiService.name);
+  private readonly ai: GoogleGenAI;
+  // Why the API last refused the key, until a session gets through again
+  private keyRejected: string | null = null;
+
+  constructor(
+    configService: ConfigService,
+    private readonly redaction: RedactionService,
+    private readonly metrics: MetricsService,
+  ) {
+    const apiKey = configService.get<string>('GOOGLE_API_KEY');
+    if (!apiKey) {
+      throw new Error('GOOGLE_API_KEY environment variable not set.');
+    }
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  /**
+   * The key is only known to be bad once the API refuses it, so readiness
+   * fails from the first refusal until a session is set up again.
+   */
+  checkHealth(): Promise<void> {
+    return this.keyRejected
+      ? Promise.reject(
+          new Error(`The Gemini API refused the key: ${this.keyRejected}`),
+        )
+      : Promise.resolve();
+  }
+
+  async createLiveSession(
+    sessionConfig: LiveSessionConfig,
+    callbacks: LiveModelCallbacks,
+    options: LiveSessionOptions,
+  ): Promise<LiveModelSession> {
+    const model = `models/${sessionConfig.model}`;
+    const config = this.toLiveConnectConfig(sessionConfig, options);
+
+    // The config holds the system instruction and the resumption handle, so
+    // only its outline is logged
+    this.logger.log(
+      `Connecting to ${model} (${sessionConfig.responseModality}, ${options.tools.length} tools${options.resumption?.handle ? ', resuming' : ''}).`,
+    );
+
+    try {
+      const session = await this.ai.live.connect({
+        model,
+        config,
+        callbacks: {
+          onopen: () => {
+            this.logger.log('Gemini session opened.');
+            callbacks.onOpen();
+          },
+          onmessage: (message: LiveServerMessage) => {
+            this.logger.debug(
+              `Gemini session message received: ${this.redaction.forLog(message)}`,
+            );
+            if (message.setupComplete) {
+              this.keyRejected = null;
+            }
+            callbacks.onMessage(message);
+          },
+          onerror: (error: ErrorEvent) => {
+            this.logger.error('Gemini session error:', error.message);
+            this.recordError('session', error.message);
+            callbacks.onError(error);
+          },
+          onclose: (event: CloseEvent) => {
+            this.logger.log('Gemini session closed:', event.reason);
+            if (!NORMAL_CLOSE_CODES.includes(event.code)) {
+              this.recordError('close', event.reason || `code ${event.code}`);
+            }
+            callbacks.onClose(event);
+          },
+        },
+      });
+      this.logger.log('Successfully connected to Gemini Live session.');
+      return session;
+    } catch (error) {
+      this.logger.error('Failed to connect to Gemini Live session', error);
+      this.recordError(
+        'connect',
+        error instanceof Error ? error.message : String(error),
+      );
+      throw error;
+    }
+  }
+
+  private recordError(stage: ModelErrorStage, message: string) {
+    const cause = classifyModelError(message);
+    this.metrics.modelError(stage, cause);
+    if (cause === 'auth') {
+      this.keyRejected = message;
+    }
+  }
+
+  private toLiveConnectConfig(
+    sessionConfig: LiveSessionConfig,
+    { tools, resumption }: LiveSessionOptions,
+  ): LiveConnectConfig {
+    return {
+      responseModalities: [
+        sessionConfig.responseModality === 'TEXT'
+          ? Modality.TEXT
+          : Modality.AUDIO,
+      ],
+      mediaResolution: MediaResolution.MEDIA_RESOLUTION_MEDIUM,
+      speechConfig: {
+        languageCode: sessionConfig.language,
+        voiceConfig: {
+          prebuiltVoiceConfig: {
+            voiceName: sessionConfig.voice,
+          },
+        },
+      },
+      systemInstruction: sessionConfig.systemInstruction,
+      tools: tools.length ? [{ functionDeclarations: tools }] : undefined,
+      sessionResumption: resumption,
+      realtimeInputConfig: {
+        automaticActivityDetection: {
+          disabled: sessionConfig.activityDetection === 'manual',
+        },
+      },
+      inputAudioTranscription: {},
+      outputAudioTranscription: {},
+      contextWindowCompression: {
+        triggerTokens: String(sessionConfig.compression.triggerTokens),
+        slidingWindow: {
+          targetTokens: String(sessionConfig.compression.targetTokens),
+        },
+      },
+    };
+  }
+}
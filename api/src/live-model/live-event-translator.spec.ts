@@ -0,0 +1,114 @@
+import { recordedLiveMessage } from './fixtures/recorded-live-messages';
+import {
+  parseDurationMs,
+  translateLiveServerMessage,
+} from './live-event-translator';
+
+describe('translateLiveServerMessage', () => {
+  it('forwards every model part in order', () => {
+    expect(
+      translateLiveServerMessage(recordedLiveMessage('multiPartTurn')),
+    ).toEqual([
+      { event: 'text-part', payload: { text: 'Hello! ' } },
+      {
+        event: 'audio-part',
+        payload: {
+          audio: { data: 'AAEAAgAD', mimeType: 'audio/pcm;rate=24000' },
+        },
+      },
+      { event: 'text-part', payload: { text: 'How can I help you today?' } },
+      {
+        event: 'audio-part',
+        payload: {
+          audio: { data: 'AAQABQAG', mimeType: 'audio/pcm;rate=24000' },
+        },
+      },
+    ]);
+  });
+
+  it('skips thought parts', () => {
+    expect(
+      translateLiveServerMessage(recordedLiveMessage('thoughtPart')),
+    ).toEqual([{ event: 'text-part', payload: { text: 'Hi there.' } }]);
+  });
+
+  it('forwards input and output transcriptions around the model parts', () => {
+    expect(
+      translateLiveServerMessage(recordedLiveMessage('transcribedTurn')),
+    ).toEqual([
+      {
+        event: 'input-transcription',
+        payload: { text: 'I feel dizzy', finished: true },
+      },
+      {
+        event: 'audio-part',
+        payload: {
+          audio: { data: 'AAcACAAJ', mimeType: 'audio/pcm;rate=24000' },
+        },
+      },
+      {
+        event: 'output-transcription',
+        payload: { text: 'When did it start?', finished: false },
+      },
+    ]);
+  });
+
+  it('emits turn signals', () => {
+    expect(
+      translateLiveServerMessage(recordedLiveMessage('interrupted')),
+    ).toEqual([{ event: 'interrupted', payload: {} }]);
+    expect(
+      translateLiveServerMessage(recordedLiveMessage('generationComplete')),
+    ).toEqual([{ event: 'generation-complete', payload: {} }]);
+  });
+
+  it('emits turn completion before usage metadata', () => {
+    expect(
+      translateLiveServerMessage(recordedLiveMessage('turnCompleteWithUsage')),
+    ).toEqual([
+      { event: 'turn-complete', payload: {} },
+      {
+        event: 'usage-metadata',
+        payload: {
+          promptTokenCount: 310,
+          responseTokenCount: 52,
+          totalTokenCount: 362,
+        },
+      },
+    ]);
+  });
+
+  it('translates goAway into a millisecond countdown', () => {
+    expect(translateLiveServerMessage(recordedLiveMessage('goAway'))).toEqual([
+      { event: 'go-away', payload: { timeLeftMs: 9500 } },
+    ]);
+  });
+
+  it('reports resumability without leaking the resumption handle', () => {
+    expect(
+      translateLiveServerMessage(recordedLiveMessage('resumptionUpdate')),
+    ).toEqual([
+      { event: 'session-resumption-update', payload: { resumable: true } },
+    ]);
+    expect(
+      translateLiveServerMessage(recordedLiveMessage('notResumable')),
+    ).toEqual([
+      { event: 'session-resumption-update', payload: { resumable: false } },
+    ]);
+  });
+
+  it('produces no events for setup messages', () => {
+    expect(
+      translateLiveServerMessage(recordedLiveMessage('setupComplete')),
+    ).toEqual([]);
+  });
+});
+
+describe('parseDurationMs', () => {
+  it('parses protobuf duration strings', () => {
+    expect(parseDurationMs('30s')).toBe(30000);
+    expect(parseDurationMs('0.25s')).toBe(250);
+    expect(parseDurationMs(undefined)).toBeNull();
+    expect(parseDurationMs('soon')).toBeNull();
+  });
+});
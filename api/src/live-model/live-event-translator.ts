@@ -0,0 +1,136 @@
+import { LiveServerMessage, UsageMetadata } from '@google/genai';
+import type {
+  ServerEventPayload,
+  UsageMetadata as UsagePayload,
+} from '../protocol/socket-protocol';
+
+type TranslatedEventName =
+  | 'text-part'
+  | 'audio-part'
+  | 'input-transcription'
+  | 'output-transcription'
+  | 'interrupted'
+  | 'generation-complete'
+  | 'turn-complete'
+  | 'usage-metadata'
+  | 'go-away'
+  | 'session-resumption-update';
+
+/**
+ * A socket event derived from a `LiveServerMessage`, ready to be emitted to
+ * the client as `client.emit(event, payload)`.
+ */
+export type LiveServerEvent = {
+  [E in TranslatedEventName]: { event: E; payload: ServerEventPayload<E> };
+}[TranslatedEventName];
+
+export type LiveServerEventName = LiveServerEvent['event'];
+
+/**
+ * Parses a protobuf `Duration` string such as `"12.5s"` into milliseconds.
+ */
+export function parseDurationMs(duration: string | undefined): number | null {
+  const match = duration?.match(/^(\d+(?:\.\d+)?)s$/);
+  return match ? Math.round(parseFloat(match[1]) * 1000) : null;
+}
+
+function toUsagePayload(usage: UsageMetadata): UsagePayload {
+  return {
+    promptTokenCount: usage.promptTokenCount ?? 0,
+    responseTokenCount: usage.responseTokenCount ?? 0,
+    totalTokenCount: usage.totalTokenCount ?? 0,
+  };
+}
+
+/**
+ * Translates one `LiveServerMessage` into the ordered list of socket events
+ * the client should receive. The user's input transcription comes first, then
+ * every model part in order and the output transcription, followed by the
+ * turn signals and then the session-level metadata. Model "thought" parts are
+ * never forwarded.
+ *
+ * Tool calls are not translated here; the gateway dispatches them itself.
+ */
+export function translateLiveServerMessage(
+  message: LiveServerMessage,
+): LiveServerEvent[] {
+  const events: LiveServerEvent[] = [];
+  const content = message.serverContent;
+
+  if (
+    content?.inputTranscription?.text ||
+    content?.inputTranscription?.finished
+  ) {
+    events.push({
+      event: 'input-transcription',
+      payload: {
+        text: content.inputTranscription.text ?? '',
+        finished: !!content.inputTranscription.finished,
+      },
+    });
+  }
+
+  for (const part of content?.modelTurn?.parts ?? []) {
+    if (part.thought) {
+      continue;
+    }
+    if (part.inlineData?.data) {
+      events.push({
+        event: 'audio-part',
+        payload: {
+          audio: {
+            data: part.inlineData.data,
+            mimeType: part.inlineData.mimeType ?? 'audio/pcm;rate=24000',
+          },
+        },
+      });
+    }
+    if (part.text) {
+      events.push({ event: 'text-part', payload: { text: part.text } });
+    }
+  }
+
+  if (
+    content?.outputTranscription?.text ||
+    content?.outputTranscription?.finished
+  ) {
+    events.push({
+      event: 'output-transcription',
+      payload: {
+        text: content.outputTranscription.text ?? '',
+        finished: !!content.outputTranscription.finished,
+      },
+    });
+  }
+
+  if (content?.interrupted) {
+    events.push({ event: 'interrupted', payload: {} });
+  }
+  if (content?.generationComplete) {
+    events.push({ event: 'generation-complete', payload: {} });
+  }
+  if (content?.turnComplete) {
+    events.push({ event: 'turn-complete', payload: {} });
+  }
+
+  if (message.usageMetadata) {
+    events.push({
+      event: 'usage-metadata',
+      payload: toUsagePayload(message.usageMetadata),
+    });
+  }
+  if (message.goAway) {
+    events.push({
+      event: 'go-away',
+      payload: { timeLeftMs: parseDurationMs(message.goAway.timeLeft) },
+    });
+  }
+  if (message.sessionResumptionUpdate) {
+    events.push({
+      event: 'session-resumption-update',
+      payload: { resumable: !!message.sessionResumptionUpdate.resumable },
+    });
+  }
+
+  return events;
+}
@@ -0,0 +1,75 @@
+import {
+  FunctionDeclaration,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from '@google/genai';
+import { LiveSessionConfig } from './live-session-config';
+
+/**
+ * Injection token for the configured {@link LiveModelProvider}.
+ */
+export const LIVE_MODEL_PROVIDER = Symbol('LIVE_MODEL_PROVIDER');
+
+/**
+ * Names accepted by the `LIVE_MODEL_PROVIDER` environment variable.
+ */
+export type LiveModelProviderName = 'gemini' | 'mock';
+
+export interface LiveModelError {
+  message: string;
+}
+
+export interface LiveModelCloseEvent {
+  code?: number;
+  reason: string;
+}
+
+export interface LiveModelCallbacks {
+  onMessage: (message: LiveServerMessage) => void;
+  onError: (error: LiveModelError) => void;
+  onClose: (event: LiveModelCloseEvent) => void;
+  onOpen: () => void;
+}
+
+/**
+ * The subset of the `@google/genai` live `Session` the gateway relies on.
+ * Providers return an object with this shape so the gateway never needs to
+ * know which backend it is talking to.
+ */
+export interface LiveModelSession {
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+}
+
+/**
+ * Per-connection options that are not part of the client's session config.
+ */
+export interface LiveSessionOptions {
+  /** Functions the model may call during the session. */
+  tools: FunctionDeclaration[];
+  /**
+   * Enables session resumption updates. With a `handle` the connection
+   * resumes the session that handle was issued for.
+   */
+  resumption?: { handle?: string };
+}
+
+/**
+ * A backend able to open bidirectional live model sessions.
+ */
+export interface LiveModelProvider {
+  createLiveSession(
+    config: LiveSessionConfig,
+    callbacks: LiveModelCallbacks,
+    options: LiveSessionOptions,
+  ): Promise<LiveModelSession>;
+  /**
+   * Resolves when the provider is configured well enough to open sessions;
+   * rejects with the reason otherwise.
+   */
+  checkHealth(): Promise<void>;
+}
@@ -0,0 +1,45 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MetricsModule } from '../metrics/metrics.module';
+import { MetricsService } from '../metrics/metrics.service';
+import { RedactionModule } from '../redaction/redaction.module';
+import { RedactionService } from '../redaction/redaction.service';
+import { GeminiAiService } from './gemini-ai.service';
+import {
+  LIVE_MODEL_PROVIDER,
+  LiveModelProvider,
+  LiveModelProviderName,
+} from './live-model-provider';
+import { MockLiveModelProvider } from './mock-live-model.provider';
+
+@Module({
+  imports: [MetricsModule, RedactionModule],
+  providers: [
+    {
+      provide: LIVE_MODEL_PROVIDER,
+      inject: [ConfigService, RedactionService, MetricsService],
+      useFactory: (
+        configService: ConfigService,
+        redaction: RedactionService,
+        metrics: MetricsService,
+      ): LiveModelProvider => {
+        const provider = configService.get<LiveModelProviderName>(
+          'LIVE_MODEL_PROVIDER',
+          'gemini',
+        );
+        switch (provider) {
+          case 'gemini':
+            return new GeminiAiService(configService, redaction, metrics);
+          case 'mock':
+            return new MockLiveModelProvider(configService);
+          default:
+            throw new Error(
+              `Unknown LIVE_MODEL_PROVIDER "${String(provider)}". Expected "gemini" or "mock".`,
+            );
+        }
+      },
+    },
+  ],
+  exports: [LIVE_MODEL_PROVIDER],
+})
+export class LiveModelModule {}
@@ -0,0 +1,50 @@
+import {
+  DEFAULT_LIVE_SESSION_CONFIG,
+  resolveLiveSessionConfig,
+  SessionConfigError,
+} from './live-session-config';
+
+describe('resolveLiveSessionConfig', () => {
+  it('returns the defaults when no options are sent', () => {
+    expect(resolveLiveSessionConfig(undefined)).toEqual(
+      DEFAULT_LIVE_SESSION_CONFIG,
+    );
+  });
+
+  it('merges allowed options over the defaults', () => {
+    const config = resolveLiveSessionConfig({
+      voice: 'Kore',
+      language: 'es-US',
+      responseModality: 'TEXT',
+      activityDetection: 'manual',
+      systemInstruction: 'You are a triage nurse.',
+      compression: { targetTokens: 8000 },
+    });
+
+    expect(config).toEqual({
+      ...DEFAULT_LIVE_SESSION_CONFIG,
+      voice: 'Kore',
+      language: 'es-US',
+      responseModality: 'TEXT',
+      activityDetection: 'manual',
+      systemInstruction: 'You are a triage nurse.',
+      compression: { triggerTokens: 25600, targetTokens: 8000 },
+    });
+  });
+
+  it.each([
+    [{ model: 'gpt-4o' }, /Invalid model/],
+    [{ voice: 'Nobody' }, /Invalid voice/],
+    [{ language: 'xx-XX' }, /Invalid language/],
+    [{ responseModality: 'VIDEO' }, /Invalid responseModality/],
+    [{ activityDetection: 'psychic' }, /Invalid activityDetection/],
+    [{ audioTransport: 'carrier-pigeon' }, /Invalid audioTransport/],
+    [{ compression: { triggerTokens: 10 } }, /triggerTokens/],
+    [{ compression: { triggerTokens: 4096, targetTokens: 8192 } }, /lower/],
+    [{ systemInstruction: 42 }, /must be a string/],
+    ['not an object', /must be an object/],
+  ])('rejects %j', (options, message) => {
+    expect(() => resolveLiveSessionConfig(options)).toThrow(SessionConfigError);
+    expect(() => resolveLiveSessionConfig(options)).toThrow(message);
+  });
+});
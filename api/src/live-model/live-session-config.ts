@@ -0,0 +1,200 @@
+import type {
+  ActivityDetection,
+  AudioTransport,
+  ResponseModality,
+  SessionConfig,
+  StartSessionPayload,
+} from '../protocol/socket-protocol';
+
+export type {
+  ActivityDetection,
+  AudioTransport,
+  ResponseModality,
+  StartSessionPayload,
+};
+
+/**
+ * Fully resolved configuration for a single live session. Produced by
+ * {@link resolveLiveSessionConfig} from the `start-session` payload and echoed
+ * back to the client in `session-started`.
+ */
+export type LiveSessionConfig = SessionConfig;
+
+/**
+ * Values clients are allowed to choose from.
+ */
+export const LIVE_SESSION_ALLOW_LIST = {
+  models: [
+    'gemini-2.0-flash-live-001',
+    'gemini-live-2.5-flash-preview',
+    'gemini-2.5-flash-preview-native-audio-dialog',
+  ],
+  voices: [
+    'Zephyr',
+    'Puck',
+    'Charon',
+    'Kore',
+    'Fenrir',
+    'Leda',
+    'Orus',
+    'Aoede',
+  ],
+  languages: [
+    'en-US',
+    'en-GB',
+    'en-AU',
+    'en-IN',
+    'es-US',
+    'es-ES',
+    'fr-FR',
+    'de-DE',
+    'pt-BR',
+    'hi-IN',
+  ],
+  responseModalities: ['AUDIO', 'TEXT'] as ResponseModality[],
+  activityDetection: ['automatic', 'manual'] as ActivityDetection[],
+  audioTransport: ['base64', 'binary'] as AudioTransport[],
+};
+
+export const COMPRESSION_TOKEN_LIMITS = { min: 1024, max: 131072 };
+export const MAX_SYSTEM_INSTRUCTION_LENGTH = 16000;
+
+export const DEFAULT_LIVE_SESSION_CONFIG: LiveSessionConfig = {
+  model: 'gemini-2.0-flash-live-001',
+  voice: 'Zephyr',
+  language: 'en-US',
+  responseModality: 'AUDIO',
+  activityDetection: 'automatic',
+  audioTransport: 'base64',
+  compression: {
+    triggerTokens: 25600,
+    targetTokens: 12800,
+  },
+};
+
+export class SessionConfigError extends Error {}
+
+function pick<T extends string>(
+  field: string,
+  value: unknown,
+  allowed: readonly T[],
+  fallback: T,
+): T {
+  if (value === undefined || value === null) {
+    return fallback;
+  }
+  if (!allowed.includes(value as T)) {
+    throw new SessionConfigError(
+      `Invalid ${field} ${JSON.stringify(value)}. Allowed values: ${allowed.join(', ')}.`,
+    );
+  }
+  return value as T;
+}
+
+function tokenCount(field: string, value: unknown, fallback: number): number {
+  if (value === undefined || value === null) {
+    return fallback;
+  }
+  const { min, max } = COMPRESSION_TOKEN_LIMITS;
+  if (
+    !Number.isInteger(value) ||
+    (value as number) < min ||
+    (value as number) > max
+  ) {
+    throw new SessionConfigError(
+      `Invalid ${field}. Expected an integer between ${min} and ${max}.`,
+    );
+  }
+  return value as number;
+}
+
+/**
+ * Validates a `start-session` payload against {@link LIVE_SESSION_ALLOW_LIST}
+ * and merges it over the defaults.
+ *
+ * @throws SessionConfigError when a value is not allowed.
+ */
+export function resolveLiveSessionConfig(payload: unknown): LiveSessionConfig {
+  if (payload === undefined || payload === null) {
+    return { ...DEFAULT_LIVE_SESSION_CONFIG };
+  }
+  if (typeof payload !== 'object' || Array.isArray(payload)) {
+    throw new SessionConfigError('Session options must be an object.');
+  }
+
+  const options = payload as StartSessionPayload;
+  const defaults = DEFAULT_LIVE_SESSION_CONFIG;
+
+  const config: LiveSessionConfig = {
+    model: pick(
+      'model',
+      options.model,
+      LIVE_SESSION_ALLOW_LIST.models,
+      defaults.model,
+    ),
+    voice: pick(
+      'voice',
+      options.voice,
+      LIVE_SESSION_ALLOW_LIST.voices,
+      defaults.voice,
+    ),
+    language: pick(
+      'language',
+      options.language,
+      LIVE_SESSION_ALLOW_LIST.languages,
+      defaults.language,
+    ),
+    responseModality: pick(
+      'responseModality',
+      options.responseModality,
+      LIVE_SESSION_ALLOW_LIST.responseModalities,
+      defaults.responseModality,
+    ),
+    activityDetection: pick(
+      'activityDetection',
+      options.activityDetection,
+      LIVE_SESSION_ALLOW_LIST.activityDetection,
+      defaults.activityDetection,
+    ),
+    audioTransport: pick(
+      'audioTransport',
+      options.audioTransport,
+      LIVE_SESSION_ALLOW_LIST.audioTransport,
+      defaults.audioTransport,
+    ),
+    compression: {
+      triggerTokens: tokenCount(
+        'compression.triggerTokens',
+        options.compression?.triggerTokens,
+        defaults.compression.triggerTokens,
+      ),
+      targetTokens: tokenCount(
+        'compression.targetTokens',
+        options.compression?.targetTokens,
+        defaults.compression.targetTokens,
+      ),
+    },
+  };
+
+  if (config.compression.targetTokens >= config.compression.triggerTokens) {
+    throw new SessionConfigError(
+      'compression.targetTokens must be lower than compression.triggerTokens.',
+    );
+  }
+
+  if (options.systemInstruction !== undefined) {
+    if (typeof options.systemInstruction !== 'string') {
+      throw new SessionConfigError('systemInstruction must be a string.');
+    }
+    if (options.systemInstruction.length > MAX_SYSTEM_INSTRUCTION_LENGTH) {
+      throw new SessionConfigError(
+        `systemInstruction must be at most ${MAX_SYSTEM_INSTRUCTION_LENGTH} characters.`,
+      );
+    }
+    if (options.systemInstruction.trim()) {
+      config.systemInstruction = options.systemInstruction;
+    }
+  }
+
+  return config;
+}
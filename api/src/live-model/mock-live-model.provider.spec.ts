@@ -0,0 +1,201 @@
+import { ConfigService } from '@nestjs/config';
+import { LiveServerMessage } from '@google/genai';
+import { LiveModelCallbacks } from './live-model-provider';
+import {
+  DEFAULT_LIVE_SESSION_CONFIG,
+  LiveSessionConfig,
+} from './live-session-config';
+import { MockLiveModelProvider } from './mock-live-model.provider';
+
+describe('MockLiveModelProvider', () => {
+  let events: string[];
+  let messages: LiveServerMessage[];
+  let callbacks: LiveModelCallbacks;
+  let config: LiveSessionConfig;
+
+  const createProvider = (script: string) =>
+    new MockLiveModelProvider(new ConfigService({ MOCK_LIVE_SCRIPT: script }));
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    events = [];
+    messages = [];
+    config = { ...DEFAULT_LIVE_SESSION_CONFIG };
+    callbacks = {
+      onOpen: () => events.push('open'),
+      onMessage: (message) => {
+        events.push('message');
+        messages.push(message);
+      },
+      onError: (error) => events.push(`error:${error.message}`),
+      onClose: (event) => events.push(`close:${event.reason}`),
+    };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('opens the session and reports setup completion', async () => {
+    await createProvider('default').createLiveSession(config, callbacks);
+    jest.runAllTimers();
+
+    expect(events).toEqual(['open', 'message']);
+    expect(messages[0].setupComplete?.sessionId).toBe('mock-default');
+  });
+
+  it('replays one scripted turn per completed client turn', async () => {
+    const session = await createProvider('default').createLiveSession(
+      config,
+      callbacks,
+    );
+    jest.runAllTimers();
+    messages = [];
+
+    session.sendClientContent({ turns: 'hello' });
+    session.sendClientContent({ turns: 'ignored while playing' });
+    jest.runAllTimers();
+
+    const parts = messages.flatMap(
+      (m) => m.serverContent?.modelTurn?.parts ?? [],
+    );
+    expect(parts.length).toBe(2);
+    expect(parts[0].inlineData?.mimeType).toBe('audio/pcm;rate=24000');
+    expect(
+      messages.map((m) => m.serverContent?.outputTranscription?.text),
+    ).toContain('What brings you in today?');
+    expect(messages[messages.length - 1].serverContent?.turnComplete).toBe(
+      true,
+    );
+  });
+
+  it('only replays input transcriptions for spoken turns', async () => {
+    const session = await createProvider('default').createLiveSession(
+      config,
+      callbacks,
+    );
+    session.sendClientContent({ turns: 'typed' });
+    jest.runAllTimers();
+    expect(messages.some((m) => m.serverContent?.inputTranscription)).toBe(
+      false,
+    );
+
+    session.sendRealtimeInput({ activityEnd: {} });
+    jest.runAllTimers();
+    expect(
+      messages.find((m) => m.serverContent?.inputTranscription)?.serverContent
+        ?.inputTranscription?.text,
+    ).toBe('I have had a headache since yesterday.');
+  });
+
+  it('answers text-only sessions with text parts only', async () => {
+    config = { ...config, responseModality: 'TEXT' };
+    const session = await createProvider('default').createLiveSession(
+      config,
+      callbacks,
+    );
+    session.sendClientContent({ turns: 'hello' });
+    jest.runAllTimers();
+
+    const parts = messages.flatMap(
+      (m) => m.serverContent?.modelTurn?.parts ?? [],
+    );
+    expect(parts.map((p) => p.text)).toEqual([
+      'Hello, I am the mock assistant. ',
+      'What brings you in today?',
+    ]);
+    expect(messages.some((m) => m.serverContent?.outputTranscription)).toBe(
+      false,
+    );
+  });
+
+  it('does not start a turn for partial client content', async () => {
+    const session = await createProvider('default').createLiveSession(
+      config,
+      callbacks,
+    );
+    jest.runAllTimers();
+    messages = [];
+
+    session.sendClientContent({ turns: 'still typing', turnComplete: false });
+    jest.runAllTimers();
+
+    expect(messages).toEqual([]);
+  });
+
+  it('replays scripted interruptions', async () => {
+    const session = await createProvider('interruption').createLiveSession(
+      config,
+      callbacks,
+    );
+    session.sendRealtimeInput({ activityEnd: {} });
+    jest.runAllTimers();
+
+    expect(messages.some((m) => m.serverContent?.interrupted)).toBe(true);
+  });
+
+  it('replays scripted errors and closes the session', async () => {
+    const session = await createProvider('error').createLiveSession(
+      config,
+      callbacks,
+    );
+    session.sendClientContent({ turns: 'hello' });
+    jest.runAllTimers();
+
+    expect(events.slice(-2)).toEqual([
+      'error:Mock live model failure',
+      'close:Internal error',
+    ]);
+  });
+
+  it('reports a close event when the client closes the session', async () => {
+    const session = await createProvider('default').createLiveSession(
+      config,
+      callbacks,
+    );
+    session.close();
+    jest.runAllTimers();
+
+    expect(events).toEqual(['close:Session closed by client.']);
+  });
+
+  it('issues resumption handles that continue the script', async () => {
+    const provider = createProvider('default');
+    const session = await provider.createLiveSession(config, callbacks, {
+      tools: [],
+      resumption: {},
+    });
+    session.sendClientContent({ turns: 'hello' });
+    jest.runAllTimers();
+
+    const handle = messages.find((m) => m.sessionResumptionUpdate)
+      ?.sessionResumptionUpdate?.newHandle;
+    expect(handle).toBe('mock-turn-1');
+
+    messages = [];
+    const resumed = await provider.createLiveSession(config, callbacks, {
+      tools: [],
+      resumption: { handle },
+    });
+    resumed.sendClientContent({ turns: 'next' });
+    jest.runAllTimers();
+
+    expect(
+      messages.some(
+        (m) =>
+          m.serverContent?.outputTranscription?.text ===
+          'Thank you. How long has this been going on?',
+      ),
+    ).toBe(true);
+    await expect(
+      provider.createLiveSession(config, callbacks, {
+        tools: [],
+        resumption: { handle: 'bogus' },
+      }),
+    ).rejects.toThrow(/Unknown resumption handle/);
+  });
+
+  it('rejects unknown scripts', () => {
+    expect(() => createProvider('nope')).toThrow(/Unknown MOCK_LIVE_SCRIPT/);
+  });
+});
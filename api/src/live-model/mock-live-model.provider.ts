@@ -0,0 +1,256 @@
+import { readFileSync } from 'fs';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveServerContent,
+  LiveServerMessage,
+} from '@google/genai';
+import {
+  LiveModelCallbacks,
+  LiveModelProvider,
+  LiveModelSession,
+  LiveSessionOptions,
+} from './live-model-provider';
+import { LiveSessionConfig } from './live-session-config';
+import { MOCK_LIVE_SCRIPTS, MockLiveScript } from './mock-live-scripts';
+
+type TurnTrigger = 'text' | 'audio';
+
+/**
+ * A live session that replays a {@link MockLiveScript}. Each completed client
+ * turn plays the next scripted turn; input received while a turn is still
+ * playing is ignored, which keeps the replay deterministic.
+ *
+ * Like the real model, audio sessions answer with audio plus an output
+ * transcription (scripted text parts become the transcription) and text
+ * sessions answer with text only. Scripted input transcriptions are only
+ * replayed for turns the client spoke rather than typed.
+ *
+ * With resumption enabled the session sends a resumption update after every
+ * completed turn. Its handle records the next turn of the script, so a
+ * session resumed from it carries on where the old one stopped.
+ */
+export class MockLiveSession implements LiveModelSession {
+  private nextTurn = 0;
+  private playing = false;
+  private closed = false;
+  private timers = new Set<NodeJS.Timeout>();
+
+  constructor(
+    private readonly script: MockLiveScript,
+    private readonly config: LiveSessionConfig,
+    private readonly callbacks: LiveModelCallbacks,
+    private readonly resumption?: LiveSessionOptions['resumption'],
+  ) {
+    if (resumption?.handle) {
+      this.nextTurn = MockLiveSession.parseHandle(resumption.handle);
+    }
+  }
+
+  static parseHandle(handle: string): number {
+    const match = /^mock-turn-(\d+)$/.exec(handle);
+    if (!match) {
+      throw new Error(`Unknown resumption handle "${handle}".`);
+    }
+    return Number(match[1]);
+  }
+
+  open(): void {
+    this.schedule(0, () => {
+      this.callbacks.onOpen();
+      this.callbacks.onMessage(
+        Object.assign(new LiveServerMessage(), {
+          setupComplete: { sessionId: `mock-${this.script.name}` },
+        }),
+      );
+    });
+  }
+
+  sendClientContent(params: LiveSendClientContentParameters): void {
+    if (params.turnComplete !== false) {
+      const spoken = JSON.stringify(params.turns ?? '').includes('inlineData');
+      this.playNextTurn(spoken ? 'audio' : 'text');
+    }
+  }
+
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void {
+    if (params.activityEnd || params.audioStreamEnd) {
+      this.playNextTurn('audio');
+    } else if (params.text) {
+      this.playNextTurn('text');
+    }
+  }
+
+  sendToolResponse(): void {
+    // Tool responses are accepted and dropped; scripts drive the replies.
+  }
+
+  close(): void {
+    this.finish({ code: 1000, reason: 'Session closed by client.' });
+  }
+
+  private playNextTurn(trigger: TurnTrigger): void {
+    if (this.closed || this.playing) {
+      return;
+    }
+    if (this.nextTurn >= this.script.turns.length) {
+      if (!this.script.loop) {
+        return;
+      }
+      this.nextTurn = 0;
+    }
+
+    const steps = this.script.turns[this.nextTurn++];
+    this.playing = true;
+
+    let delay = 0;
+    for (const step of steps) {
+      delay += step.delayMs ?? 0;
+      this.schedule(delay, () => {
+        if ('message' in step) {
+          const message = this.applyModality(
+            Object.assign(new LiveServerMessage(), step.message),
+            trigger,
+          );
+          if (message) {
+            this.callbacks.onMessage(message);
+          }
+          if (message?.serverContent?.turnComplete && this.resumption) {
+            this.callbacks.onMessage(
+              Object.assign(new LiveServerMessage(), {
+                sessionResumptionUpdate: {
+                  newHandle: `mock-turn-${this.nextTurn}`,
+                  resumable: true,
+                },
+              }),
+            );
+          }
+        } else if ('error' in step) {
+          this.callbacks.onError({ message: step.error });
+        } else {
+          this.finish(step.close);
+        }
+      });
+    }
+    this.schedule(delay, () => (this.playing = false));
+  }
+
+  private applyModality(
+    message: LiveServerMessage,
+    trigger: TurnTrigger,
+  ): LiveServerMessage | undefined {
+    const content = message.serverContent;
+    if (!content) {
+      return message;
+    }
+    const { inputTranscription, modelTurn, ...rest } = content;
+    const parts = modelTurn?.parts ?? [];
+    const serverContent: LiveServerContent = { ...rest };
+
+    if (inputTranscription && trigger === 'audio') {
+      serverContent.inputTranscription = inputTranscription;
+    }
+    if (this.config.responseModality === 'TEXT') {
+      const textParts = parts.filter((part) => part.text);
+      if (textParts.length) {
+        serverContent.modelTurn = { ...modelTurn, parts: textParts };
+      }
+    } else {
+      const audioParts = parts.filter((part) => part.inlineData);
+      const spoken = parts.map((part) => part.text ?? '').join('');
+      if (audioParts.length) {
+        serverContent.modelTurn = { ...modelTurn, parts: audioParts };
+      }
+      if (spoken) {
+        serverContent.outputTranscription = { text: spoken };
+      }
+    }
+
+    if (Object.keys(serverContent).length === 0) {
+      return undefined;
+    }
+    return Object.assign(new LiveServerMessage(), {
+      ...message,
+      serverContent,
+    });
+  }
+
+  private finish(event: { code?: number; reason: string }): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+    setTimeout(() => this.callbacks.onClose(event), 0);
+  }
+
+  private schedule(delayMs: number, action: () => void): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      if (!this.closed) {
+        action();
+      }
+    }, delayMs);
+    this.timers.add(timer);
+  }
+}
+
+/**
+ * Offline stand-in for the Gemini Live API, selected with
+ * `LIVE_MODEL_PROVIDER=mock`. `MOCK_LIVE_SCRIPT` names one of the built-in
+ * {@link MOCK_LIVE_SCRIPTS} or points at a JSON file with the same shape.
+ */
+@Injectable()
+export class MockLiveModelProvider implements LiveModelProvider {
+  private readonly logger = new Logger(MockLiveModelProvider.name);
+  private readonly script: MockLiveScript;
+
+  constructor(configService: ConfigService) {
+    this.script = this.loadScript(
+      configService.get<string>('MOCK_LIVE_SCRIPT', 'default'),
+    );
+  }
+
+  createLiveSession(
+    config: LiveSessionConfig,
+    callbacks: LiveModelCallbacks,
+    options?: LiveSessionOptions,
+  ): Promise<LiveModelSession> {
+    const resumption = options?.resumption;
+    this.logger.log(
+      `Opening mock live session (script: ${this.script.name}${resumption?.handle ? `, resuming ${resumption.handle}` : ''})`,
+    );
+    try {
+      const session = new MockLiveSession(
+        this.script,
+        config,
+        callbacks,
+        resumption,
+      );
+      session.open();
+      return Promise.resolve(session);
+    } catch (error) {
+      return Promise.reject(error as Error);
+    }
+  }
+
+  checkHealth(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  private loadScript(source: string): MockLiveScript {
+    if (source.endsWith('.json')) {
+      return JSON.parse(readFileSync(source, 'utf8')) as MockLiveScript;
+    }
+    const script = MOCK_LIVE_SCRIPTS[source];
+    if (!script) {
+      throw new Error(
+        `Unknown MOCK_LIVE_SCRIPT "${source}". Expected one of ${Object.keys(MOCK_LIVE_SCRIPTS).join(', ')} or a path to a .json script.`,
+      );
+    }
+    return script;
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * A single scripted event replayed by the mock live model. `message` is a
+ * plain JSON representation of a `LiveServerMessage`.
+ */
+export type MockLiveStep = { delayMs?: number } & (
+  | { message: Record<string, unknown> }
+  | { error: string }
+  | { close: { code?: number; reason: string } }
+);
+
+/**
+ * A canned conversation. Each entry of `turns` is replayed in response to one
+ * completed client turn; with `loop` set the script starts over once every
+ * turn has been played.
+ */
+export interface MockLiveScript {
+  name: string;
+  loop?: boolean;
+  turns: MockLiveStep[][];
+}
+
+const MOCK_OUTPUT_SAMPLE_RATE = 24000;
+
+/**
+ * Generates a base64 encoded 16-bit little-endian PCM sine tone, used as a
+ * stand-in for the audio the real model would speak.
+ */
+export function pcmToneBase64(
+  frequencyHz: number,
+  durationMs: number,
+  sampleRate = MOCK_OUTPUT_SAMPLE_RATE,
+): string {
+  const sampleCount = Math.round((sampleRate * durationMs) / 1000);
+  const buffer = Buffer.alloc(sampleCount * 2);
+  for (let i = 0; i < sampleCount; i++) {
+    const sample = Math.sin((2 * Math.PI * frequencyHz * i) / sampleRate);
+    buffer.writeInt16LE(Math.round(sample * 0.25 * 0x7fff), i * 2);
+  }
+  return buffer.toString('base64');
+}
+
+function textStep(text: string, delayMs = 20): MockLiveStep {
+  return {
+    delayMs,
+    message: { serverContent: { modelTurn: { parts: [{ text }] } } },
+  };
+}
+
+function audioStep(frequencyHz: number, durationMs: number): MockLiveStep {
+  return {
+    delayMs: 20,
+    message: {
+      serverContent: {
+        modelTurn: {
+          parts: [
+            {
+              inlineData: {
+                data: pcmToneBase64(frequencyHz, durationMs),
+                mimeType: `audio/pcm;rate=${MOCK_OUTPUT_SAMPLE_RATE}`,
+              },
+            },
+          ],
+        },
+      },
+    },
+  };
+}
+
+function userSaidStep(text: string): MockLiveStep {
+  return {
+    delayMs: 10,
+    message: {
+      serverContent: { inputTranscription: { text, finished: true } },
+    },
+  };
+}
+
+const MOCK_CLINICAL_SUMMARY = {
+  chiefComplaint: 'Headache',
+  history: 'Headache since yesterday, constant, rated 6 out of 10.',
+  medications: [{ name: 'Ibuprofen', dose: '400 mg', frequency: 'as needed' }],
+  allergies: ['Penicillin'],
+  vitals: {},
+  redFlags: [],
+};
+
+function clinicalSummaryStep(args: Record<string, unknown>): MockLiveStep {
+  return {
+    delayMs: 20,
+    message: {
+      toolCall: {
+        functionCalls: [
+          { id: 'mock-summary-call', name: 'submit_clinical_summary', args },
+        ],
+      },
+    },
+  };
+}
+
+const turnCompleteStep: MockLiveStep = {
+  delayMs: 10,
+  message: { serverContent: { turnComplete: true } },
+};
+
+/** Ends a turn and reports its token usage, as the live API does. */
+function turnCompleteWithUsage(
+  promptTokenCount: number,
+  responseTokenCount: number,
+): MockLiveStep {
+  return {
+    delayMs: 10,
+    message: {
+      serverContent: { turnComplete: true },
+      usageMetadata: {
+        promptTokenCount,
+        responseTokenCount,
+        totalTokenCount: promptTokenCount + responseTokenCount,
+      },
+    },
+  };
+}
+
+export const MOCK_LIVE_SCRIPTS: Record<string, MockLiveScript> = {
+  default: {
+    name: 'default',
+    loop: true,
+    turns: [
+      [
+        userSaidStep('Hi, I would like to check in for my appointment.'),
+        textStep('Hello, I am the mock assistant. '),
+        audioStep(440, 200),
+        textStep('What brings you in today?'),
+        audioStep(440, 200),
+        turnCompleteWithUsage(120, 80),
+      ],
+      [
+        userSaidStep('I have had a headache since yesterday.'),
+        textStep('Thank you. How long has this been going on?'),
+        audioStep(523, 300),
+        turnCompleteWithUsage(220, 60),
+      ],
+      [
+        userSaidStep(
+          'About a day. I take ibuprofen and I am allergic to penicillin.',
+        ),
+        textStep(
+          'Thank you, I have everything I need. I am sending your summary to the clinic.',
+        ),
+        audioStep(523, 300),
+        clinicalSummaryStep(MOCK_CLINICAL_SUMMARY),
+        turnCompleteWithUsage(300, 90),
+      ],
+    ],
+  },
+  summary: {
+    name: 'summary',
+    loop: true,
+    turns: [
+      [
+        textStep('Here is your summary.'),
+        clinicalSummaryStep({ ...MOCK_CLINICAL_SUMMARY, history: '' }),
+        turnCompleteStep,
+      ],
+      [
+        textStep('Here is the corrected summary.'),
+        clinicalSummaryStep(MOCK_CLINICAL_SUMMARY),
+        turnCompleteStep,
+      ],
+    ],
+  },
+  'go-away': {
+    name: 'go-away',
+    loop: true,
+    turns: [
+      [
+        textStep('This connection is about to be recycled.'),
+        turnCompleteStep,
+        { delayMs: 10, message: { goAway: { timeLeft: '0s' } } },
+        { delayMs: 10, close: { code: 1000, reason: 'Session expired.' } },
+      ],
+      [textStep('Still here after the reconnect.'), turnCompleteStep],
+    ],
+  },
+  interruption: {
+    name: 'interruption',
+    loop: true,
+    turns: [
+      [
+        textStep('Let me tell you a rather long story about'),
+        audioStep(330, 200),
+        { delayMs: 20, message: { serverContent: { interrupted: true } } },
+        turnCompleteStep,
+      ],
+    ],
+  },
+  error: {
+    name: 'error',
+    turns: [
+      [
+        textStep('Something is about to go wrong.'),
+        { delayMs: 20, error: 'Mock live model failure' },
+        { delayMs: 10, close: { code: 1011, reason: 'Internal error' } },
+      ],
+    ],
+  },
+};
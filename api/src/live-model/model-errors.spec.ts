@@ -0,0 +1,15 @@
+import { classifyModelError } from './model-errors';
+
+describe('classifyModelError', () => {
+  it.each([
+    ['API key not valid. Please pass a valid API key.', 'auth'],
+    ['PERMISSION_DENIED: the caller does not have permission', 'auth'],
+    ['You exceeded your current quota (RESOURCE_EXHAUSTED)', 'quota'],
+    ['The service is currently unavailable.', 'unavailable'],
+    ['Internal error encountered.', 'unavailable'],
+    ['Request contains an invalid argument.', 'invalid-request'],
+    ['socket hang up', 'other'],
+  ])('classifies "%s" as %s', (message, cause) => {
+    expect(classifyModelError(message)).toBe(cause);
+  });
+});
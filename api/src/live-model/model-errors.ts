@@ -0,0 +1,42 @@
+/**
+ * Where in a model connection's life an error happened: opening it, while
+ * it was open, or as the reason it was closed.
+ */
+export type ModelErrorStage = 'connect' | 'session' | 'close';
+
+/**
+ * Why a model connection failed, as far as its error message tells.
+ */
+export type ModelErrorCause =
+  | 'auth'
+  | 'quota'
+  | 'unavailable'
+  | 'invalid-request'
+  | 'other';
+
+// Checked in order; the first match wins
+const CAUSE_PATTERNS: [ModelErrorCause, RegExp][] = [
+  [
+    'auth',
+    /api key|permission[_ ]denied|unauthenticated|unauthori[sz]ed|\b40[13]\b/i,
+  ],
+  ['quota', /resource[_ ]exhausted|quota|rate limit|\b429\b/i],
+  [
+    'unavailable',
+    /unavailable|deadline|timed? ?out|internal error|\b50[034]\b/i,
+  ],
+  ['invalid-request', /invalid|not supported|\b400\b/i],
+];
+
+/**
+ * Close codes of connections that ended normally, including the server
+ * going away (which `ResumableLiveSession` handles) and closes without a
+ * status.
+ */
+export const NORMAL_CLOSE_CODES: readonly number[] = [1000, 1001, 1005];
+
+export function classifyModelError(message: string): ModelErrorCause {
+  return (
+    CAUSE_PATTERNS.find(([, pattern]) => pattern.test(message))?.[0] ?? 'other'
+  );
+}
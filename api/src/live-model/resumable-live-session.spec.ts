@@ -0,0 +1,194 @@
+import { LiveServerMessage } from '@google/genai';
+import {
+  LiveModelCallbacks,
+  LiveModelProvider,
+  LiveModelSession,
+  LiveSessionOptions,
+} from './live-model-provider';
+import { DEFAULT_LIVE_SESSION_CONFIG } from './live-session-config';
+import {
+  ResumableLiveSession,
+  ResumableSessionCallbacks,
+} from './resumable-live-session';
+
+class FakeConnection implements LiveModelSession {
+  sent: string[] = [];
+  audio: string[] = [];
+  closed = false;
+
+  constructor(
+    readonly callbacks: LiveModelCallbacks,
+    readonly handle?: string,
+  ) {}
+
+  sendClientContent({ turns }: { turns?: unknown }) {
+    this.sent.push(String(turns));
+  }
+  sendRealtimeInput({ audio }: { audio?: { data?: string } }) {
+    if (audio?.data) {
+      this.audio.push(audio.data);
+    }
+  }
+  sendToolResponse() {}
+  close() {
+    this.closed = true;
+  }
+
+  issueHandle(newHandle: string) {
+    this.callbacks.onMessage(
+      Object.assign(new LiveServerMessage(), {
+        sessionResumptionUpdate: { newHandle, resumable: true },
+      }),
+    );
+  }
+}
+
+class FakeProvider implements LiveModelProvider {
+  connections: FakeConnection[] = [];
+  failures = 0;
+
+  createLiveSession(
+    _config: unknown,
+    callbacks: LiveModelCallbacks,
+    options: LiveSessionOptions,
+  ): Promise<LiveModelSession> {
+    if (this.failures > 0) {
+      this.failures--;
+      return Promise.reject(new Error('unavailable'));
+    }
+    const connection = new FakeConnection(
+      callbacks,
+      options.resumption?.handle,
+    );
+    this.connections.push(connection);
+    return Promise.resolve(connection);
+  }
+
+  checkHealth(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  get last() {
+    return this.connections[this.connections.length - 1];
+  }
+}
+
+describe('ResumableLiveSession', () => {
+  let provider: FakeProvider;
+  let events: string[];
+  let callbacks: ResumableSessionCallbacks;
+
+  const open = () =>
+    ResumableLiveSession.open(
+      provider,
+      DEFAULT_LIVE_SESSION_CONFIG,
+      callbacks,
+      { tools: [], reconnectDelayMs: 1 },
+    );
+
+  beforeEach(() => {
+    provider = new FakeProvider();
+    events = [];
+    callbacks = {
+      onOpen: () => events.push('open'),
+      onMessage: () => events.push('message'),
+      onError: (error) => events.push(`error:${error.message}`),
+      onClose: (event) => events.push(`close:${event.reason}`),
+      onReconnecting: () => events.push('reconnecting'),
+      onReconnected: () => events.push('reconnected'),
+    };
+  });
+
+  it('resumes with the latest handle when the connection drops', async () => {
+    const session = await open();
+    const first = provider.last;
+    first.issueHandle('handle-1');
+    first.issueHandle('handle-2');
+
+    first.callbacks.onClose({ code: 1006, reason: 'dropped' });
+    session.sendClientContent({ turns: 'sent while away' });
+    await new Promise(setImmediate);
+
+    expect(provider.connections).toHaveLength(2);
+    expect(provider.last.handle).toBe('handle-2');
+    expect(provider.last.sent).toEqual(['sent while away']);
+    expect(events).toEqual([
+      'message',
+      'message',
+      'reconnecting',
+      'reconnected',
+    ]);
+
+    first.callbacks.onMessage(new LiveServerMessage());
+    expect(events).toHaveLength(4);
+  });
+
+  it('buffers a minute of audio whatever the frame length', async () => {
+    const session = await open();
+    const first = provider.last;
+    first.issueHandle('handle-1');
+
+    first.callbacks.onClose({ code: 1006, reason: 'dropped' });
+    // 70 seconds of 20 ms frames, numbered
+    for (let frame = 0; frame < 3500; frame++) {
+      const data = Buffer.alloc(640);
+      data.writeUInt32LE(frame);
+      session.sendRealtimeInput({
+        audio: { data: data.toString('base64'), mimeType: 'audio/pcm' },
+      });
+    }
+    await new Promise(setImmediate);
+
+    const replayed = provider.last.audio.map((data) =>
+      Buffer.from(data, 'base64').readUInt32LE(),
+    );
+    expect(replayed).toHaveLength(3000);
+    expect(replayed[0]).toBe(500);
+  });
+
+  it('moves to a new connection on goAway', async () => {
+    await open();
+    const first = provider.last;
+    first.issueHandle('handle-1');
+
+    first.callbacks.onMessage(
+      Object.assign(new LiveServerMessage(), { goAway: { timeLeft: '5s' } }),
+    );
+    await new Promise(setImmediate);
+
+    expect(first.closed).toBe(true);
+    expect(provider.last.handle).toBe('handle-1');
+    expect(events.slice(-2)).toEqual(['reconnecting', 'reconnected']);
+  });
+
+  it('closes when there is no handle to resume from', async () => {
+    await open();
+
+    provider.last.callbacks.onClose({ code: 1011, reason: 'Internal error' });
+
+    expect(provider.connections).toHaveLength(1);
+    expect(events).toEqual(['close:Internal error']);
+  });
+
+  it('gives up after the configured number of attempts', async () => {
+    await open();
+    provider.last.issueHandle('handle-1');
+    provider.failures = 3;
+
+    provider.last.callbacks.onClose({ code: 1006, reason: 'dropped' });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(events.slice(-2)).toEqual(['reconnecting', 'close:dropped']);
+  });
+
+  it('reports a client close once', async () => {
+    const session = await open();
+    provider.last.issueHandle('handle-1');
+
+    session.close();
+    provider.last.callbacks.onClose({ code: 1000, reason: 'bye' });
+
+    expect(provider.connections).toHaveLength(1);
+    expect(events).toEqual(['message', 'close:bye']);
+  });
+});
@@ -0,0 +1,281 @@
+import { Logger } from '@nestjs/common';
+import {
+  FunctionDeclaration,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from '@google/genai';
+import { audioDurationSeconds } from './audio-frames';
+import {
+  LiveModelCallbacks,
+  LiveModelCloseEvent,
+  LiveModelProvider,
+  LiveModelSession,
+} from './live-model-provider';
+import { LiveSessionConfig } from './live-session-config';
+
+export interface ResumableSessionCallbacks extends LiveModelCallbacks {
+  /** The model connection is being replaced; input is buffered meanwhile. */
+  onReconnecting: (reason: string) => void;
+  onReconnected: () => void;
+}
+
+export interface ResumableSessionOptions {
+  tools: FunctionDeclaration[];
+  maxReconnectAttempts?: number;
+  reconnectDelayMs?: number;
+  /**
+   * Upper bounds for input buffered while reconnecting, in seconds of audio
+   * and in messages of any kind; the oldest is dropped.
+   */
+  maxBufferedAudioSeconds?: number;
+  maxBufferedInputs?: number;
+}
+
+type BufferedInput = (session: LiveModelSession) => void;
+
+interface BufferedEntry {
+  input: BufferedInput;
+  // Whole microseconds, so the buffer's total does not drift
+  audioMicros: number;
+}
+
+const DEFAULT_MAX_RECONNECT_ATTEMPTS = 3;
+const DEFAULT_RECONNECT_DELAY_MS = 500;
+const DEFAULT_MAX_BUFFERED_AUDIO_SECONDS = 60;
+// A minute of the shortest (20 ms) microphone frames the UI sends
+const DEFAULT_MAX_BUFFERED_INPUTS = 3000;
+
+/**
+ * A live session that survives the model connection going away. It keeps the
+ * latest session resumption handle and, when the server sends `goAway` or the
+ * connection closes without the client asking, opens a new connection with
+ * that handle and swaps it in. Input sent in the meantime is buffered and
+ * replayed on the new connection.
+ *
+ * `onClose` only fires once the session is really over: closed by the client,
+ * closed before any handle was issued, or not resumable after
+ * `maxReconnectAttempts` tries.
+ */
+export class ResumableLiveSession implements LiveModelSession {
+  private readonly logger = new Logger(ResumableLiveSession.name);
+  private session!: LiveModelSession;
+  private handle?: string;
+  private reconnecting = false;
+  private closing = false;
+  private closed = false;
+  private failedAttempts = 0;
+  private buffer: BufferedEntry[] = [];
+  private bufferedAudioMicros = 0;
+
+  private constructor(
+    private readonly provider: LiveModelProvider,
+    private readonly config: LiveSessionConfig,
+    private readonly callbacks: ResumableSessionCallbacks,
+    private readonly options: ResumableSessionOptions,
+  ) {}
+
+  static async open(
+    provider: LiveModelProvider,
+    config: LiveSessionConfig,
+    callbacks: ResumableSessionCallbacks,
+    options: ResumableSessionOptions,
+  ): Promise<ResumableLiveSession> {
+    const resumable = new ResumableLiveSession(
+      provider,
+      config,
+      callbacks,
+      options,
+    );
+    resumable.session = await resumable.connect();
+    return resumable;
+  }
+
+  sendClientContent(params: LiveSendClientContentParameters): void {
+    this.send((session) => session.sendClientContent(params));
+  }
+
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void {
+    const { data, mimeType = 'audio/pcm' } = params.audio ?? {};
+    this.send(
+      (session) => session.sendRealtimeInput(params),
+      data ? Math.round(audioDurationSeconds({ data, mimeType }) * 1e6) : 0,
+    );
+  }
+
+  sendToolResponse(params: LiveSendToolResponseParameters): void {
+    this.send((session) => session.sendToolResponse(params));
+  }
+
+  close(): void {
+    if (this.closed || this.closing) {
+      return;
+    }
+    this.closing = true;
+    this.clearBuffer();
+    if (this.reconnecting) {
+      // The old connection may already be gone, so nothing else would end it
+      this.finish({ code: 1000, reason: 'Session closed by client.' });
+    }
+    this.session.close();
+  }
+
+  private send(input: BufferedInput, audioMicros = 0) {
+    if (this.closed || this.closing) {
+      return;
+    }
+    if (!this.reconnecting) {
+      input(this.session);
+      return;
+    }
+    this.buffer.push({ input, audioMicros });
+    this.bufferedAudioMicros += audioMicros;
+    const maxMicros =
+      (this.options.maxBufferedAudioSeconds ??
+        DEFAULT_MAX_BUFFERED_AUDIO_SECONDS) * 1e6;
+    const maxInputs =
+      this.options.maxBufferedInputs ?? DEFAULT_MAX_BUFFERED_INPUTS;
+    while (
+      this.buffer.length > maxInputs ||
+      this.bufferedAudioMicros > maxMicros
+    ) {
+      this.bufferedAudioMicros -= this.buffer.shift()!.audioMicros;
+    }
+  }
+
+  private clearBuffer() {
+    this.buffer = [];
+    this.bufferedAudioMicros = 0;
+  }
+
+  /**
+   * Opens a model connection whose callbacks are ignored once it is no longer
+   * the current one.
+   */
+  private connect(): Promise<LiveModelSession> {
+    let connection: LiveModelSession | undefined;
+    const isCurrent = () => !this.closed && connection === this.session;
+    const opening = this.provider.createLiveSession(
+      this.config,
+      {
+        onOpen: () => {
+          // Only the first connection is reported; later ones are resumes.
+          if (!this.handle) {
+            this.callbacks.onOpen();
+          }
+        },
+        onMessage: (message) => {
+          if (isCurrent()) {
+            this.handleMessage(message);
+          }
+        },
+        onError: (error) => {
+          if (isCurrent()) {
+            this.callbacks.onError(error);
+          }
+        },
+        onClose: (event) => {
+          if (isCurrent()) {
+            this.handleClose(event);
+          }
+        },
+      },
+      {
+        tools: this.options.tools,
+        resumption: { handle: this.handle },
+      },
+    );
+    return opening.then((session) => (connection = session));
+  }
+
+  private handleMessage(message: LiveServerMessage) {
+    const update = message.sessionResumptionUpdate;
+    if (update?.resumable && update.newHandle) {
+      this.handle = update.newHandle;
+      this.failedAttempts = 0;
+    }
+    this.callbacks.onMessage(message);
+    if (message.goAway) {
+      void this.reconnect('The model server is going away.');
+    }
+  }
+
+  private handleClose(event: LiveModelCloseEvent) {
+    if (this.closing) {
+      this.finish(event);
+      return;
+    }
+    if (this.reconnecting) {
+      // The connection being replaced closed first; the reconnect carries on.
+      return;
+    }
+    if (!this.handle) {
+      this.finish(event);
+      return;
+    }
+    void this.reconnect(`Connection closed: ${event.reason}`, event);
+  }
+
+  private async reconnect(reason: string, closeEvent?: LiveModelCloseEvent) {
+    if (this.reconnecting || this.closing || this.closed || !this.handle) {
+      return;
+    }
+    this.reconnecting = true;
+    this.logger.warn(`Resuming live session. ${reason}`);
+    this.callbacks.onReconnecting(reason);
+
+    const maxAttempts =
+      this.options.maxReconnectAttempts ?? DEFAULT_MAX_RECONNECT_ATTEMPTS;
+    const delayMs = this.options.reconnectDelayMs ?? DEFAULT_RECONNECT_DELAY_MS;
+    const previous = this.session;
+
+    while (!this.closed && this.failedAttempts < maxAttempts) {
+      // Reset once the resumed connection issues a handle of its own
+      this.failedAttempts++;
+      try {
+        const next = await this.connect();
+        if (this.closed) {
+          next.close();
+          return;
+        }
+        this.session = next;
+        this.reconnecting = false;
+        previous.close();
+        const buffered = this.buffer;
+        this.clearBuffer();
+        buffered.forEach(({ input }) => input(next));
+        this.logger.log('Live session resumed.');
+        this.callbacks.onReconnected();
+        return;
+      } catch (error) {
+        this.logger.warn(
+          `Resume attempt ${this.failedAttempts} of ${maxAttempts} failed: ${(error as Error).message}`,
+        );
+        await new Promise((resolve) =>
+          setTimeout(resolve, delayMs * this.failedAttempts),
+        );
+      }
+    }
+
+    if (!this.closed) {
+      this.reconnecting = false;
+      previous.close();
+      this.finish(
+        closeEvent ?? {
+          code: 1011,
+          reason: 'The live session could not be resumed.',
+        },
+      );
+    }
+  }
+
+  private finish(event: LiveModelCloseEvent) {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.clearBuffer();
+    this.callbacks.onClose(event);
+  }
+}
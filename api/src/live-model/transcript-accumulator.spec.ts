@@ -0,0 +1,58 @@
+import { TranscriptAccumulator } from './transcript-accumulator';
+
+describe('TranscriptAccumulator', () => {
+  let accumulator: TranscriptAccumulator;
+
+  beforeEach(() => {
+    accumulator = new TranscriptAccumulator();
+  });
+
+  it('joins incremental transcriptions into one final transcript per side', () => {
+    accumulator.accept({
+      event: 'input-transcription',
+      payload: { text: 'I have a ', finished: false },
+    });
+    accumulator.accept({
+      event: 'input-transcription',
+      payload: { text: 'headache.', finished: true },
+    });
+    accumulator.accept({
+      event: 'output-transcription',
+      payload: { text: 'Sorry to hear ', finished: false },
+    });
+    accumulator.accept({
+      event: 'output-transcription',
+      payload: { text: 'that.', finished: false },
+    });
+
+    expect(accumulator.accept({ event: 'turn-complete', payload: {} })).toEqual(
+      [
+        { role: 'user', text: 'I have a headache.', interrupted: false },
+        { role: 'assistant', text: 'Sorry to hear that.', interrupted: false },
+      ],
+    );
+  });
+
+  it('treats text parts as assistant output', () => {
+    accumulator.accept({ event: 'text-part', payload: { text: 'Hello.' } });
+
+    expect(accumulator.accept({ event: 'turn-complete', payload: {} })).toEqual(
+      [{ role: 'assistant', text: 'Hello.', interrupted: false }],
+    );
+  });
+
+  it('marks interrupted assistant turns and resets between turns', () => {
+    accumulator.accept({
+      event: 'output-transcription',
+      payload: { text: 'Let me explain', finished: false },
+    });
+    accumulator.accept({ event: 'interrupted', payload: {} });
+
+    expect(accumulator.accept({ event: 'turn-complete', payload: {} })).toEqual(
+      [{ role: 'assistant', text: 'Let me explain', interrupted: true }],
+    );
+    expect(accumulator.accept({ event: 'turn-complete', payload: {} })).toEqual(
+      [],
+    );
+  });
+});
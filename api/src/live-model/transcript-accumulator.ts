@@ -0,0 +1,60 @@
+import type { FinalTranscript } from '../protocol/socket-protocol';
+import { LiveServerEvent } from './live-event-translator';
+
+export type { FinalTranscript };
+
+/**
+ * Collects the incremental transcription (and text) events of one turn so
+ * that a final, complete version of what each side said can be emitted when
+ * the turn ends.
+ */
+export class TranscriptAccumulator {
+  private input = '';
+  private output = '';
+  private interrupted = false;
+
+  /**
+   * Feeds one translated event. Returns the final transcripts when the event
+   * completes the turn, otherwise an empty list.
+   */
+  accept(event: LiveServerEvent): FinalTranscript[] {
+    switch (event.event) {
+      case 'input-transcription':
+        this.input += event.payload.text;
+        return [];
+      case 'output-transcription':
+      case 'text-part':
+        this.output += event.payload.text;
+        return [];
+      case 'interrupted':
+        this.interrupted = true;
+        return [];
+      case 'turn-complete':
+        return this.flush();
+      default:
+        return [];
+    }
+  }
+
+  flush(): FinalTranscript[] {
+    const transcripts: FinalTranscript[] = [];
+    if (this.input.trim()) {
+      transcripts.push({
+        role: 'user',
+        text: this.input.trim(),
+        interrupted: false,
+      });
+    }
+    if (this.output.trim()) {
+      transcripts.push({
+        role: 'assistant',
+        text: this.output.trim(),
+        interrupted: this.interrupted,
+      });
+    }
+    this.input = '';
+    this.output = '';
+    this.interrupted = false;
+    return transcripts;
+  }
+}
@@ -1,8 +1,16 @@
 import { NestFactory } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
 import { AppModule } from './app.module';
+import { CorsIoAdapter, parseCorsOrigins } from './auth/cors';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
+  // The UI is served from another origin; only allow-listed ones may call us
+  const origins = parseCorsOrigins(
+    app.get(ConfigService).get<string>('CORS_ORIGINS'),
+  );
+  app.enableCors({ origin: origins, credentials: true });
+  app.useWebSocketAdapter(new CorsIoAdapter(app, origins));
   await app.listen(process.env.PORT ?? 3000);
 }
 bootstrap();
@@ -0,0 +1,18 @@
+import { Controller, Get, StreamableFile } from '@nestjs/common';
+import { MetricsService } from './metrics.service';
+
+/**
+ * Prometheus scrape endpoint. It is not authenticated, like the health
+ * checks, so keep it off the public network.
+ */
+@Controller('metrics')
+export class MetricsController {
+  constructor(private readonly metrics: MetricsService) {}
+
+  @Get()
+  async scrape(): Promise<StreamableFile> {
+    return new StreamableFile(Buffer.from(await this.metrics.render()), {
+      type: this.metrics.contentType,
+    });
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MetricsController } from './metrics.controller';
+import { MetricsService } from './metrics.service';
+
+@Module({
+  controllers: [MetricsController],
+  providers: [
+    {
+      provide: MetricsService,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): MetricsService =>
+        new MetricsService(
+          configService.get<string>('METRICS_PROCESS', 'true') === 'true',
+        ),
+    },
+  ],
+  exports: [MetricsService],
+})
+export class MetricsModule {}
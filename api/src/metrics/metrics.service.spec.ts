@@ -0,0 +1,84 @@
+import { MetricsService } from './metrics.service';
+
+describe('MetricsService', () => {
+  let metrics: MetricsService;
+
+  // Histograms report their _sum, _count and _bucket series as values
+  const sample = async (name: string, labels: Record<string, string> = {}) =>
+    (await metrics.registry.getMetricsAsJSON())
+      .flatMap((metric) =>
+        metric.values.map((value) => ({
+          name: (value as { metricName?: string }).metricName ?? metric.name,
+          ...value,
+        })),
+      )
+      .find(
+        (value) =>
+          value.name === name &&
+          Object.entries(labels).every(
+            ([label, expected]) => value.labels[label] === expected,
+          ),
+      )?.value;
+
+  beforeEach(() => {
+    metrics = new MetricsService();
+  });
+
+  it('tracks open sockets and sessions', async () => {
+    metrics.socketConnected();
+    metrics.socketConnected();
+    metrics.socketDisconnected();
+    metrics.sessionStarted();
+    metrics.sessionStarted();
+    metrics.sessionEnded(42);
+
+    expect(await sample('socket_connections')).toBe(1);
+    expect(await sample('live_sessions')).toBe(1);
+    expect(await sample('live_session_duration_seconds_sum')).toBe(42);
+  });
+
+  it('counts audio, messages, model errors and tokens by label', async () => {
+    metrics.audio('in', 3200);
+    metrics.audio('in', 3200);
+    metrics.audio('out', 4800);
+    metrics.message('in', 'send-text');
+    metrics.message('out', 'turn-complete');
+    metrics.message('out', 'turn-complete');
+    metrics.modelError('connect', 'auth');
+    metrics.usage({
+      promptTokenCount: 10,
+      responseTokenCount: 20,
+      totalTokenCount: 30,
+    });
+    metrics.usage({
+      promptTokenCount: 1,
+      responseTokenCount: 2,
+      totalTokenCount: 3,
+    });
+
+    expect(await sample('audio_bytes_total', { direction: 'in' })).toBe(6400);
+    expect(await sample('audio_bytes_total', { direction: 'out' })).toBe(4800);
+    expect(
+      await sample('socket_messages_total', {
+        direction: 'out',
+        event: 'turn-complete',
+      }),
+    ).toBe(2);
+    expect(
+      await sample('model_errors_total', { stage: 'connect', cause: 'auth' }),
+    ).toBe(1);
+    expect(await sample('model_tokens_total', { kind: 'total' })).toBe(33);
+  });
+
+  it('renders the Prometheus text format', async () => {
+    metrics.firstAudio(0.6);
+
+    const text = await metrics.render();
+
+    expect(metrics.contentType).toMatch(/^text\/plain; version=0\.0\.4/);
+    expect(text).toContain('# TYPE time_to_first_audio_seconds histogram');
+    expect(text).toContain('time_to_first_audio_seconds_bucket{le="0.75"} 1');
+    expect(text).toContain('time_to_first_audio_seconds_bucket{le="0.5"} 0');
+    expect(text).not.toContain('process_cpu');
+  });
+});
@@ -0,0 +1,135 @@
+import {
+  collectDefaultMetrics,
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+} from 'prom-client';
+import type {
+  ModelErrorCause,
+  ModelErrorStage,
+} from '../live-model/model-errors';
+import type { UsageMetadata } from '../protocol/socket-protocol';
+
+export type MessageDirection = 'in' | 'out';
+
+/**
+ * The API's Prometheus metrics, served in the text format at `/metrics`.
+ *
+ * Each instance has its own registry rather than prom-client's global one,
+ * so apps created side by side (as the e2e tests do) do not collide.
+ */
+export class MetricsService {
+  readonly registry = new Registry();
+
+  private readonly socketConnections = new Gauge({
+    name: 'socket_connections',
+    help: 'Open socket.io connections.',
+    registers: [this.registry],
+  });
+
+  private readonly liveSessions = new Gauge({
+    name: 'live_sessions',
+    help: 'Open live model sessions, including detached ones waiting for their client.',
+    registers: [this.registry],
+  });
+
+  private readonly sessionDuration = new Histogram({
+    name: 'live_session_duration_seconds',
+    help: 'Duration of ended live model sessions.',
+    buckets: [10, 30, 60, 120, 300, 600, 900, 1800, 3600],
+    registers: [this.registry],
+  });
+
+  private readonly audioBytes = new Counter({
+    name: 'audio_bytes_total',
+    help: 'PCM audio bytes received from clients (in) and from the model (out).',
+    labelNames: ['direction'] as const,
+    registers: [this.registry],
+  });
+
+  private readonly socketMessages = new Counter({
+    name: 'socket_messages_total',
+    help: 'Socket events received from (in) and sent to (out) clients, by event name.',
+    labelNames: ['direction', 'event'] as const,
+    registers: [this.registry],
+  });
+
+  private readonly modelErrors = new Counter({
+    name: 'model_errors_total',
+    help: 'Errors of live model connections, by stage and cause.',
+    labelNames: ['stage', 'cause'] as const,
+    registers: [this.registry],
+  });
+
+  private readonly tokens = new Counter({
+    name: 'model_tokens_total',
+    help: 'Tokens the model reported using, by kind.',
+    labelNames: ['kind'] as const,
+    registers: [this.registry],
+  });
+
+  private readonly timeToFirstAudio = new Histogram({
+    name: 'time_to_first_audio_seconds',
+    help: "Time from the user's last input to the first audio of the model's answer.",
+    buckets: [0.25, 0.5, 0.75, 1, 1.5, 2, 3, 5, 10],
+    registers: [this.registry],
+  });
+
+  /**
+   * @param collectProcessMetrics Also exports prom-client's default Node.js
+   *   process metrics (CPU, memory, event loop lag).
+   */
+  constructor(collectProcessMetrics = false) {
+    if (collectProcessMetrics) {
+      collectDefaultMetrics({ register: this.registry });
+    }
+  }
+
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+
+  render(): Promise<string> {
+    return this.registry.metrics();
+  }
+
+  socketConnected(): void {
+    this.socketConnections.inc();
+  }
+
+  socketDisconnected(): void {
+    this.socketConnections.dec();
+  }
+
+  sessionStarted(): void {
+    this.liveSessions.inc();
+  }
+
+  sessionEnded(durationSeconds: number): void {
+    this.liveSessions.dec();
+    this.sessionDuration.observe(durationSeconds);
+  }
+
+  audio(direction: MessageDirection, bytes: number): void {
+    this.audioBytes.inc({ direction }, bytes);
+  }
+
+  message(direction: MessageDirection, event: string): void {
+    this.socketMessages.inc({ direction, event });
+  }
+
+  modelError(stage: ModelErrorStage, cause: ModelErrorCause): void {
+    this.modelErrors.inc({ stage, cause });
+  }
+
+  usage(usage: UsageMetadata): void {
+    this.tokens.inc({ kind: 'prompt' }, usage.promptTokenCount);
+    this.tokens.inc({ kind: 'response' }, usage.responseTokenCount);
+    this.tokens.inc({ kind: 'total' }, usage.totalTokenCount);
+  }
+
+  firstAudio(latencySeconds: number): void {
+    this.timeToFirstAudio.observe(latencySeconds);
+  }
+}
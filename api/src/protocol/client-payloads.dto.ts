@@ -0,0 +1,128 @@
+import { Type } from 'class-transformer';
+import {
+  IsBase64,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import {
+  INPUT_AUDIO_MIME_TYPE,
+  MAX_AUDIO_FRAME_BYTES,
+} from '../live-model/audio-frames';
+import type {
+  ActivityDetection,
+  AudioTransport,
+  Base64Audio,
+  ResponseModality,
+  StartSessionPayload,
+  TemplateSelection,
+} from './socket-protocol';
+
+/**
+ * Shapes of the JSON payloads clients send, checked by `WsValidationPipe`
+ * before a handler runs. They only check types; whether a value is allowed
+ * (a known voice, a sane token limit) is decided by the handler.
+ */
+
+/** The longest `send-text` message accepted. */
+export const MAX_TEXT_MESSAGE_LENGTH = 4000;
+
+/**
+ * The longest base64 `send-audio-chunk` data accepted: the base64 length of
+ * the largest binary `send-audio-frame`.
+ */
+export const MAX_AUDIO_CHUNK_LENGTH = Math.ceil(MAX_AUDIO_FRAME_BYTES / 3) * 4;
+
+export class CompressionDto {
+  @IsOptional()
+  @IsInt()
+  triggerTokens?: number;
+
+  @IsOptional()
+  @IsInt()
+  targetTokens?: number;
+}
+
+export class TemplateSelectionDto implements TemplateSelection {
+  @IsString()
+  @IsNotEmpty()
+  id: string;
+
+  @IsOptional()
+  @IsInt()
+  version?: number;
+
+  @IsOptional()
+  @IsObject()
+  variables?: Record<string, string>;
+}
+
+export class StartSessionDto implements StartSessionPayload {
+  @IsOptional()
+  @IsString()
+  model?: string;
+
+  @IsOptional()
+  @IsString()
+  voice?: string;
+
+  @IsOptional()
+  @IsString()
+  language?: string;
+
+  @IsOptional()
+  @IsIn(['AUDIO', 'TEXT'])
+  responseModality?: ResponseModality;
+
+  @IsOptional()
+  @IsIn(['automatic', 'manual'])
+  activityDetection?: ActivityDetection;
+
+  @IsOptional()
+  @IsIn(['base64', 'binary'])
+  audioTransport?: AudioTransport;
+
+  @IsOptional()
+  @IsString()
+  systemInstruction?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TemplateSelectionDto)
+  template?: TemplateSelectionDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CompressionDto)
+  compression?: CompressionDto;
+}
+
+export class ResumeSessionDto {
+  @IsString()
+  @IsNotEmpty()
+  sessionId: string;
+}
+
+export class SendTextDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_TEXT_MESSAGE_LENGTH)
+  text: string;
+}
+
+export class AudioChunkDto implements Base64Audio {
+  @IsBase64()
+  @MaxLength(MAX_AUDIO_CHUNK_LENGTH)
+  data: string;
+
+  @Matches(INPUT_AUDIO_MIME_TYPE, {
+    message: 'mimeType must be audio/pcm;rate=16000',
+  })
+  mimeType: string;
+}
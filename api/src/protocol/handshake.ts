@@ -0,0 +1,42 @@
+import { Logger } from '@nestjs/common';
+import type { Socket } from 'socket.io';
+import { PROTOCOL_VERSION } from './socket-protocol';
+import type { HandshakeAuth, HandshakeErrorData } from './socket-protocol';
+
+const logger = new Logger('SocketHandshake');
+
+/**
+ * Error passed to socket.io when a handshake is refused. Clients receive it
+ * in `connect_error`, with `data` telling them why.
+ */
+export class HandshakeError extends Error {
+  constructor(
+    message: string,
+    readonly data: HandshakeErrorData,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * socket.io middleware that refuses clients speaking another version of the
+ * socket protocol, before they can send anything the gateway would misread.
+ */
+export function protocolVersionMiddleware() {
+  return (socket: Socket, next: (error?: Error) => void) => {
+    const { protocolVersion } = (socket.handshake.auth ?? {}) as HandshakeAuth;
+    if (protocolVersion === PROTOCOL_VERSION) {
+      next();
+      return;
+    }
+    logger.warn(
+      `Refused socket from ${socket.handshake.address} speaking protocol ${String(protocolVersion)}.`,
+    );
+    next(
+      new HandshakeError(
+        `Protocol version ${String(protocolVersion)} is not supported; this server speaks version ${PROTOCOL_VERSION}.`,
+        { code: 'unsupported-protocol', serverVersion: PROTOCOL_VERSION },
+      ),
+    );
+  };
+}
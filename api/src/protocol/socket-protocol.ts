@@ -0,0 +1,325 @@
+/**
+ * The socket.io contract between the API gateway and its clients: every
+ * event each side may emit and the payload it carries.
+ *
+ * This file is shared with the UI (imported as `@api/protocol`), so it must
+ * stay free of runtime dependencies: types and plain constants only.
+ * Binary payloads are `Buffer`s on the server and `ArrayBuffer`s in the
+ * browser, hence the `TBinary` parameters.
+ */
+
+/**
+ * Bumped on any change existing clients cannot handle. Clients send the
+ * version they speak in the handshake and are refused on a mismatch.
+ */
+export const PROTOCOL_VERSION = 1;
+
+/** Sent as `io(url, { auth })`. */
+export interface HandshakeAuth {
+  token?: string | null;
+  protocolVersion?: number;
+}
+
+/** `data` of the `connect_error` a refused handshake produces. */
+export type HandshakeErrorData =
+  | { code: 'unauthorized' }
+  | { code: 'unsupported-protocol'; serverVersion: number };
+
+// --- Session configuration ---
+
+export type ResponseModality = 'AUDIO' | 'TEXT';
+
+/**
+ * Who decides when the user starts and stops speaking. With `automatic` the
+ * model detects speech in the audio stream; with `manual` the client sends
+ * explicit `activity-start` / `activity-end` signals (push-to-talk or client
+ * side voice activity detection).
+ */
+export type ActivityDetection = 'automatic' | 'manual';
+
+/**
+ * How model audio is delivered to the client: `base64` strings in
+ * `audio-part` events (legacy) or binary attachments in `audio-frame` events.
+ */
+export type AudioTransport = 'base64' | 'binary';
+
+/**
+ * Picks a prompt template from the API's library (`/templates`) to render
+ * the session's system instruction from.
+ */
+export interface TemplateSelection {
+  id: string;
+  /** A specific version; the latest one when omitted. */
+  version?: number;
+  /** Values for the template's variables, by name. */
+  variables?: Record<string, string>;
+}
+
+/**
+ * The template a session's system instruction was rendered from.
+ */
+export interface ResolvedTemplate {
+  id: string;
+  version: number;
+  variables: Record<string, string>;
+}
+
+/**
+ * Fully resolved configuration of a session, echoed in `session-started`.
+ */
+export interface SessionConfig {
+  model: string;
+  voice: string;
+  language: string;
+  responseModality: ResponseModality;
+  activityDetection: ActivityDetection;
+  audioTransport: AudioTransport;
+  systemInstruction?: string;
+  template?: ResolvedTemplate;
+  compression: {
+    triggerTokens: number;
+    targetTokens: number;
+  };
+}
+
+/**
+ * Options a client may send with `start-session`. Every field is optional and
+ * falls back to the server's defaults; values outside the server's
+ * allow-list are rejected with a `session-error`.
+ */
+export interface StartSessionPayload {
+  model?: string;
+  voice?: string;
+  language?: string;
+  responseModality?: ResponseModality;
+  activityDetection?: ActivityDetection;
+  audioTransport?: AudioTransport;
+  systemInstruction?: string;
+  /**
+   * Renders the system instruction from a template instead; its voice and
+   * language apply unless given here. Not allowed with `systemInstruction`.
+   */
+  template?: TemplateSelection;
+  compression?: Partial<SessionConfig['compression']>;
+}
+
+// --- Audio ---
+
+/** Audio as base64 text, used by the legacy JSON events. */
+export interface Base64Audio {
+  data: string;
+  mimeType: string;
+}
+
+/** A frame of 16-bit PCM audio sent as a socket.io binary attachment. */
+export interface AudioFrame<TBinary = ArrayBuffer> {
+  data: TBinary;
+  mimeType: string;
+}
+
+// --- Conversation ---
+
+/** An incremental piece of a live transcription. */
+export interface TranscriptionChunk {
+  text: string;
+  finished: boolean;
+}
+
+/** The complete transcript of one side of a turn, sent when the turn ends. */
+export interface FinalTranscript {
+  role: 'user' | 'assistant';
+  text: string;
+  interrupted: boolean;
+}
+
+/** Token counts the model reports for a response. */
+export interface UsageMetadata {
+  promptTokenCount: number;
+  responseTokenCount: number;
+  totalTokenCount: number;
+}
+
+export interface Medication {
+  name: string;
+  dose?: string;
+  frequency?: string;
+}
+
+/**
+ * Vital signs as reported by the patient or measured at intake. Values are
+ * kept as free text ("120/80", "38.2 °C") because that is how they are said.
+ */
+export interface Vitals {
+  bloodPressure?: string;
+  heartRate?: string;
+  temperature?: string;
+  respiratoryRate?: string;
+  oxygenSaturation?: string;
+  weight?: string;
+}
+
+/**
+ * The structured intake summary the model submits through the
+ * `submit_clinical_summary` tool.
+ */
+export interface ClinicalSummary {
+  chiefComplaint: string;
+  history: string;
+  medications: Medication[];
+  allergies: string[];
+  vitals: Vitals;
+  redFlags: string[];
+}
+
+export type ToolCallStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * Progress of a tool the model called, sent when the call starts and again
+ * when it finishes.
+ */
+export interface ToolCallEvent {
+  id: string;
+  name: string;
+  label: string;
+  status: ToolCallStatus;
+  error?: string;
+}
+
+// --- Intake checklist ---
+
+/**
+ * How a checklist item was found to be covered: the model reported it with
+ * the `mark_checklist_item` tool, or the transcript showed it was asked
+ * about and answered.
+ */
+export type ChecklistCoverageSource = 'tool' | 'transcript';
+
+export interface ChecklistItemProgress {
+  id: string;
+  label: string;
+  required: boolean;
+  covered: boolean;
+  coveredBy?: ChecklistCoverageSource;
+}
+
+/**
+ * Coverage of the session's intake checklist, sent when the session starts
+ * or resumes and whenever an item is covered.
+ */
+export interface ChecklistProgressPayload {
+  items: ChecklistItemProgress[];
+  /** Ids of the required items not covered yet. */
+  missingRequired: string[];
+}
+
+// --- Quotas ---
+
+export type QuotaName =
+  | 'user-sessions'
+  | 'global-sessions'
+  | 'messages-per-minute'
+  | 'audio-seconds-per-minute'
+  | 'daily-tokens';
+
+export interface QuotaExceededPayload {
+  quota: QuotaName;
+  limit: number;
+  message: string;
+  /** When the quota frees up again; absent for session caps, which free up when a session ends. */
+  retryAfterMs?: number;
+}
+
+/** The user's daily token budget. Budgets are null when unlimited. */
+export interface QuotaUsagePayload {
+  tokensUsed: number;
+  tokenBudget: number | null;
+  tokensRemaining: number | null;
+  /** Start of the next UTC day, when the token budget resets. */
+  resetsAt: string;
+}
+
+// --- Events ---
+
+export interface SessionStartedPayload {
+  sessionId: string;
+  config: SessionConfig;
+  /** Set when a reconnecting client was reattached with `resume-session`. */
+  resumed?: boolean;
+}
+
+export interface ErrorPayload {
+  message: string;
+}
+
+/**
+ * Events a client emits. Audio and activity signals need an active session;
+ * activity signals also need `activityDetection: 'manual'`.
+ */
+export interface ClientToServerEvents<TBinary = ArrayBuffer> {
+  'start-session': (options?: StartSessionPayload) => void;
+  'resume-session': (payload: { sessionId: string }) => void;
+  'end-session': () => void;
+  'send-text': (payload: { text: string }) => void;
+  'send-audio-frame': (frame: AudioFrame<TBinary>) => void;
+  /** Legacy base64 audio, for clients without binary support. */
+  'send-audio-chunk': (audio: Base64Audio) => void;
+  'activity-start': () => void;
+  'activity-end': () => void;
+  /** Sent when the microphone closes (automatic activity detection). */
+  'audio-stream-end': () => void;
+  /** Asks the model to cover the required checklist items still missing. */
+  'cover-checklist': () => void;
+}
+
+/**
+ * Events the gateway emits, roughly in the order a session produces them.
+ */
+export interface ServerToClientEvents<TBinary = ArrayBuffer> {
+  'session-started': (payload: SessionStartedPayload) => void;
+  'session-error': (payload: ErrorPayload) => void;
+  'session-closed': (payload: { reason: string }) => void;
+  'session-reconnecting': (payload: { reason: string }) => void;
+  'session-reconnected': () => void;
+  'text-part': (payload: { text: string }) => void;
+  /** Model audio when the session negotiated `audioTransport: 'binary'`. */
+  'audio-frame': (frame: AudioFrame<TBinary>) => void;
+  /** Model audio when the session negotiated `audioTransport: 'base64'`. */
+  'audio-part': (payload: { audio: Base64Audio }) => void;
+  'input-transcription': (payload: TranscriptionChunk) => void;
+  'output-transcription': (payload: TranscriptionChunk) => void;
+  /** Sent ahead of the `turn-complete` that ends the turn. */
+  'transcript-final': (payload: FinalTranscript) => void;
+  interrupted: (payload: Record<string, never>) => void;
+  'generation-complete': (payload: Record<string, never>) => void;
+  'turn-complete': (payload: Record<string, never>) => void;
+  'usage-metadata': (payload: UsageMetadata) => void;
+  'go-away': (payload: { timeLeftMs: number | null }) => void;
+  'session-resumption-update': (payload: { resumable: boolean }) => void;
+  'summary-ready': (payload: {
+    summary: ClinicalSummary;
+    submittedAt: string;
+  }) => void;
+  'tool-call': (payload: ToolCallEvent) => void;
+  'checklist-progress': (payload: ChecklistProgressPayload) => void;
+  'quota-exceeded': (payload: QuotaExceededPayload) => void;
+  'quota-usage': (payload: QuotaUsagePayload) => void;
+}
+
+export type ServerEventName = keyof ServerToClientEvents;
+
+/** The payload of a server event. */
+export type ServerEventPayload<
+  E extends ServerEventName,
+  TBinary = ArrayBuffer,
+> = Parameters<ServerToClientEvents<TBinary>[E]>[0];
+
+/**
+ * Emits a server event chosen at runtime, such as a translated model event
+ * or a tool's own event, with the payload that event carries.
+ */
+export type ServerEventEmitter<TBinary = ArrayBuffer> = <
+  E extends ServerEventName,
+>(
+  event: E,
+  payload: ServerEventPayload<E, TBinary>,
+) => void;
@@ -0,0 +1,61 @@
+import {
+  ArgumentMetadata,
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  ValidationError,
+  ValidationPipe,
+} from '@nestjs/common';
+import { WsException } from '@nestjs/websockets';
+import type { Socket } from 'socket.io';
+
+function describe(errors: ValidationError[], path = ''): string[] {
+  return errors.flatMap((error) => {
+    const property = `${path}${error.property}`;
+    return [
+      ...Object.values(error.constraints ?? {}).map((constraint) =>
+        // class-validator names the property itself; nested ones need a path
+        path ? `${property}: ${constraint}` : constraint,
+      ),
+      ...describe(error.children ?? [], `${property}.`),
+    ];
+  });
+}
+
+/**
+ * Validates socket payloads against their DTO. Unknown properties are
+ * refused, and a missing payload is checked as `{}`, so optional payloads
+ * pass and required fields are still reported.
+ */
+export class WsValidationPipe extends ValidationPipe {
+  constructor() {
+    super({
+      whitelist: true,
+      forbidNonWhitelisted: true,
+      transform: true,
+      exceptionFactory: (errors) =>
+        new WsException(`Invalid payload: ${describe(errors).join('; ')}.`),
+    });
+  }
+
+  transform(value: unknown, metadata: ArgumentMetadata): Promise<unknown> {
+    return super.transform(value ?? {}, metadata) as Promise<unknown>;
+  }
+}
+
+/**
+ * Reports a `WsException` to the client as `session-error`, the event it
+ * already listens to for refused requests.
+ */
+@Catch(WsException)
+export class SessionErrorFilter implements ExceptionFilter {
+  catch(exception: WsException, host: ArgumentsHost) {
+    const error = exception.getError();
+    host
+      .switchToWs()
+      .getClient<Socket>()
+      .emit('session-error', {
+        message: typeof error === 'string' ? error : 'Invalid request.',
+      });
+  }
+}
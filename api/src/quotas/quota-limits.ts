@@ -0,0 +1,54 @@
+import type {
+  QuotaExceededPayload,
+  QuotaName,
+  QuotaUsagePayload,
+} from '../protocol/socket-protocol';
+
+/**
+ * Limits enforced by the gateway. A limit of 0 turns that check off.
+ */
+export interface QuotaLimits {
+  /** Sessions one user may have open at once, attached or not. */
+  maxSessionsPerUser: number;
+  /** Sessions open on this server at once, across all users. */
+  maxSessions: number;
+  /** Text messages one user may send to the model in any 60 s window. */
+  messagesPerMinute: number;
+  /** Seconds of microphone audio one user may stream in any 60 s window. */
+  audioSecondsPerMinute: number;
+  /** Model tokens (`usageMetadata.totalTokenCount`) per user and UTC day. */
+  dailyTokensPerUser: number;
+}
+
+export const DEFAULT_QUOTA_LIMITS: QuotaLimits = {
+  maxSessionsPerUser: 2,
+  maxSessions: 50,
+  messagesPerMinute: 30,
+  // Realtime speech is 60 s a minute; the rest absorbs replays after a drop
+  audioSecondsPerMinute: 75,
+  dailyTokensPerUser: 500_000,
+};
+
+export type { QuotaExceededPayload, QuotaName, QuotaUsagePayload };
+
+export class QuotaExceededError extends Error {
+  constructor(
+    readonly quota: QuotaName,
+    readonly limit: number,
+    message: string,
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+  }
+
+  toPayload(): QuotaExceededPayload {
+    return {
+      quota: this.quota,
+      limit: this.limit,
+      message: this.message,
+      ...(this.retryAfterMs === undefined
+        ? {}
+        : { retryAfterMs: this.retryAfterMs }),
+    };
+  }
+}
@@ -0,0 +1,116 @@
+import { DEFAULT_QUOTA_LIMITS, QuotaExceededError } from './quota-limits';
+import { QuotaService } from './quota.service';
+
+describe('QuotaService', () => {
+  let now: number;
+  const create = (limits: Partial<typeof DEFAULT_QUOTA_LIMITS> = {}) =>
+    new QuotaService({ ...DEFAULT_QUOTA_LIMITS, ...limits }, () => now);
+
+  const refusal = (run: () => void) => {
+    try {
+      run();
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        return error.toPayload();
+      }
+      throw error;
+    }
+    throw new Error('Expected a QuotaExceededError.');
+  };
+
+  beforeEach(() => {
+    now = Date.UTC(2025, 0, 1, 12);
+  });
+
+  it('caps concurrent sessions per user and overall', () => {
+    const quotas = create({ maxSessionsPerUser: 1, maxSessions: 2 });
+
+    quotas.acquireSession('a');
+    expect(refusal(() => quotas.acquireSession('a'))).toMatchObject({
+      quota: 'user-sessions',
+      limit: 1,
+    });
+    quotas.acquireSession('b');
+    expect(refusal(() => quotas.acquireSession('c')).quota).toBe(
+      'global-sessions',
+    );
+
+    quotas.releaseSession('a');
+    quotas.releaseSession('a');
+    quotas.acquireSession('c');
+    expect(refusal(() => quotas.acquireSession('d')).quota).toBe(
+      'global-sessions',
+    );
+  });
+
+  it('limits messages over a rolling minute', () => {
+    const quotas = create({ messagesPerMinute: 2 });
+
+    quotas.consumeMessage('a');
+    now += 30_000;
+    quotas.consumeMessage('a');
+    quotas.consumeMessage('b');
+    expect(refusal(() => quotas.consumeMessage('a'))).toEqual({
+      quota: 'messages-per-minute',
+      limit: 2,
+      message: 'At most 2 messages may be sent per minute.',
+      retryAfterMs: 30_000,
+    });
+
+    now += 30_000;
+    quotas.consumeMessage('a');
+  });
+
+  it('limits streamed audio seconds over a rolling minute', () => {
+    const quotas = create({ audioSecondsPerMinute: 1 });
+
+    quotas.consumeAudio('a', 0.6);
+    expect(refusal(() => quotas.consumeAudio('a', 0.6)).quota).toBe(
+      'audio-seconds-per-minute',
+    );
+    quotas.consumeAudio('a', 0.4);
+  });
+
+  it('tracks a daily token budget that resets at UTC midnight', () => {
+    const quotas = create({ dailyTokensPerUser: 100 });
+
+    quotas.recordTokens('a', 60);
+    expect(quotas.getUsage('a')).toEqual({
+      tokensUsed: 60,
+      tokenBudget: 100,
+      tokensRemaining: 40,
+      resetsAt: '2025-01-02T00:00:00.000Z',
+    });
+    quotas.assertTokenBudget('a');
+
+    quotas.recordTokens('a', 60);
+    expect(quotas.getUsage('a').tokensRemaining).toBe(0);
+    expect(refusal(() => quotas.acquireSession('a'))).toMatchObject({
+      quota: 'daily-tokens',
+      retryAfterMs: 12 * 3_600_000,
+    });
+
+    now += 12 * 3_600_000;
+    expect(quotas.getUsage('a').tokensUsed).toBe(0);
+    quotas.acquireSession('a');
+  });
+
+  it('treats a limit of 0 as unlimited', () => {
+    const quotas = create({
+      maxSessionsPerUser: 0,
+      maxSessions: 0,
+      messagesPerMinute: 0,
+      dailyTokensPerUser: 0,
+    });
+
+    for (let i = 0; i < 100; i++) {
+      quotas.acquireSession('a');
+      quotas.consumeMessage('a');
+    }
+    quotas.recordTokens('a', 1_000_000);
+    expect(quotas.getUsage('a')).toMatchObject({
+      tokenBudget: null,
+      tokensRemaining: null,
+    });
+  });
+});
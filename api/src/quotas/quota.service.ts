@@ -0,0 +1,199 @@
+import {
+  QuotaExceededError,
+  QuotaLimits,
+  QuotaUsagePayload,
+} from './quota-limits';
+
+const WINDOW_MS = 60_000;
+const DAY_MS = 86_400_000;
+
+/**
+ * Amounts consumed over the last minute.
+ */
+class RollingWindow {
+  private entries: { at: number; amount: number }[] = [];
+
+  total(now: number): number {
+    this.entries = this.entries.filter(({ at }) => at > now - WINDOW_MS);
+    return this.entries.reduce((sum, { amount }) => sum + amount, 0);
+  }
+
+  add(amount: number, now: number) {
+    this.entries.push({ at: now, amount });
+  }
+
+  /** Time until the oldest entry leaves the window. */
+  retryAfterMs(now: number): number {
+    const oldest = this.entries[0];
+    return oldest ? Math.max(0, oldest.at + WINDOW_MS - now) : 0;
+  }
+}
+
+interface DailyTokens {
+  day: number;
+  tokens: number;
+}
+
+/**
+ * In-process bookkeeping for the gateway's limits. Counts live in memory, so
+ * they reset on restart and are per server instance.
+ *
+ * The `consume*` and `acquireSession` methods throw a `QuotaExceededError`
+ * and record nothing when the request would go over a limit.
+ */
+export class QuotaService {
+  private openSessions = 0;
+  private sessionsByUser = new Map<string, number>();
+  private messages = new Map<string, RollingWindow>();
+  private audio = new Map<string, RollingWindow>();
+  private tokens = new Map<string, DailyTokens>();
+  private lastPrune = 0;
+
+  constructor(
+    private readonly limits: QuotaLimits,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  acquireSession(userId: string) {
+    const { maxSessions, maxSessionsPerUser } = this.limits;
+    const userSessions = this.sessionsByUser.get(userId) ?? 0;
+    if (maxSessions && this.openSessions >= maxSessions) {
+      throw new QuotaExceededError(
+        'global-sessions',
+        maxSessions,
+        'The server is at capacity. Try again later.',
+      );
+    }
+    if (maxSessionsPerUser && userSessions >= maxSessionsPerUser) {
+      throw new QuotaExceededError(
+        'user-sessions',
+        maxSessionsPerUser,
+        `Too many open sessions; the limit is ${maxSessionsPerUser}.`,
+      );
+    }
+    this.assertTokenBudget(userId);
+    this.openSessions++;
+    this.sessionsByUser.set(userId, userSessions + 1);
+  }
+
+  releaseSession(userId: string) {
+    const userSessions = this.sessionsByUser.get(userId) ?? 0;
+    if (userSessions === 0) {
+      return;
+    }
+    this.openSessions--;
+    if (userSessions === 1) {
+      this.sessionsByUser.delete(userId);
+    } else {
+      this.sessionsByUser.set(userId, userSessions - 1);
+    }
+  }
+
+  consumeMessage(userId: string) {
+    const limit = this.limits.messagesPerMinute;
+    const retryAfterMs = this.consume(this.messages, userId, 1, limit);
+    if (retryAfterMs !== null) {
+      throw new QuotaExceededError(
+        'messages-per-minute',
+        limit,
+        `At most ${limit} messages may be sent per minute.`,
+        retryAfterMs,
+      );
+    }
+  }
+
+  consumeAudio(userId: string, seconds: number) {
+    const limit = this.limits.audioSecondsPerMinute;
+    const retryAfterMs = this.consume(this.audio, userId, seconds, limit);
+    if (retryAfterMs !== null) {
+      throw new QuotaExceededError(
+        'audio-seconds-per-minute',
+        limit,
+        `At most ${limit} seconds of audio may be streamed per minute.`,
+        retryAfterMs,
+      );
+    }
+  }
+
+  /**
+   * Adds tokens the model reports as used. They are spent already, so this
+   * never throws; `assertTokenBudget` tells whether more may be spent.
+   */
+  recordTokens(userId: string, tokens: number) {
+    const today = this.dailyTokens(userId);
+    today.tokens += tokens;
+    this.tokens.set(userId, today);
+  }
+
+  assertTokenBudget(userId: string) {
+    const budget = this.limits.dailyTokensPerUser;
+    if (budget && this.dailyTokens(userId).tokens >= budget) {
+      throw new QuotaExceededError(
+        'daily-tokens',
+        budget,
+        'The daily token budget is used up.',
+        this.nextDay() - this.now(),
+      );
+    }
+  }
+
+  getUsage(userId: string): QuotaUsagePayload {
+    const budget = this.limits.dailyTokensPerUser || null;
+    const { tokens } = this.dailyTokens(userId);
+    return {
+      tokensUsed: tokens,
+      tokenBudget: budget,
+      tokensRemaining: budget === null ? null : Math.max(0, budget - tokens),
+      resetsAt: new Date(this.nextDay()).toISOString(),
+    };
+  }
+
+  /**
+   * Records `amount` in the user's window, or returns how long to wait when
+   * that would go over `limit`.
+   */
+  private consume(
+    windows: Map<string, RollingWindow>,
+    userId: string,
+    amount: number,
+    limit: number,
+  ): number | null {
+    if (!limit) {
+      return null;
+    }
+    const now = this.now();
+    this.prune(now);
+    const window = windows.get(userId) ?? new RollingWindow();
+    if (window.total(now) + amount > limit) {
+      return window.retryAfterMs(now);
+    }
+    window.add(amount, now);
+    windows.set(userId, window);
+    return null;
+  }
+
+  /** Once a minute, drops the windows of users who have gone quiet. */
+  private prune(now: number) {
+    if (now - this.lastPrune < WINDOW_MS) {
+      return;
+    }
+    this.lastPrune = now;
+    for (const windows of [this.messages, this.audio]) {
+      for (const [userId, window] of windows) {
+        if (window.total(now) === 0) {
+          windows.delete(userId);
+        }
+      }
+    }
+  }
+
+  private dailyTokens(userId: string): DailyTokens {
+    const day = Math.floor(this.now() / DAY_MS);
+    const entry = this.tokens.get(userId);
+    return entry && entry.day === day ? entry : { day, tokens: 0 };
+  }
+
+  private nextDay(): number {
+    return (Math.floor(this.now() / DAY_MS) + 1) * DAY_MS;
+  }
+}
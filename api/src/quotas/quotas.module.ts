@@ -0,0 +1,42 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readNonNegativeInteger } from '../config/settings';
+import { DEFAULT_QUOTA_LIMITS } from './quota-limits';
+import { QuotaService } from './quota.service';
+
+@Module({
+  providers: [
+    {
+      provide: QuotaService,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): QuotaService => {
+        const limit = (name: string, fallback: number) =>
+          readNonNegativeInteger(configService, name, fallback);
+        return new QuotaService({
+          maxSessionsPerUser: limit(
+            'QUOTA_MAX_SESSIONS_PER_USER',
+            DEFAULT_QUOTA_LIMITS.maxSessionsPerUser,
+          ),
+          maxSessions: limit(
+            'QUOTA_MAX_SESSIONS',
+            DEFAULT_QUOTA_LIMITS.maxSessions,
+          ),
+          messagesPerMinute: limit(
+            'QUOTA_MESSAGES_PER_MINUTE',
+            DEFAULT_QUOTA_LIMITS.messagesPerMinute,
+          ),
+          audioSecondsPerMinute: limit(
+            'QUOTA_AUDIO_SECONDS_PER_MINUTE',
+            DEFAULT_QUOTA_LIMITS.audioSecondsPerMinute,
+          ),
+          dailyTokensPerUser: limit(
+            'QUOTA_DAILY_TOKENS_PER_USER',
+            DEFAULT_QUOTA_LIMITS.dailyTokensPerUser,
+          ),
+        });
+      },
+    },
+  ],
+  exports: [QuotaService],
+})
+export class QuotasModule {}
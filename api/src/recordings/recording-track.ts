@@ -0,0 +1,135 @@
+import { Logger } from '@nestjs/common';
+import { open, rename } from 'fs/promises';
+import type { FileHandle } from 'fs/promises';
+import type { Base64Audio } from '../protocol/socket-protocol';
+import { WAV_HEADER_BYTES, wavHeader } from './wav';
+
+/**
+ * Where a chunk is placed on the session clock: `end` for audio captured in
+ * real time, which ends when it arrives (the microphone); `start` for audio
+ * streamed ahead of playback, which starts when it arrives or when the audio
+ * before it ends (the model).
+ */
+export type TrackAnchor = 'start' | 'end';
+
+/**
+ * One side of a session recording: a mono 16-bit PCM WAV file in which every
+ * chunk sits at the time it was heard since the session started. Gaps are
+ * left as silence, so all tracks of a session line up.
+ *
+ * Chunks are written in place as they arrive and the file only becomes a
+ * valid WAV (and gets its final name) in {@link finish}. When the file cannot
+ * be opened or written the track stops recording and `finish` rejects; the
+ * session itself carries on.
+ */
+export class RecordingTrack {
+  private readonly logger = new Logger(RecordingTrack.name);
+  private sampleRate: number | null = null;
+  // Where the next chunk may start, and the furthest sample written
+  private cursor = 0;
+  private length = 0;
+  // Resolves to null when the file could not be opened
+  private handle: Promise<FileHandle | null> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+  private failure: { error: unknown } | null = null;
+
+  constructor(
+    readonly path: string,
+    private readonly anchor: TrackAnchor,
+    private readonly startedAt: number,
+    private readonly now: () => number,
+  ) {}
+
+  append(audio: Base64Audio): void {
+    const rate = Number(/rate=(\d+)/.exec(audio.mimeType)?.[1] ?? 16000);
+    this.sampleRate ??= rate;
+    if (rate !== this.sampleRate) {
+      // A track has one rate; the API never changes it mid-session
+      return;
+    }
+    const samples = Buffer.from(audio.data, 'base64');
+    const count = Math.floor(samples.length / 2);
+    const elapsed = this.elapsedSamples();
+    const start = Math.max(
+      this.cursor,
+      this.anchor === 'end' ? elapsed - count : elapsed,
+    );
+    this.cursor = start + count;
+    this.length = Math.max(this.length, this.cursor);
+    this.write(samples.subarray(0, count * 2), start);
+  }
+
+  /**
+   * Cuts the track off now: audio already written past this moment was never
+   * played (the user interrupted it) and is replaced by silence.
+   */
+  truncate(): void {
+    const now = this.elapsedSamples();
+    if (this.cursor <= now) {
+      return;
+    }
+    this.write(Buffer.alloc((this.cursor - now) * 2), now);
+    this.cursor = now;
+  }
+
+  /**
+   * Completes the WAV file. Resolves to its path, or null when no audio was
+   * recorded.
+   */
+  async finish(finalPath: string): Promise<string | null> {
+    if (!this.handle || this.sampleRate === null) {
+      return null;
+    }
+    const handle = await this.handle;
+    await this.writes;
+    if (this.failure || !handle) {
+      await handle?.close().catch(() => undefined);
+      throw this.failure?.error;
+    }
+    await handle.write(
+      wavHeader(this.length * 2, this.sampleRate),
+      0,
+      WAV_HEADER_BYTES,
+      0,
+    );
+    await handle.truncate(WAV_HEADER_BYTES + this.length * 2);
+    await handle.close();
+    await rename(this.path, finalPath);
+    return finalPath;
+  }
+
+  private elapsedSamples(): number {
+    return Math.floor(
+      ((this.now() - this.startedAt) * (this.sampleRate ?? 0)) / 1000,
+    );
+  }
+
+  // Nothing awaits these promises until `finish`, so they must not reject
+  private write(data: Buffer, startSample: number): void {
+    if (this.failure) {
+      return;
+    }
+    this.handle ??= open(this.path, 'w').catch((error: unknown) => {
+      this.fail(error);
+      return null;
+    });
+    const handle = this.handle;
+    const position = WAV_HEADER_BYTES + startSample * 2;
+    this.writes = this.writes
+      .then(async () => {
+        const file = await handle;
+        if (file && !this.failure) {
+          await file.write(data, 0, data.length, position);
+        }
+      })
+      .catch((error: unknown) => this.fail(error));
+  }
+
+  private fail(error: unknown): void {
+    if (this.failure) {
+      return;
+    }
+    this.failure = { error };
+    this.logger.error(`Stopped recording ${this.path}:`, error);
+  }
+}
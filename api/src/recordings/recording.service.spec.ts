@@ -0,0 +1,139 @@
+import { mkdtemp, readFile, readdir, rm, utimes, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RecordingService } from './recording.service';
+
+const pcm = (samples: number[], rate: number) => {
+  const buffer = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, i) => buffer.writeInt16LE(sample, i * 2));
+  return {
+    data: buffer.toString('base64'),
+    mimeType: `audio/pcm;rate=${rate}`,
+  };
+};
+
+const readSamples = (wav: Buffer) => {
+  const samples: number[] = [];
+  for (let offset = 44; offset < wav.length; offset += 2) {
+    samples.push(wav.readInt16LE(offset));
+  }
+  return samples;
+};
+
+describe('RecordingService', () => {
+  const sessionId = '6f1c2f7e-2b1a-4c4e-9a53-0d7c1d2e3f40';
+  let directory: string;
+  let clock: number;
+  let recordings: RecordingService;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'recordings-'));
+    clock = 1_000_000;
+    recordings = new RecordingService(
+      { directory, retentionDays: 30 },
+      () => clock,
+    );
+  });
+
+  afterEach(async () => {
+    recordings.onModuleDestroy();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('writes each side as a WAV file aligned to the session start', async () => {
+    recordings.start(sessionId);
+    // 1 ms at 1 kHz is one sample; microphone audio ends when it arrives
+    clock += 4;
+    recordings.recordInput(sessionId, pcm([1, 2], 1000));
+    clock += 1;
+    recordings.recordOutput(sessionId, pcm([7, 8, 9], 1000));
+    recordings.recordOutput(sessionId, pcm([10], 1000));
+
+    expect(await recordings.getTrackPath(sessionId, 'input')).toBeNull();
+    await recordings.finish(sessionId);
+
+    const input = await readFile(join(directory, `${sessionId}.input.wav`));
+    expect(input.toString('ascii', 0, 4)).toBe('RIFF');
+    expect(input.readUInt32LE(24)).toBe(1000);
+    expect(readSamples(input)).toEqual([0, 0, 1, 2]);
+
+    const output = await readFile(
+      (await recordings.getTrackPath(sessionId, 'output'))!,
+    );
+    expect(readSamples(output)).toEqual([0, 0, 0, 0, 0, 7, 8, 9, 10]);
+  });
+
+  it('silences model audio cut off by an interruption', async () => {
+    recordings.start(sessionId);
+    recordings.recordOutput(sessionId, pcm([1, 2, 3, 4, 5, 6], 1000));
+    clock += 2;
+    recordings.interruptOutput(sessionId);
+    recordings.recordOutput(sessionId, pcm([9], 1000));
+    await recordings.finish(sessionId);
+
+    const output = await readFile(join(directory, `${sessionId}.output.wav`));
+    expect(readSamples(output)).toEqual([1, 2, 9, 0, 0, 0]);
+  });
+
+  it('skips tracks without audio and deletes recordings', async () => {
+    recordings.start(sessionId);
+    recordings.recordInput(sessionId, pcm([1], 1000));
+    await recordings.finish(sessionId);
+
+    expect(await recordings.getTrackPath(sessionId, 'output')).toBeNull();
+    expect(await readdir(directory)).toEqual([`${sessionId}.input.wav`]);
+
+    await recordings.delete(sessionId);
+    expect(await readdir(directory)).toEqual([]);
+  });
+
+  it('purges recordings past the retention period', async () => {
+    clock = Date.now();
+    recordings.start(sessionId);
+    recordings.recordInput(sessionId, pcm([1], 1000));
+    await recordings.finish(sessionId);
+    const path = join(directory, `${sessionId}.input.wav`);
+
+    // Left behind by a session that never finished
+    const part = join(directory, `${sessionId}.output.wav.part`);
+    await writeFile(part, '');
+
+    expect(await recordings.purgeExpired()).toBe(0);
+    const old = new Date(clock - 31 * 24 * 60 * 60 * 1000);
+    await utimes(path, old, old);
+    await utimes(part, old, old);
+    expect(await recordings.purgeExpired()).toBe(2);
+    expect(await readdir(directory)).toEqual([]);
+  });
+
+  it('stops a track it cannot write and reports it when finishing', async () => {
+    const unhandled = jest.fn();
+    process.on('unhandledRejection', unhandled);
+    try {
+      recordings.start(sessionId);
+      // A file where the directory should be
+      await rm(directory, { recursive: true });
+      await writeFile(directory, '');
+      recordings.recordInput(sessionId, pcm([1], 1000));
+      recordings.recordInput(sessionId, pcm([2], 1000));
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(unhandled).not.toHaveBeenCalled();
+
+      await expect(recordings.finish(sessionId)).rejects.toMatchObject({
+        code: 'ENOTDIR',
+      });
+    } finally {
+      process.off('unhandledRejection', unhandled);
+    }
+  });
+
+  it('does nothing when disabled', async () => {
+    const disabled = new RecordingService(null);
+    disabled.start(sessionId);
+    disabled.recordInput(sessionId, pcm([1], 1000));
+    await disabled.finish(sessionId);
+
+    expect(disabled.enabled).toBe(false);
+    expect(await disabled.getTrackPath(sessionId, 'input')).toBeNull();
+  });
+});
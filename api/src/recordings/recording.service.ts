@@ -0,0 +1,178 @@
+import { Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { mkdir, readdir, rm, stat } from 'fs/promises';
+import { join } from 'path';
+import type { Base64Audio } from '../protocol/socket-protocol';
+import { RecordingTrack } from './recording-track';
+
+export interface RecordingOptions {
+  directory: string;
+  /** Recordings older than this are deleted; 0 keeps them forever. */
+  retentionDays: number;
+}
+
+/**
+ * `input` is the user's microphone, `output` the model's voice.
+ */
+export type RecordingTrackName = 'input' | 'output';
+
+export const RECORDING_TRACKS: readonly RecordingTrackName[] = [
+  'input',
+  'output',
+];
+
+type SessionTracks = Record<RecordingTrackName, RecordingTrack>;
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Keeps a server-side copy of each session's audio for QA review: one
+ * time-aligned WAV file per side of the conversation, written while the
+ * session runs and completed when it ends. Does nothing when recording is
+ * disabled (`options` is null).
+ *
+ * Files live in one directory as `<sessionId>.<track>.wav` and are purged
+ * once they are older than the retention period, as are the `.part` files
+ * of recordings that were never completed.
+ */
+export class RecordingService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(RecordingService.name);
+  private readonly recording = new Map<string, SessionTracks>();
+  private purgeTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly options: RecordingOptions | null,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  get enabled(): boolean {
+    return this.options !== null;
+  }
+
+  async onModuleInit() {
+    if (!this.options) {
+      return;
+    }
+    await mkdir(this.options.directory, { recursive: true });
+    if (this.options.retentionDays > 0) {
+      await this.purgeExpired();
+      this.purgeTimer = setInterval(() => {
+        this.purgeExpired().catch((error: unknown) =>
+          this.logger.error('Failed to purge expired recordings:', error),
+        );
+      }, PURGE_INTERVAL_MS);
+      this.purgeTimer.unref();
+    }
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.purgeTimer);
+  }
+
+  start(sessionId: string): void {
+    if (!this.options) {
+      return;
+    }
+    const startedAt = this.now();
+    const track = (name: RecordingTrackName, anchor: 'start' | 'end') =>
+      new RecordingTrack(
+        `${this.pathOf(sessionId, name)}.part`,
+        anchor,
+        startedAt,
+        this.now,
+      );
+    this.recording.set(sessionId, {
+      input: track('input', 'end'),
+      output: track('output', 'start'),
+    });
+  }
+
+  recordInput(sessionId: string, audio: Base64Audio): void {
+    this.recording.get(sessionId)?.input.append(audio);
+  }
+
+  recordOutput(sessionId: string, audio: Base64Audio): void {
+    this.recording.get(sessionId)?.output.append(audio);
+  }
+
+  /** The model was interrupted; what it sent past this point was not heard. */
+  interruptOutput(sessionId: string): void {
+    this.recording.get(sessionId)?.output.truncate();
+  }
+
+  /** Completes the session's recording files. */
+  async finish(sessionId: string): Promise<void> {
+    const tracks = this.recording.get(sessionId);
+    if (!tracks) {
+      return;
+    }
+    this.recording.delete(sessionId);
+    await Promise.all(
+      RECORDING_TRACKS.map((name) =>
+        tracks[name].finish(this.pathOf(sessionId, name)),
+      ),
+    );
+  }
+
+  /**
+   * Path of a completed recording track, or null when there is none (not
+   * recorded, still in progress, or purged).
+   */
+  async getTrackPath(
+    sessionId: string,
+    track: RecordingTrackName,
+  ): Promise<string | null> {
+    if (!this.options || this.recording.has(sessionId)) {
+      return null;
+    }
+    const path = this.pathOf(sessionId, track);
+    try {
+      await stat(path);
+      return path;
+    } catch {
+      return null;
+    }
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    if (!this.options) {
+      return;
+    }
+    await Promise.all(
+      RECORDING_TRACKS.map((track) =>
+        rm(this.pathOf(sessionId, track), { force: true }),
+      ),
+    );
+  }
+
+  /**
+   * Deletes recordings past the retention period, completed or not; returns
+   * how many files.
+   */
+  async purgeExpired(): Promise<number> {
+    if (!this.options || this.options.retentionDays <= 0) {
+      return 0;
+    }
+    const { directory, retentionDays } = this.options;
+    const cutoff = this.now() - retentionDays * DAY_MS;
+    let purged = 0;
+    for (const name of await readdir(directory)) {
+      if (!name.endsWith('.wav') && !name.endsWith('.wav.part')) {
+        continue;
+      }
+      const path = join(directory, name);
+      if ((await stat(path)).mtimeMs < cutoff) {
+        await rm(path, { force: true });
+        purged++;
+      }
+    }
+    if (purged > 0) {
+      this.logger.log(`Purged ${purged} expired recording files.`);
+    }
+    return purged;
+  }
+
+  private pathOf(sessionId: string, track: RecordingTrackName): string {
+    return join(this.options!.directory, `${sessionId}.${track}.wav`);
+  }
+}
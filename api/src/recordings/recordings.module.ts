@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readNonNegativeInteger } from '../config/settings';
+import { RecordingService } from './recording.service';
+
+@Module({
+  providers: [
+    {
+      provide: RecordingService,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): RecordingService =>
+        new RecordingService(
+          configService.get<string>('RECORDING_ENABLED', 'false') === 'true'
+            ? {
+                directory: configService.get<string>(
+                  'RECORDING_DIR',
+                  'data/recordings',
+                ),
+                retentionDays: readNonNegativeInteger(
+                  configService,
+                  'RECORDING_RETENTION_DAYS',
+                  30,
+                ),
+              }
+            : null,
+        ),
+    },
+  ],
+  exports: [RecordingService],
+})
+export class RecordingsModule {}
@@ -0,0 +1,56 @@
+/**
+ * Invented patient utterances with the text the redaction rules should
+ * produce. None of the names, numbers or addresses belong to real people.
+ */
+export const SYNTHETIC_PHI: { text: string; redacted: string }[] = [
+  {
+    text: 'Hi, my name is Jane Doe and I have a headache.',
+    redacted: 'Hi, my name is [NAME] and I have a headache.',
+  },
+  {
+    text: "I'm Carlos, this is Dr. Okafor's clinic right?",
+    redacted: "I'm [NAME], this is Dr. [NAME]'s clinic right?",
+  },
+  {
+    text: 'Patient: Mary-Ann Smith, born 03/14/1985.',
+    redacted: 'Patient: [NAME], born [DATE].',
+  },
+  {
+    text: 'My birthday is March 14th, 1985, or 1985-03-14 on the form.',
+    redacted: 'My birthday is [DATE], or [DATE] on the form.',
+  },
+  {
+    text: 'I was born on the 2nd of February 1990.',
+    redacted: 'I was born on the [DATE].',
+  },
+  {
+    text: 'Call me back at (555) 123-4567 or +1 555.987.6543.',
+    redacted: 'Call me back at [PHONE] or [PHONE].',
+  },
+  {
+    text: 'My MRN is A-0045821 and my medical record number: 99812345.',
+    redacted: 'My MRN is [MRN] and my medical record number: [MRN].',
+  },
+  {
+    text: 'Email jane.doe+clinic@example.org with the results.',
+    redacted: 'Email [EMAIL] with the results.',
+  },
+  {
+    text: 'I live at 742 Evergreen Terrace, Apt 4B near the park.',
+    redacted: 'I live at [ADDRESS] near the park.',
+  },
+  {
+    text: 'SSN 123-45-6789 is on my card.',
+    redacted: 'SSN [SSN] is on my card.',
+  },
+];
+
+/**
+ * Clinical text the rules must leave alone.
+ */
+export const CLINICAL_TEXT = [
+  'Blood pressure 120/80, pulse 72, temperature 38.5 C.',
+  'I take 400 mg of ibuprofen twice a day for 3 days.',
+  'I am allergic to penicillin and I am in pain.',
+  'The headache is 6 out of 10 and started 2 days ago.',
+];
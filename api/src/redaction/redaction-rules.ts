@@ -0,0 +1,103 @@
+import { readFileSync } from 'fs';
+
+/**
+ * A pattern for one kind of identifier. Every match is replaced with
+ * `[<type>]`. Patterns must carry the `g` flag.
+ */
+export interface RedactionRule {
+  type: string;
+  pattern: RegExp;
+}
+
+/**
+ * A rule as written in the `REDACTION_RULES_PATH` JSON file.
+ */
+export interface RedactionRuleDefinition {
+  type: string;
+  pattern: string;
+  /** Regular expression flags; `g` is always added. */
+  flags?: string;
+}
+
+const MONTH =
+  '(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)';
+
+const STREET_SUFFIX =
+  '(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Circle)';
+
+// Words that introduce a person's name. Written without the `i` flag so the
+// name itself must be capitalised.
+const NAME_CUE =
+  "(?:[Mm]y name is|[Nn]ame(?: is|:)|[Tt]his is|[Ii] am|[Ii]’m|[Ii]'m|[Cc]all me|[Pp]atient(?: name)?:?|Mr\\.?|Mrs\\.?|Ms\\.?|Miss|Dr\\.?)";
+
+// A capitalised name, possibly hyphenated
+const NAME_WORD = '[A-Z][a-z]+(?:-[A-Z][a-z]+)?';
+
+/**
+ * The built-in rules, run in order, so broader patterns come after the ones
+ * whose matches they would otherwise swallow. They are tuned for spoken
+ * intake transcripts in English and will miss some identifiers; extra rules
+ * can be added through `REDACTION_RULES_PATH`.
+ */
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  { type: 'EMAIL', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  {
+    type: 'MRN',
+    pattern:
+      /(?<=\b(?:MRN|medical record(?: number)?|record number|chart number)[\s:#.]*(?:is\s+)?)[A-Z]{0,3}-?\d[\dA-Z-]{3,}\b/gi,
+  },
+  { type: 'SSN', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  {
+    type: 'PHONE',
+    pattern: /(?<!\w)(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/g,
+  },
+  {
+    type: 'DATE',
+    pattern: new RegExp(
+      [
+        '\\b\\d{1,2}[/.-]\\d{1,2}[/.-](?:\\d{4}|\\d{2})\\b',
+        '\\b(?:19|20)\\d{2}-\\d{2}-\\d{2}\\b',
+        `\\b${MONTH}\\.? \\d{1,2}(?:st|nd|rd|th)?,? \\d{4}\\b`,
+        `\\b\\d{1,2}(?:st|nd|rd|th)? (?:of )?${MONTH},? \\d{4}\\b`,
+      ].join('|'),
+      'gi',
+    ),
+  },
+  {
+    type: 'ADDRESS',
+    pattern: new RegExp(
+      `\\b\\d{1,5} (?:[A-Z][a-z]+ ){1,3}${STREET_SUFFIX}\\b\\.?(?:,? (?:Apt|Apartment|Unit|Suite)\\.? ?\\w+)?`,
+      'g',
+    ),
+  },
+  {
+    type: 'NAME',
+    pattern: new RegExp(
+      `(?<=\\b${NAME_CUE} )(?!(?:Dr|Mr|Mrs|Ms)\\b)${NAME_WORD}(?: ${NAME_WORD})?`,
+      'g',
+    ),
+  },
+];
+
+/**
+ * Reads extra rules from a JSON array of {@link RedactionRuleDefinition}.
+ */
+export function loadRedactionRules(path: string): RedactionRule[] {
+  const definitions = JSON.parse(
+    readFileSync(path, 'utf8'),
+  ) as RedactionRuleDefinition[];
+  if (!Array.isArray(definitions)) {
+    throw new Error(`${path} must contain a JSON array of redaction rules.`);
+  }
+  return definitions.map(({ type, pattern, flags = '' }) => {
+    if (typeof type !== 'string' || typeof pattern !== 'string') {
+      throw new Error(
+        `Redaction rules in ${path} need a string "type" and "pattern".`,
+      );
+    }
+    return {
+      type,
+      pattern: new RegExp(pattern, flags.includes('g') ? flags : `${flags}g`),
+    };
+  });
+}
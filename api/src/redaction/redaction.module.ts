@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DEFAULT_REDACTION_RULES, loadRedactionRules } from './redaction-rules';
+import { RedactionService } from './redaction.service';
+
+@Module({
+  providers: [
+    {
+      provide: RedactionService,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): RedactionService => {
+        const disabled = configService
+          .get<string>('REDACTION_DISABLED_RULES', '')
+          .split(',')
+          .map((type) => type.trim().toUpperCase())
+          .filter(Boolean);
+        const rulesPath = configService.get<string>('REDACTION_RULES_PATH');
+        const rules = [
+          ...DEFAULT_REDACTION_RULES,
+          ...(rulesPath ? loadRedactionRules(rulesPath) : []),
+        ];
+        return new RedactionService(
+          rules.filter(({ type }) => !disabled.includes(type.toUpperCase())),
+        );
+      },
+    },
+  ],
+  exports: [RedactionService],
+})
+export class RedactionModule {}
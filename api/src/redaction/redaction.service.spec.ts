@@ -0,0 +1,75 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CLINICAL_TEXT, SYNTHETIC_PHI } from './fixtures/synthetic-phi';
+import { DEFAULT_REDACTION_RULES, loadRedactionRules } from './redaction-rules';
+import { RedactionService } from './redaction.service';
+
+describe('RedactionService', () => {
+  const redaction = new RedactionService(DEFAULT_REDACTION_RULES);
+
+  it.each(SYNTHETIC_PHI)('redacts "$text"', ({ text, redacted }) => {
+    expect(redaction.redact(text)).toBe(redacted);
+  });
+
+  it.each(CLINICAL_TEXT)('leaves "%s" alone', (text) => {
+    expect(redaction.redact(text)).toBe(text);
+  });
+
+  it('redacts nested values and reduces audio to its size', () => {
+    const message = {
+      serverContent: {
+        modelTurn: {
+          parts: [
+            { text: 'Thanks, Mrs. Alvarez.' },
+            {
+              inlineData: {
+                mimeType: 'audio/pcm;rate=24000',
+                data: 'AAEAAgAD',
+              },
+            },
+          ],
+        },
+      },
+      binary: Buffer.alloc(10),
+      turnComplete: true,
+    };
+
+    expect(redaction.redactValue(message)).toEqual({
+      serverContent: {
+        modelTurn: {
+          parts: [
+            { text: 'Thanks, Mrs. [NAME].' },
+            {
+              inlineData: {
+                mimeType: 'audio/pcm;rate=24000',
+                data: '[6 bytes of audio]',
+              },
+            },
+          ],
+        },
+      },
+      binary: '[10 bytes]',
+      turnComplete: true,
+    });
+    expect(redaction.forLog(message)).not.toContain('AAEAAgAD');
+    expect(message.serverContent.modelTurn.parts[0].text).toBe(
+      'Thanks, Mrs. Alvarez.',
+    );
+  });
+
+  it('loads extra rules from a JSON file', () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'redaction-')), 'rules.json');
+    writeFileSync(
+      path,
+      JSON.stringify([
+        { type: 'PATIENT_ID', pattern: 'PT-\\d{6}', flags: 'i' },
+      ]),
+    );
+    const custom = new RedactionService(loadRedactionRules(path));
+
+    expect(custom.redact('Ids pt-123456 and PT-654321.')).toBe(
+      'Ids [PATIENT_ID] and [PATIENT_ID].',
+    );
+  });
+});
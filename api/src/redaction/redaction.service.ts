@@ -0,0 +1,59 @@
+import { types } from 'util';
+import { RedactionRule } from './redaction-rules';
+
+/**
+ * Replaces patient identifiers with typed placeholders such as `[PHONE]`.
+ * Everything the API logs or stores that may hold patient data goes through
+ * here first.
+ */
+export class RedactionService {
+  constructor(private readonly rules: RedactionRule[]) {}
+
+  redact(text: string): string {
+    return this.rules.reduce(
+      (redacted, { type, pattern }) => redacted.replace(pattern, `[${type}]`),
+      text,
+    );
+  }
+
+  /**
+   * A copy of `value` with every string redacted. Audio, as a
+   * `{ data, mimeType: 'audio/...' }` object or as binary, is reduced to its
+   * size.
+   */
+  redactValue<T>(value: T): T {
+    return this.redactAny(value) as T;
+  }
+
+  /** `value` as redacted JSON, for log lines. */
+  forLog(value: unknown): string {
+    return JSON.stringify(this.redactAny(value));
+  }
+
+  private redactAny(value: unknown): unknown {
+    if (typeof value === 'string') {
+      return this.redact(value);
+    }
+    if (Buffer.isBuffer(value) || types.isAnyArrayBuffer(value)) {
+      return `[${value.byteLength} bytes]`;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactAny(item));
+    }
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+    const entries = Object.entries(value);
+    const { data, mimeType } = value as { data?: unknown; mimeType?: unknown };
+    const isAudio =
+      typeof mimeType === 'string' && mimeType.startsWith('audio/');
+    return Object.fromEntries(
+      entries.map(([key, item]) => [
+        key,
+        isAudio && key === 'data' && typeof data === 'string'
+          ? `[${Buffer.byteLength(data, 'base64')} bytes of audio]`
+          : this.redactAny(item),
+      ]),
+    );
+  }
+}
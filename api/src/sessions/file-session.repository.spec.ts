@@ -0,0 +1,116 @@
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DEFAULT_LIVE_SESSION_CONFIG } from '../live-model/live-session-config';
+import { FileSessionRepository } from './file-session.repository';
+import { SessionRecord } from './session-repository';
+
+describe('FileSessionRepository', () => {
+  let directory: string;
+  let repository: FileSessionRepository;
+
+  const record = (
+    id: string,
+    startedAt: string,
+    userId = 'user-1',
+  ): SessionRecord => ({
+    id,
+    userId,
+    status: 'active',
+    startedAt,
+    endedAt: null,
+    config: DEFAULT_LIVE_SESSION_CONFIG,
+    turns: [],
+    summary: null,
+  });
+  const first = '00000000-0000-4000-8000-000000000001';
+  const second = '00000000-0000-4000-8000-000000000002';
+  const third = '00000000-0000-4000-8000-000000000003';
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'sessions-'));
+    repository = new FileSessionRepository(join(directory, 'store'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('keeps every turn when appends race each other', async () => {
+    await repository.create(record(first, '2025-01-01T10:00:00.000Z'));
+    await Promise.all(
+      Array.from({ length: 20 }, (_, i) =>
+        repository.appendTurn(first, {
+          role: i % 2 ? 'assistant' : 'user',
+          text: `turn ${i}`,
+          interrupted: false,
+          timestamp: '2025-01-01T10:00:01.000Z',
+        }),
+      ),
+    );
+
+    const stored = await repository.get(first);
+    expect(stored?.turns.map((turn) => turn.text)).toEqual(
+      Array.from({ length: 20 }, (_, i) => `turn ${i}`),
+    );
+  });
+
+  it('records the summary and the end of a session', async () => {
+    await repository.create(record(first, '2025-01-01T10:00:00.000Z'));
+    await repository.setSummary(first, {
+      chiefComplaint: 'Headache',
+      history: 'Since yesterday.',
+      medications: [],
+      allergies: [],
+      vitals: {},
+      redFlags: [],
+      submittedAt: '2025-01-01T10:05:00.000Z',
+    });
+    await repository.end(first, '2025-01-01T10:06:00.000Z');
+    await repository.end(first, '2025-01-01T10:07:00.000Z');
+
+    expect(await repository.get(first)).toMatchObject({
+      status: 'ended',
+      endedAt: '2025-01-01T10:06:00.000Z',
+      summary: { chiefComplaint: 'Headache' },
+    });
+  });
+
+  it('lists a user’s sessions, most recent first, and deletes sessions', async () => {
+    await repository.create(record(first, '2025-01-01T10:00:00.000Z'));
+    await repository.create(record(second, '2025-01-02T10:00:00.000Z'));
+    await repository.create(
+      record(third, '2025-01-03T10:00:00.000Z', 'user-2'),
+    );
+
+    expect((await repository.list('user-1')).map((item) => item.id)).toEqual([
+      second,
+      first,
+    ]);
+    expect(await repository.delete(first)).toBe(true);
+    expect(await repository.delete(first)).toBe(false);
+    expect((await readdir(join(directory, 'store'))).sort()).toEqual([
+      `${second}.json`,
+      `${third}.json`,
+    ]);
+  });
+
+  it('ignores ids that are not session ids', async () => {
+    expect(await repository.get('../../etc/passwd')).toBeNull();
+    expect(await repository.delete('../secrets')).toBe(false);
+    await expect(
+      repository.create(record('../escape', '2025-01-01T10:00:00.000Z')),
+    ).rejects.toThrow(/Invalid session id/);
+  });
+
+  it('reports whether its directory is usable', async () => {
+    await expect(repository.checkHealth()).resolves.toBeUndefined();
+    expect(await readdir(directory)).toEqual(['store']);
+
+    const blocked = join(directory, 'blocked');
+    await writeFile(blocked, '');
+    await expect(
+      new FileSessionRepository(blocked).checkHealth(),
+    ).rejects.toThrow(/EEXIST/);
+  });
+});
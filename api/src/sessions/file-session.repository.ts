@@ -0,0 +1,161 @@
+import { constants } from 'fs';
+import {
+  access,
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  writeFile,
+} from 'fs/promises';
+import { join } from 'path';
+import {
+  byMostRecent,
+  SessionListItem,
+  SessionRecord,
+  SessionRepository,
+  SessionSummary,
+  SessionTurn,
+  toSessionListItem,
+} from './session-repository';
+
+const SESSION_ID_PATTERN = /^[0-9a-f-]{36}$/i;
+
+/**
+ * Stores each session as a JSON file (`<id>.json`) in a directory.
+ *
+ * Updates are read-modify-write, so they are queued per session to keep
+ * concurrent appends from overwriting each other, and each write goes to a
+ * temporary file that is renamed into place so a crash never leaves a
+ * truncated record behind.
+ */
+export class FileSessionRepository implements SessionRepository {
+  private readonly queues = new Map<string, Promise<unknown>>();
+  private ready: Promise<unknown> | null = null;
+
+  constructor(private readonly directory: string) {}
+
+  create(record: SessionRecord): Promise<void> {
+    return this.enqueue(record.id, () => this.write(record));
+  }
+
+  appendTurn(id: string, turn: SessionTurn): Promise<void> {
+    return this.update(id, (record) => {
+      record.turns.push(turn);
+    });
+  }
+
+  setSummary(id: string, summary: SessionSummary): Promise<void> {
+    return this.update(id, (record) => {
+      record.summary = summary;
+    });
+  }
+
+  end(id: string, endedAt: string): Promise<void> {
+    return this.update(id, (record) => {
+      if (record.status !== 'ended') {
+        record.status = 'ended';
+        record.endedAt = endedAt;
+      }
+    });
+  }
+
+  async list(userId: string): Promise<SessionListItem[]> {
+    await this.ensureDirectory();
+    const files = (await readdir(this.directory)).filter((file) =>
+      file.endsWith('.json'),
+    );
+    const records = await Promise.all(
+      files.map((file) => this.read(file.slice(0, -'.json'.length))),
+    );
+    return records
+      .filter((record): record is SessionRecord => record?.userId === userId)
+      .map(toSessionListItem)
+      .sort(byMostRecent);
+  }
+
+  get(id: string): Promise<SessionRecord | null> {
+    return this.enqueue(id, () => this.read(id));
+  }
+
+  delete(id: string): Promise<boolean> {
+    return this.enqueue(id, async () => {
+      if (!SESSION_ID_PATTERN.test(id) || !(await this.read(id))) {
+        return false;
+      }
+      await rm(this.pathFor(id), { force: true });
+      return true;
+    });
+  }
+
+  /**
+   * Checks the directory afresh rather than through `ensureDirectory`, so a
+   * problem that was fixed (or appeared) since startup is noticed.
+   */
+  async checkHealth(): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await access(this.directory, constants.R_OK | constants.W_OK);
+  }
+
+  private update(
+    id: string,
+    change: (record: SessionRecord) => void,
+  ): Promise<void> {
+    return this.enqueue(id, async () => {
+      const record = await this.read(id);
+      if (record) {
+        change(record);
+        await this.write(record);
+      }
+    });
+  }
+
+  private enqueue<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(id) ?? Promise.resolve();
+    const next = previous.then(task, task);
+    const settled = next.catch(() => undefined);
+    this.queues.set(id, settled);
+    void settled.then(() => {
+      if (this.queues.get(id) === settled) {
+        this.queues.delete(id);
+      }
+    });
+    return next;
+  }
+
+  private async read(id: string): Promise<SessionRecord | null> {
+    if (!SESSION_ID_PATTERN.test(id)) {
+      return null;
+    }
+    try {
+      return JSON.parse(
+        await readFile(this.pathFor(id), 'utf8'),
+      ) as SessionRecord;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async write(record: SessionRecord): Promise<void> {
+    if (!SESSION_ID_PATTERN.test(record.id)) {
+      throw new Error(`Invalid session id "${record.id}".`);
+    }
+    await this.ensureDirectory();
+    const path = this.pathFor(record.id);
+    const temporaryPath = `${path}.tmp`;
+    await writeFile(temporaryPath, JSON.stringify(record, null, 2), 'utf8');
+    await rename(temporaryPath, path);
+  }
+
+  private ensureDirectory(): Promise<unknown> {
+    this.ready ??= mkdir(this.directory, { recursive: true });
+    return this.ready;
+  }
+
+  private pathFor(id: string): string {
+    return join(this.directory, `${id}.json`);
+  }
+}
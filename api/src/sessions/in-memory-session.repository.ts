@@ -0,0 +1,65 @@
+import {
+  byMostRecent,
+  SessionRecord,
+  SessionRepository,
+  SessionSummary,
+  SessionTurn,
+  toSessionListItem,
+} from './session-repository';
+
+/**
+ * Keeps sessions in process memory. Used by tests and for local runs where
+ * history does not need to survive a restart.
+ */
+export class InMemorySessionRepository implements SessionRepository {
+  private readonly records = new Map<string, SessionRecord>();
+
+  create(record: SessionRecord): Promise<void> {
+    this.records.set(record.id, structuredClone(record));
+    return Promise.resolve();
+  }
+
+  appendTurn(id: string, turn: SessionTurn): Promise<void> {
+    this.records.get(id)?.turns.push({ ...turn });
+    return Promise.resolve();
+  }
+
+  setSummary(id: string, summary: SessionSummary): Promise<void> {
+    const record = this.records.get(id);
+    if (record) {
+      record.summary = { ...summary };
+    }
+    return Promise.resolve();
+  }
+
+  end(id: string, endedAt: string): Promise<void> {
+    const record = this.records.get(id);
+    if (record && record.status !== 'ended') {
+      record.status = 'ended';
+      record.endedAt = endedAt;
+    }
+    return Promise.resolve();
+  }
+
+  list(userId: string) {
+    return Promise.resolve(
+      [...this.records.values()]
+        .filter((record) => record.userId === userId)
+        .map(toSessionListItem)
+        .sort(byMostRecent),
+    );
+  }
+
+  get(id: string): Promise<SessionRecord | null> {
+    const record = this.records.get(id);
+    return Promise.resolve(record ? structuredClone(record) : null);
+  }
+
+  delete(id: string): Promise<boolean> {
+    return Promise.resolve(this.records.delete(id));
+  }
+
+  checkHealth(): Promise<void> {
+    return Promise.resolve();
+  }
+}
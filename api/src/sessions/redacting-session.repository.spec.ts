@@ -0,0 +1,88 @@
+import { DEFAULT_LIVE_SESSION_CONFIG } from '../live-model/live-session-config';
+import { DEFAULT_REDACTION_RULES } from '../redaction/redaction-rules';
+import { RedactionService } from '../redaction/redaction.service';
+import { InMemorySessionRepository } from './in-memory-session.repository';
+import { RedactingSessionRepository } from './redacting-session.repository';
+
+describe('RedactingSessionRepository', () => {
+  const id = '00000000-0000-4000-8000-000000000001';
+  let store: InMemorySessionRepository;
+  let repository: RedactingSessionRepository;
+
+  beforeEach(async () => {
+    store = new InMemorySessionRepository();
+    repository = new RedactingSessionRepository(
+      store,
+      new RedactionService(DEFAULT_REDACTION_RULES),
+    );
+    await repository.create({
+      id,
+      userId: 'user-1',
+      status: 'active',
+      startedAt: '2025-01-01T10:00:00.000Z',
+      endedAt: null,
+      config: DEFAULT_LIVE_SESSION_CONFIG,
+      turns: [],
+      summary: null,
+    });
+  });
+
+  it('stores redacted turns and summaries', async () => {
+    await repository.appendTurn(id, {
+      role: 'user',
+      text: 'My name is Jane Doe, call me at 555-123-4567.',
+      interrupted: false,
+      timestamp: '2025-01-01T10:00:05.000Z',
+    });
+    await repository.setSummary(id, {
+      chiefComplaint: 'Headache',
+      history:
+        'Patient Jane Doe, born 03/14/1985, has had a headache since Monday.',
+      medications: [],
+      allergies: [],
+      vitals: { bloodPressure: '120/80' },
+      redFlags: [],
+      submittedAt: '2025-01-01T10:05:00.000Z',
+    });
+
+    const record = await store.get(id);
+    expect(record?.turns[0].text).toBe(
+      'My name is [NAME], call me at [PHONE].',
+    );
+    expect(record?.summary).toMatchObject({
+      history: 'Patient [NAME], born [DATE], has had a headache since Monday.',
+      vitals: { bloodPressure: '120/80' },
+      submittedAt: '2025-01-01T10:05:00.000Z',
+    });
+  });
+
+  it('redacts the details a template was filled in with', async () => {
+    const templated = '00000000-0000-4000-8000-000000000002';
+    await repository.create({
+      id: templated,
+      userId: 'user-1',
+      status: 'active',
+      startedAt: '2025-01-01T10:00:00.000Z',
+      endedAt: null,
+      config: {
+        ...DEFAULT_LIVE_SESSION_CONFIG,
+        systemInstruction: 'Call the patient back on 555-123-4567.',
+        template: {
+          id: 'follow-up-check-in',
+          version: 1,
+          variables: { visitReason: 'Callback number 555-123-4567' },
+        },
+      },
+      turns: [],
+      summary: null,
+    });
+
+    const config = (await store.get(templated))?.config;
+    expect(config?.systemInstruction).toBe('Call the patient back on [PHONE].');
+    expect(config?.template).toEqual({
+      id: 'follow-up-check-in',
+      version: 1,
+      variables: { visitReason: 'Callback number [PHONE]' },
+    });
+  });
+});
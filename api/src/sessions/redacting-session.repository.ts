@@ -0,0 +1,83 @@
+import type { LiveSessionConfig } from '../live-model/live-session-config';
+import { RedactionService } from '../redaction/redaction.service';
+import {
+  SessionListItem,
+  SessionRecord,
+  SessionRepository,
+  SessionSummary,
+  SessionTurn,
+} from './session-repository';
+
+/**
+ * Wraps the configured store so transcripts, summaries and the patient
+ * details a prompt template was filled in with are redacted before they are
+ * written, whichever store is in use.
+ */
+export class RedactingSessionRepository implements SessionRepository {
+  constructor(
+    private readonly store: SessionRepository,
+    private readonly redaction: RedactionService,
+  ) {}
+
+  create(record: SessionRecord): Promise<void> {
+    return this.store.create({
+      ...record,
+      config: this.redactConfig(record.config),
+      turns: record.turns.map((turn) => this.redactTurn(turn)),
+      summary: record.summary && this.redactSummary(record.summary),
+    });
+  }
+
+  appendTurn(id: string, turn: SessionTurn): Promise<void> {
+    return this.store.appendTurn(id, this.redactTurn(turn));
+  }
+
+  setSummary(id: string, summary: SessionSummary): Promise<void> {
+    return this.store.setSummary(id, this.redactSummary(summary));
+  }
+
+  end(id: string, endedAt: string): Promise<void> {
+    return this.store.end(id, endedAt);
+  }
+
+  list(userId: string): Promise<SessionListItem[]> {
+    return this.store.list(userId);
+  }
+
+  get(id: string): Promise<SessionRecord | null> {
+    return this.store.get(id);
+  }
+
+  delete(id: string): Promise<boolean> {
+    return this.store.delete(id);
+  }
+
+  checkHealth(): Promise<void> {
+    return this.store.checkHealth();
+  }
+
+  private redactConfig(config: LiveSessionConfig): LiveSessionConfig {
+    return {
+      ...config,
+      systemInstruction:
+        config.systemInstruction &&
+        this.redaction.redact(config.systemInstruction),
+      template: config.template && {
+        ...config.template,
+        variables: this.redaction.redactValue(config.template.variables),
+      },
+    };
+  }
+
+  private redactTurn(turn: SessionTurn): SessionTurn {
+    return { ...turn, text: this.redaction.redact(turn.text) };
+  }
+
+  private redactSummary(summary: SessionSummary): SessionSummary {
+    // submittedAt is ours, not patient data, and must stay a timestamp
+    return {
+      ...this.redaction.redactValue(summary),
+      submittedAt: summary.submittedAt,
+    };
+  }
+}
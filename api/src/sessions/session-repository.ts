@@ -0,0 +1,99 @@
+import type { ClinicalSummary } from '../tools/clinical-summary';
+import type { LiveSessionConfig } from '../live-model/live-session-config';
+
+/**
+ * Injection token for the configured {@link SessionRepository}.
+ */
+export const SESSION_REPOSITORY = Symbol('SESSION_REPOSITORY');
+
+/**
+ * Names accepted by the `SESSION_STORE` environment variable.
+ */
+export type SessionStoreName = 'file' | 'memory';
+
+export type SessionStatus = 'active' | 'ended';
+
+/**
+ * One side of a completed turn, as recorded from the final transcript.
+ */
+export interface SessionTurn {
+  role: 'user' | 'assistant';
+  text: string;
+  interrupted: boolean;
+  /** ISO 8601 time the turn was recorded. */
+  timestamp: string;
+}
+
+/**
+ * The clinical summary the model submitted for the session.
+ */
+export interface SessionSummary extends ClinicalSummary {
+  /** ISO 8601 time the summary was submitted. */
+  submittedAt: string;
+}
+
+/**
+ * Everything stored for one live session.
+ */
+export interface SessionRecord {
+  id: string;
+  /** The authenticated user who ran the session. */
+  userId: string;
+  status: SessionStatus;
+  /** ISO 8601 start time. */
+  startedAt: string;
+  /** ISO 8601 end time, once the session is over. */
+  endedAt: string | null;
+  config: LiveSessionConfig;
+  turns: SessionTurn[];
+  summary: SessionSummary | null;
+}
+
+/**
+ * The metadata returned when listing sessions, without the transcript.
+ */
+export interface SessionListItem {
+  id: string;
+  userId: string;
+  status: SessionStatus;
+  startedAt: string;
+  endedAt: string | null;
+  model: string;
+  turnCount: number;
+  hasSummary: boolean;
+}
+
+/**
+ * Storage for session records. Implementations must tolerate concurrent calls
+ * for the same session; updates to an unknown session are ignored.
+ */
+export interface SessionRepository {
+  create(record: SessionRecord): Promise<void>;
+  appendTurn(id: string, turn: SessionTurn): Promise<void>;
+  setSummary(id: string, summary: SessionSummary): Promise<void>;
+  end(id: string, endedAt: string): Promise<void>;
+  /** The sessions of one user, most recent first. */
+  list(userId: string): Promise<SessionListItem[]>;
+  get(id: string): Promise<SessionRecord | null>;
+  /** Returns false when there was no such session. */
+  delete(id: string): Promise<boolean>;
+  /** Resolves when the store can be read and written; rejects with the reason otherwise. */
+  checkHealth(): Promise<void>;
+}
+
+export function toSessionListItem(record: SessionRecord): SessionListItem {
+  return {
+    id: record.id,
+    userId: record.userId,
+    status: record.status,
+    startedAt: record.startedAt,
+    endedAt: record.endedAt,
+    model: record.config.model,
+    turnCount: record.turns.length,
+    hasSummary: record.summary !== null,
+  };
+}
+
+export function byMostRecent(a: SessionListItem, b: SessionListItem): number {
+  return b.startedAt.localeCompare(a.startedAt);
+}
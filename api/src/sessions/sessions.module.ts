@@ -0,0 +1,45 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedactionModule } from '../redaction/redaction.module';
+import { RedactionService } from '../redaction/redaction.service';
+import { FileSessionRepository } from './file-session.repository';
+import { InMemorySessionRepository } from './in-memory-session.repository';
+import { RedactingSessionRepository } from './redacting-session.repository';
+import {
+  SESSION_REPOSITORY,
+  SessionRepository,
+  SessionStoreName,
+} from './session-repository';
+
+function createStore(configService: ConfigService): SessionRepository {
+  const store = configService.get<SessionStoreName>('SESSION_STORE', 'file');
+  switch (store) {
+    case 'file':
+      return new FileSessionRepository(
+        configService.get<string>('SESSION_STORE_DIR', 'data/sessions'),
+      );
+    case 'memory':
+      return new InMemorySessionRepository();
+    default:
+      throw new Error(
+        `Unknown SESSION_STORE "${String(store)}". Expected "file" or "memory".`,
+      );
+  }
+}
+
+@Module({
+  imports: [RedactionModule],
+  providers: [
+    {
+      provide: SESSION_REPOSITORY,
+      inject: [ConfigService, RedactionService],
+      useFactory: (
+        configService: ConfigService,
+        redaction: RedactionService,
+      ): SessionRepository =>
+        new RedactingSessionRepository(createStore(configService), redaction),
+    },
+  ],
+  exports: [SESSION_REPOSITORY],
+})
+export class SessionsModule {}
@@ -0,0 +1,73 @@
+import type { PromptTemplateDraft } from './prompt-template';
+
+/**
+ * Templates a new library starts with. They are stored as version 1 of each
+ * template the first time the library is opened and can be edited from
+ * there like any other template.
+ */
+export const BUILT_IN_TEMPLATES: Record<string, PromptTemplateDraft> = {
+  'intake-interview': {
+    name: 'Intake interview',
+    description: 'Collects the history of a new complaint before a visit.',
+    systemInstruction: [
+      'You are a friendly clinical intake assistant speaking with {{patientName}}, who is booked for: {{visitReason}}.',
+      'Ask one question at a time about the main complaint, its onset, duration, severity, associated symptoms, current medications and allergies.',
+      'Do not diagnose or give medical advice. If the patient describes an emergency, tell them to call emergency services.',
+      'When you have enough information, call submit_clinical_summary and thank the patient.',
+    ].join('\n'),
+    variables: [
+      {
+        name: 'patientName',
+        description: 'How to address the patient.',
+        default: 'the patient',
+      },
+      {
+        name: 'visitReason',
+        description: 'Why the visit was booked.',
+        default: 'a general consultation',
+      },
+    ],
+    defaults: {},
+  },
+  'medication-reconciliation': {
+    name: 'Medication reconciliation',
+    description: 'Builds an accurate list of what the patient actually takes.',
+    systemInstruction: [
+      'You are a clinical assistant reconciling the medications of {{patientName}}.',
+      'For each medication, including over-the-counter drugs and supplements, ask for the name, dose, how often it is taken and whether doses are missed.',
+      'Also ask about allergies and side effects. Do not suggest changes to any medication.',
+      'When the list is complete, read it back, then call submit_clinical_summary.',
+    ].join('\n'),
+    variables: [
+      {
+        name: 'patientName',
+        description: 'How to address the patient.',
+        default: 'the patient',
+      },
+    ],
+    defaults: {},
+  },
+  'follow-up-check-in': {
+    name: 'Follow-up check-in',
+    description: 'Checks on progress after a treatment or visit.',
+    systemInstruction: [
+      'You are a clinical assistant checking in with {{patientName}} after {{visitReason}}.',
+      'Ask how they have been since, whether symptoms have improved or worsened, whether they are following the treatment plan and whether they have any new concerns.',
+      'Do not give medical advice. If symptoms are severe or worsening quickly, tell them to contact their clinician or emergency services.',
+      'When you are done, call submit_clinical_summary.',
+    ].join('\n'),
+    variables: [
+      {
+        name: 'patientName',
+        description: 'How to address the patient.',
+        default: 'the patient',
+      },
+      {
+        name: 'visitReason',
+        description: 'The visit or treatment being followed up.',
+        required: true,
+      },
+    ],
+    defaults: {},
+  },
+};
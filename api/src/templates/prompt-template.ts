@@ -0,0 +1,135 @@
+import type { ResolvedTemplate } from '../protocol/socket-protocol';
+
+export type { ResolvedTemplate };
+
+export interface PromptTemplateVariable {
+  /** Referenced in the instruction as `{{name}}`. */
+  name: string;
+  description?: string;
+  /** Sessions must supply a value when there is no default. */
+  required?: boolean;
+  /** Used when a session does not supply a value. */
+  default?: string;
+}
+
+/**
+ * Session settings a template applies unless `start-session` overrides them.
+ */
+export interface PromptTemplateDefaults {
+  voice?: string;
+  language?: string;
+}
+
+/**
+ * What an author writes; the library stamps it with an id and version.
+ */
+export interface PromptTemplateDraft {
+  name: string;
+  description?: string;
+  systemInstruction: string;
+  variables: PromptTemplateVariable[];
+  defaults: PromptTemplateDefaults;
+}
+
+/**
+ * One immutable version of a template. Editing a template adds a version,
+ * so sessions can always be traced to the exact instruction they ran with.
+ */
+export interface PromptTemplateVersion extends PromptTemplateDraft {
+  id: string;
+  version: number;
+  /** ISO 8601 time the version was created. */
+  createdAt: string;
+  createdBy: string;
+}
+
+export class PromptTemplateError extends Error {}
+
+export const TEMPLATE_ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+export const MAX_VARIABLE_VALUE_LENGTH = 500;
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+/** The variable names a system instruction refers to. */
+export function placeholdersOf(systemInstruction: string): string[] {
+  return [
+    ...new Set(
+      Array.from(systemInstruction.matchAll(PLACEHOLDER), (match) => match[1]),
+    ),
+  ];
+}
+
+/**
+ * Checks that a draft only refers to variables it declares.
+ *
+ * @throws PromptTemplateError when it does not.
+ */
+export function validatePromptTemplateDraft(draft: PromptTemplateDraft): void {
+  const declared = new Set(draft.variables.map((variable) => variable.name));
+  if (declared.size !== draft.variables.length) {
+    throw new PromptTemplateError('Variable names must be unique.');
+  }
+  const undeclared = placeholdersOf(draft.systemInstruction).filter(
+    (name) => !declared.has(name),
+  );
+  if (undeclared.length > 0) {
+    throw new PromptTemplateError(
+      `The instruction uses undeclared variables: ${undeclared.join(', ')}.`,
+    );
+  }
+}
+
+/**
+ * Fills in a template's variables. Values are inserted as given, so they
+ * are limited in length and may not contain placeholders of their own.
+ *
+ * @throws PromptTemplateError for unknown, missing or invalid values.
+ */
+export function renderPromptTemplate(
+  template: PromptTemplateVersion,
+  values: Record<string, unknown> = {},
+): { systemInstruction: string; variables: Record<string, string> } {
+  const declared = new Map(
+    template.variables.map((variable) => [variable.name, variable]),
+  );
+  const unknown = Object.keys(values).filter((name) => !declared.has(name));
+  if (unknown.length > 0) {
+    throw new PromptTemplateError(
+      `Template ${template.id} has no variables named ${unknown.join(', ')}.`,
+    );
+  }
+
+  const variables: Record<string, string> = {};
+  for (const variable of template.variables) {
+    const value = values[variable.name];
+    if (value === undefined || value === null || value === '') {
+      if (variable.default !== undefined) {
+        variables[variable.name] = variable.default;
+      } else if (variable.required) {
+        throw new PromptTemplateError(
+          `Template ${template.id} needs a value for ${variable.name}.`,
+        );
+      } else {
+        variables[variable.name] = '';
+      }
+      continue;
+    }
+    if (typeof value !== 'string') {
+      throw new PromptTemplateError(`${variable.name} must be a string.`);
+    }
+    if (value.length > MAX_VARIABLE_VALUE_LENGTH || /\{\{|\}\}/.test(value)) {
+      throw new PromptTemplateError(
+        `${variable.name} must be at most ${MAX_VARIABLE_VALUE_LENGTH} characters of plain text.`,
+      );
+    }
+    variables[variable.name] = value;
+  }
+
+  return {
+    systemInstruction: template.systemInstruction.replace(
+      PLACEHOLDER,
+      (_, name: string) => variables[name] ?? '',
+    ),
+    variables,
+  };
+}
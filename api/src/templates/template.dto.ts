@@ -0,0 +1,87 @@
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import {
+  LIVE_SESSION_ALLOW_LIST,
+  MAX_SYSTEM_INSTRUCTION_LENGTH,
+} from '../live-model/live-session-config';
+import {
+  MAX_VARIABLE_VALUE_LENGTH,
+  PromptTemplateDefaults,
+  PromptTemplateDraft,
+  PromptTemplateVariable,
+  TEMPLATE_ID_PATTERN,
+} from './prompt-template';
+
+/**
+ * Request bodies of the template management API.
+ */
+
+export class PromptTemplateVariableDto implements PromptTemplateVariable {
+  @Matches(/^[A-Za-z][A-Za-z0-9_]*$/, {
+    message: 'variable names must be letters, digits and underscores',
+  })
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  required?: boolean;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(MAX_VARIABLE_VALUE_LENGTH)
+  default?: string;
+}
+
+export class PromptTemplateDefaultsDto implements PromptTemplateDefaults {
+  @IsOptional()
+  @IsIn(LIVE_SESSION_ALLOW_LIST.voices)
+  voice?: string;
+
+  @IsOptional()
+  @IsIn(LIVE_SESSION_ALLOW_LIST.languages)
+  language?: string;
+}
+
+export class UpdatePromptTemplateDto implements PromptTemplateDraft {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_SYSTEM_INSTRUCTION_LENGTH)
+  systemInstruction: string;
+
+  @ValidateNested({ each: true })
+  @Type(() => PromptTemplateVariableDto)
+  variables: PromptTemplateVariableDto[] = [];
+
+  @ValidateNested()
+  @Type(() => PromptTemplateDefaultsDto)
+  defaults: PromptTemplateDefaultsDto = {};
+}
+
+export class CreatePromptTemplateDto extends UpdatePromptTemplateDto {
+  @Matches(TEMPLATE_ID_PATTERN, {
+    message: 'id must be lowercase words separated by hyphens',
+  })
+  id: string;
+}
@@ -0,0 +1,196 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PromptTemplateError } from './prompt-template';
+import type { PromptTemplateDraft } from './prompt-template';
+import { TemplateService } from './template.service';
+
+describe('TemplateService', () => {
+  const now = () => new Date('2025-01-01T12:00:00.000Z');
+  const draft: PromptTemplateDraft = {
+    name: 'Pre-op call',
+    systemInstruction: 'Ask {{patientName}} about fasting before {{surgery}}.',
+    variables: [
+      { name: 'patientName', default: 'the patient' },
+      { name: 'surgery', required: true },
+    ],
+    defaults: { voice: 'Kore', language: 'en-GB' },
+  };
+
+  it('starts with the built-in templates', async () => {
+    const templates = new TemplateService(null, [], null, now);
+
+    expect(
+      (await templates.list()).map(({ id, version }) => [id, version]),
+    ).toEqual([
+      ['follow-up-check-in', 1],
+      ['intake-interview', 1],
+      ['medication-reconciliation', 1],
+    ]);
+  });
+
+  it('keeps every version of an updated template', async () => {
+    const templates = new TemplateService(null, ['editor'], null, now);
+
+    await templates.create('pre-op', draft, 'editor');
+    const updated = await templates.update(
+      'pre-op',
+      { ...draft, name: 'Pre-operative call' },
+      'editor',
+    );
+
+    expect(updated).toMatchObject({ version: 2, createdBy: 'editor' });
+    expect((await templates.get('pre-op'))?.name).toBe('Pre-operative call');
+    expect((await templates.get('pre-op', 1))?.name).toBe('Pre-op call');
+    expect(await templates.versions('pre-op')).toHaveLength(2);
+    expect(await templates.create('pre-op', draft, 'editor')).toBeNull();
+    expect(await templates.update('missing', draft, 'editor')).toBeNull();
+    expect(templates.canEdit('editor')).toBe(true);
+    expect(templates.canEdit('someone-else')).toBe(false);
+  });
+
+  it('does not mistake Object.prototype members for templates', async () => {
+    const templates = new TemplateService(null, ['editor'], null, now);
+
+    expect(await templates.get('constructor', 1)).toBeNull();
+    expect(await templates.versions('constructor')).toBeNull();
+    expect(await templates.update('constructor', draft, 'editor')).toBeNull();
+    expect(await templates.delete('constructor')).toBe(false);
+    await expect(
+      templates.apply({ template: { id: 'constructor' } }),
+    ).rejects.toThrow('Unknown template constructor.');
+    expect(
+      await templates.create('constructor', draft, 'editor'),
+    ).toMatchObject({ id: 'constructor', version: 1 });
+    expect(
+      await templates.update('constructor', draft, 'editor'),
+    ).toMatchObject({ version: 2 });
+  });
+
+  it('rejects instructions that use undeclared variables', async () => {
+    const templates = new TemplateService(null, [], null, now);
+
+    await expect(
+      templates.create(
+        'broken',
+        { ...draft, systemInstruction: 'Hello {{nickname}}.' },
+        'editor',
+      ),
+    ).rejects.toThrow('The instruction uses undeclared variables: nickname.');
+  });
+
+  it('renders the selected version into the session options', async () => {
+    const templates = new TemplateService(null, [], null, now);
+    await templates.create('pre-op', draft, 'editor');
+
+    const applied = await templates.apply({
+      voice: 'Puck',
+      template: { id: 'pre-op', variables: { surgery: 'a knee replacement' } },
+    });
+
+    expect(applied).toEqual({
+      options: {
+        voice: 'Puck',
+        language: 'en-GB',
+        systemInstruction:
+          'Ask the patient about fasting before a knee replacement.',
+      },
+      template: {
+        id: 'pre-op',
+        version: 1,
+        variables: {
+          patientName: 'the patient',
+          surgery: 'a knee replacement',
+        },
+      },
+    });
+  });
+
+  it('refuses invalid selections', async () => {
+    const templates = new TemplateService(null, [], null, now);
+    await templates.create('pre-op', draft, 'editor');
+    const apply = (template: { id: string; version?: number }, values = {}) =>
+      templates.apply({ template: { ...template, variables: values } });
+
+    await expect(apply({ id: 'missing' })).rejects.toThrow(
+      'Unknown template missing.',
+    );
+    await expect(apply({ id: 'pre-op', version: 3 })).rejects.toThrow(
+      'Template pre-op has no version 3.',
+    );
+    await expect(apply({ id: 'pre-op' })).rejects.toThrow(
+      'Template pre-op needs a value for surgery.',
+    );
+    await expect(
+      apply({ id: 'pre-op' }, { surgery: 'x', allergies: 'none' }),
+    ).rejects.toThrow('Template pre-op has no variables named allergies.');
+    await expect(
+      apply({ id: 'pre-op' }, { surgery: '{{patientName}}' }),
+    ).rejects.toThrow(PromptTemplateError);
+    await expect(
+      templates.apply({
+        systemInstruction: 'Be brief.',
+        template: { id: 'pre-op' },
+      }),
+    ).rejects.toThrow(
+      'Choose either a template or a systemInstruction, not both.',
+    );
+  });
+
+  it('falls back to the default template only without an instruction', async () => {
+    const templates = new TemplateService(null, [], 'intake-interview', now);
+
+    expect((await templates.apply({})).template).toEqual({
+      id: 'intake-interview',
+      version: 1,
+      variables: {
+        patientName: 'the patient',
+        visitReason: 'a general consultation',
+      },
+    });
+    expect(await templates.apply({ systemInstruction: 'Be brief.' })).toEqual({
+      options: { systemInstruction: 'Be brief.' },
+    });
+  });
+
+  describe('with a file', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'templates-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('persists changes across instances', async () => {
+      const path = join(directory, 'templates.json');
+      const first = new TemplateService(path, [], null, now);
+      await first.create('pre-op', draft, 'editor');
+      await first.delete('intake-interview');
+
+      const second = new TemplateService(path, [], null, now);
+      expect((await second.list()).map(({ id }) => id)).toEqual([
+        'follow-up-check-in',
+        'medication-reconciliation',
+        'pre-op',
+      ]);
+      expect(
+        Object.keys(JSON.parse(await readFile(path, 'utf8')) as object),
+      ).toHaveLength(3);
+    });
+
+    it('reads prototype-named templates back from the file', async () => {
+      const path = join(directory, 'templates.json');
+      await new TemplateService(path, [], null, now).create(
+        'constructor',
+        draft,
+        'editor',
+      );
+
+      const reloaded = new TemplateService(path, [], null, now);
+      expect((await reloaded.get('constructor'))?.version).toBe(1);
+    });
+  });
+});
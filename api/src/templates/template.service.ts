@@ -0,0 +1,282 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type {
+  ResolvedTemplate,
+  StartSessionPayload,
+} from '../protocol/socket-protocol';
+import { BUILT_IN_TEMPLATES } from './built-in-templates';
+import {
+  PromptTemplateDraft,
+  PromptTemplateError,
+  PromptTemplateVersion,
+  renderPromptTemplate,
+  validatePromptTemplateDraft,
+} from './prompt-template';
+
+/**
+ * Every version of every template, oldest version first. Libraries have no
+ * prototype, so ids such as `constructor` are not mistaken for templates.
+ */
+type TemplateLibrary = Record<string, PromptTemplateVersion[]>;
+
+export interface AppliedTemplate {
+  /** The payload with the rendered instruction and template defaults. */
+  options: StartSessionPayload;
+  template?: ResolvedTemplate;
+}
+
+function toLibrary(
+  templates: Record<string, PromptTemplateVersion[]>,
+): TemplateLibrary {
+  return Object.assign(Object.create(null) as TemplateLibrary, templates);
+}
+
+function seedLibrary(now: Date): TemplateLibrary {
+  return toLibrary(
+    Object.fromEntries(
+      Object.entries(BUILT_IN_TEMPLATES).map(([id, draft]) => [
+        id,
+        [
+          {
+            ...draft,
+            id,
+            version: 1,
+            createdAt: now.toISOString(),
+            createdBy: 'system',
+          },
+        ],
+      ]),
+    ),
+  );
+}
+
+/**
+ * The library of prompt templates. Versions are never changed once written:
+ * an update appends a new version, and sessions pick the latest one unless
+ * they ask for a specific version.
+ *
+ * With a `path` the library is kept in a JSON file, written to a temporary
+ * file and renamed into place; writes are serialised in this process, so
+ * the file must not be shared by several servers. Without one it lives in
+ * memory. A library that does not exist yet starts with the
+ * {@link BUILT_IN_TEMPLATES}.
+ */
+export class TemplateService {
+  private library?: Promise<TemplateLibrary>;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly path: string | null,
+    /** Users allowed to create, update and delete templates. */
+    private readonly editors: string[] = [],
+    /** Used when a session names neither a template nor an instruction. */
+    private readonly defaultTemplateId: string | null = null,
+    private readonly now: () => Date = () => new Date(),
+  ) {}
+
+  canEdit(userId: string): boolean {
+    return this.editors.includes(userId);
+  }
+
+  /** The latest version of each template, by id. */
+  async list(): Promise<PromptTemplateVersion[]> {
+    const library = await this.load();
+    return Object.keys(library)
+      .sort()
+      .map((id) => library[id][library[id].length - 1]);
+  }
+
+  /** A version of a template, the latest when `version` is omitted. */
+  async get(
+    id: string,
+    version?: number,
+  ): Promise<PromptTemplateVersion | null> {
+    const versions = (await this.load())[id];
+    if (!versions) {
+      return null;
+    }
+    return version === undefined
+      ? versions[versions.length - 1]
+      : (versions.find((candidate) => candidate.version === version) ?? null);
+  }
+
+  async versions(id: string): Promise<PromptTemplateVersion[] | null> {
+    return (await this.load())[id] ?? null;
+  }
+
+  /**
+   * Adds a template as version 1. Returns null when the id is taken.
+   *
+   * @throws PromptTemplateError when the draft is invalid.
+   */
+  async create(
+    id: string,
+    draft: PromptTemplateDraft,
+    userId: string,
+  ): Promise<PromptTemplateVersion | null> {
+    validatePromptTemplateDraft(draft);
+    return this.modify((library) => {
+      if (library[id]) {
+        return null;
+      }
+      const created = this.stamp(id, 1, draft, userId);
+      library[id] = [created];
+      return created;
+    });
+  }
+
+  /**
+   * Adds a new version of a template. Returns null when there is no such
+   * template.
+   *
+   * @throws PromptTemplateError when the draft is invalid.
+   */
+  async update(
+    id: string,
+    draft: PromptTemplateDraft,
+    userId: string,
+  ): Promise<PromptTemplateVersion | null> {
+    validatePromptTemplateDraft(draft);
+    return this.modify((library) => {
+      const versions = library[id];
+      if (!versions) {
+        return null;
+      }
+      const updated = this.stamp(
+        id,
+        versions[versions.length - 1].version + 1,
+        draft,
+        userId,
+      );
+      versions.push(updated);
+      return updated;
+    });
+  }
+
+  /**
+   * Removes a template and all its versions. Sessions that used it keep
+   * their rendered instruction.
+   */
+  delete(id: string): Promise<boolean> {
+    return this.modify((library) => {
+      if (!library[id]) {
+        return false;
+      }
+      delete library[id];
+      return true;
+    });
+  }
+
+  /**
+   * Renders the template a `start-session` payload selects into its
+   * `systemInstruction`, filling in the template's voice and language where
+   * the payload has none.
+   *
+   * @throws PromptTemplateError when the template does not exist, its
+   * variables are invalid, or the payload also has a `systemInstruction`.
+   */
+  async apply(options: StartSessionPayload = {}): Promise<AppliedTemplate> {
+    const { template: selection, ...rest } = options;
+    const hasInstruction = Boolean(options.systemInstruction?.trim());
+    if (selection && hasInstruction) {
+      throw new PromptTemplateError(
+        'Choose either a template or a systemInstruction, not both.',
+      );
+    }
+    if (!selection && (hasInstruction || !this.defaultTemplateId)) {
+      return { options: rest };
+    }
+
+    const id = selection?.id ?? (this.defaultTemplateId as string);
+    const template = await this.get(id, selection?.version);
+    if (!template) {
+      throw new PromptTemplateError(
+        selection?.version === undefined
+          ? `Unknown template ${id}.`
+          : `Template ${id} has no version ${selection.version}.`,
+      );
+    }
+    const { systemInstruction, variables } = renderPromptTemplate(
+      template,
+      selection?.variables,
+    );
+    return {
+      options: {
+        ...rest,
+        voice: rest.voice ?? template.defaults.voice,
+        language: rest.language ?? template.defaults.language,
+        systemInstruction,
+      },
+      template: { id, version: template.version, variables },
+    };
+  }
+
+  private stamp(
+    id: string,
+    version: number,
+    draft: PromptTemplateDraft,
+    userId: string,
+  ): PromptTemplateVersion {
+    return {
+      id,
+      version,
+      name: draft.name,
+      description: draft.description,
+      systemInstruction: draft.systemInstruction,
+      variables: draft.variables.map((variable) => ({ ...variable })),
+      defaults: { ...draft.defaults },
+      createdAt: this.now().toISOString(),
+      createdBy: userId,
+    };
+  }
+
+  private modify<T>(change: (library: TemplateLibrary) => T): Promise<T> {
+    const result = this.queue.then(async () => {
+      const library = await this.load();
+      const value = change(library);
+      await this.save(library);
+      return value;
+    });
+    // Reload after a failed write rather than keep an unsaved change
+    this.queue = result.catch(() => {
+      this.library = undefined;
+    });
+    return result;
+  }
+
+  private load(): Promise<TemplateLibrary> {
+    this.library ??= this.read().catch((error: unknown) => {
+      this.library = undefined;
+      throw error;
+    });
+    return this.library;
+  }
+
+  private async read(): Promise<TemplateLibrary> {
+    if (!this.path) {
+      return seedLibrary(this.now());
+    }
+    try {
+      return toLibrary(
+        JSON.parse(await readFile(this.path, 'utf8')) as TemplateLibrary,
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    const library = seedLibrary(this.now());
+    await this.save(library);
+    return library;
+  }
+
+  private async save(library: TemplateLibrary): Promise<void> {
+    if (!this.path) {
+      return;
+    }
+    await mkdir(dirname(this.path), { recursive: true });
+    const temporary = `${this.path}.tmp`;
+    await writeFile(temporary, JSON.stringify(library, null, 2), 'utf8');
+    await rename(temporary, this.path);
+  }
+}
@@ -0,0 +1,156 @@
+import {
+  BadRequestException,
+  Body,
+  ConflictException,
+  Controller,
+  Delete,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import { AuditService } from '../audit/audit.service';
+import { AuthUser, HttpAuthGuard } from '../auth/http-auth.guard';
+import type { AuthenticatedUser } from '../auth/token-verifier';
+import { PromptTemplateError } from './prompt-template';
+import type { PromptTemplateVersion } from './prompt-template';
+import {
+  CreatePromptTemplateDto,
+  UpdatePromptTemplateDto,
+} from './template.dto';
+import { TemplateService } from './template.service';
+
+const validateBody = new ValidationPipe({
+  whitelist: true,
+  forbidNonWhitelisted: true,
+  transform: true,
+});
+
+/**
+ * Reads the prompt template library. Any signed-in user may read it; only
+ * users listed in `TEMPLATE_EDITORS` may change it, and every change is
+ * audited.
+ */
+@Controller('templates')
+@UseGuards(HttpAuthGuard)
+export class TemplatesController {
+  constructor(
+    private readonly templates: TemplateService,
+    private readonly audit: AuditService,
+  ) {}
+
+  /** The latest version of each template. */
+  @Get()
+  list(): Promise<PromptTemplateVersion[]> {
+    return this.templates.list();
+  }
+
+  @Get(':id')
+  async get(@Param('id') id: string): Promise<PromptTemplateVersion> {
+    return this.found(id, await this.templates.get(id));
+  }
+
+  @Get(':id/versions')
+  async versions(@Param('id') id: string): Promise<PromptTemplateVersion[]> {
+    return this.found(id, await this.templates.versions(id));
+  }
+
+  @Get(':id/versions/:version')
+  async version(
+    @Param('id') id: string,
+    @Param('version', ParseIntPipe) version: number,
+  ): Promise<PromptTemplateVersion> {
+    const template = await this.templates.get(id, version);
+    if (!template) {
+      throw new NotFoundException(`Template ${id} has no version ${version}.`);
+    }
+    return template;
+  }
+
+  @Post()
+  async create(
+    @Body(validateBody) { id, ...draft }: CreatePromptTemplateDto,
+    @AuthUser() user: AuthenticatedUser,
+  ): Promise<PromptTemplateVersion> {
+    this.assertEditor(user);
+    const created = await this.edit(() =>
+      this.templates.create(id, draft, user.id),
+    );
+    if (!created) {
+      throw new ConflictException(`Template ${id} already exists.`);
+    }
+    void this.audit.record({
+      action: 'template.created',
+      actor: user.id,
+      details: { templateId: id, version: created.version },
+    });
+    return created;
+  }
+
+  /** Saves the body as a new version; earlier versions stay available. */
+  @Put(':id')
+  async update(
+    @Param('id') id: string,
+    @Body(validateBody) draft: UpdatePromptTemplateDto,
+    @AuthUser() user: AuthenticatedUser,
+  ): Promise<PromptTemplateVersion> {
+    this.assertEditor(user);
+    const updated = this.found(
+      id,
+      await this.edit(() => this.templates.update(id, draft, user.id)),
+    );
+    void this.audit.record({
+      action: 'template.updated',
+      actor: user.id,
+      details: { templateId: id, version: updated.version },
+    });
+    return updated;
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  async delete(
+    @Param('id') id: string,
+    @AuthUser() user: AuthenticatedUser,
+  ): Promise<void> {
+    this.assertEditor(user);
+    if (!(await this.templates.delete(id))) {
+      throw new NotFoundException(`Template ${id} not found.`);
+    }
+    void this.audit.record({
+      action: 'template.deleted',
+      actor: user.id,
+      details: { templateId: id },
+    });
+  }
+
+  private assertEditor(user: AuthenticatedUser): void {
+    if (!this.templates.canEdit(user.id)) {
+      throw new ForbiddenException('Not allowed to edit templates.');
+    }
+  }
+
+  private async edit<T>(change: () => Promise<T>): Promise<T> {
+    try {
+      return await change();
+    } catch (error) {
+      if (error instanceof PromptTemplateError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+  }
+
+  private found<T>(id: string, value: T | null): T {
+    if (!value) {
+      throw new NotFoundException(`Template ${id} not found.`);
+    }
+    return value;
+  }
+}
@@ -0,0 +1,48 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuditModule } from '../audit/audit.module';
+import { AuthModule } from '../auth/auth.module';
+import { TemplateService } from './template.service';
+import { TemplatesController } from './templates.controller';
+
+type TemplateStoreName = 'file' | 'memory';
+
+function storePath(configService: ConfigService): string | null {
+  const store = configService.get<TemplateStoreName>('TEMPLATE_STORE', 'file');
+  switch (store) {
+    case 'file':
+      return configService.get<string>(
+        'TEMPLATE_STORE_PATH',
+        'data/templates.json',
+      );
+    case 'memory':
+      return null;
+    default:
+      throw new Error(
+        `Unknown TEMPLATE_STORE "${String(store)}". Expected "file" or "memory".`,
+      );
+  }
+}
+
+@Module({
+  imports: [AuditModule, AuthModule],
+  controllers: [TemplatesController],
+  providers: [
+    {
+      provide: TemplateService,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): TemplateService =>
+        new TemplateService(
+          storePath(configService),
+          configService
+            .get<string>('TEMPLATE_EDITORS', '')
+            .split(',')
+            .map((userId) => userId.trim())
+            .filter(Boolean),
+          configService.get<string>('DEFAULT_TEMPLATE_ID') || null,
+        ),
+    },
+  ],
+  exports: [TemplateService],
+})
+export class TemplatesModule {}
@@ -0,0 +1,62 @@
+import {
+  ClinicalSummaryValidationError,
+  validateClinicalSummary,
+} from './clinical-summary';
+
+describe('validateClinicalSummary', () => {
+  const validArgs = {
+    chiefComplaint: ' Headache ',
+    history: 'Started yesterday morning, throbbing, 6/10.',
+    medications: [
+      { name: 'Ibuprofen', dose: '400 mg', frequency: 'twice daily' },
+      { name: 'Lisinopril', dose: '' },
+    ],
+    allergies: ['Penicillin'],
+    vitals: { bloodPressure: '128/82', pulse: '70' },
+    redFlags: [],
+    notes: 'dropped',
+  };
+
+  it('normalises a valid summary and drops unknown fields', () => {
+    expect(validateClinicalSummary(validArgs)).toEqual({
+      chiefComplaint: 'Headache',
+      history: 'Started yesterday morning, throbbing, 6/10.',
+      medications: [
+        { name: 'Ibuprofen', dose: '400 mg', frequency: 'twice daily' },
+        { name: 'Lisinopril' },
+      ],
+      allergies: ['Penicillin'],
+      vitals: { bloodPressure: '128/82' },
+      redFlags: [],
+    });
+  });
+
+  it('reports every problem at once', () => {
+    const call = () =>
+      validateClinicalSummary({
+        ...validArgs,
+        chiefComplaint: '',
+        medications: [{ dose: '5 mg' }],
+        allergies: 'none',
+        vitals: { heartRate: 72 },
+      });
+
+    expect(call).toThrow(ClinicalSummaryValidationError);
+    try {
+      call();
+    } catch (error) {
+      expect((error as ClinicalSummaryValidationError).issues).toEqual([
+        'medications[0].name is required.',
+        'vitals.heartRate must be a string.',
+        'chiefComplaint is required.',
+        'allergies must be a list of strings.',
+      ]);
+    }
+  });
+
+  it('rejects arguments that are not an object', () => {
+    expect(() => validateClinicalSummary(undefined)).toThrow(
+      /must be an object/,
+    );
+  });
+});
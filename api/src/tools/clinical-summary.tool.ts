@@ -0,0 +1,48 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { AuditService } from '../audit/audit.service';
+import { SESSION_REPOSITORY } from '../sessions/session-repository';
+import type { SessionRepository } from '../sessions/session-repository';
+import {
+  CLINICAL_SUMMARY_PARAMETERS,
+  CLINICAL_SUMMARY_TOOL_NAME,
+  validateClinicalSummary,
+} from './clinical-summary';
+import { LiveTool } from './live-tool';
+import type { LiveToolContext } from './live-tool';
+
+@Injectable()
+export class ClinicalSummaryTool {
+  constructor(
+    @Inject(SESSION_REPOSITORY)
+    private readonly sessions: SessionRepository,
+    private readonly audit: AuditService,
+  ) {}
+
+  /**
+   * Validates the submitted summary, stores it with the session and pushes
+   * it to the client as `summary-ready`.
+   */
+  @LiveTool({
+    name: CLINICAL_SUMMARY_TOOL_NAME,
+    description:
+      'Submit the structured clinical summary once the intake conversation is complete. ' +
+      'Call it exactly once, after confirming the details with the patient.',
+    parameters: CLINICAL_SUMMARY_PARAMETERS,
+    label: 'Submitting the clinical summary',
+  })
+  async submit(args: Record<string, unknown>, context: LiveToolContext) {
+    const summary = validateClinicalSummary(args);
+    const submittedAt = new Date().toISOString();
+    await this.sessions.setSummary(context.sessionId, {
+      ...summary,
+      submittedAt,
+    });
+    void this.audit.record({
+      action: 'summary.submitted',
+      actor: context.userId,
+      sessionId: context.sessionId,
+    });
+    context.emit('summary-ready', { summary, submittedAt });
+    return { status: 'accepted' };
+  }
+}
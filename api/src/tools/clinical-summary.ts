@@ -0,0 +1,192 @@
+import { Schema, Type } from '@google/genai';
+import type {
+  ClinicalSummary,
+  Medication,
+  Vitals,
+} from '../protocol/socket-protocol';
+import { ToolCallError } from './live-tool';
+
+export const CLINICAL_SUMMARY_TOOL_NAME = 'submit_clinical_summary';
+
+export type { ClinicalSummary, Medication, Vitals };
+
+const VITAL_NAMES: (keyof Vitals)[] = [
+  'bloodPressure',
+  'heartRate',
+  'temperature',
+  'respiratoryRate',
+  'oxygenSaturation',
+  'weight',
+];
+
+const stringList = (description: string) => ({
+  type: Type.ARRAY,
+  description,
+  items: { type: Type.STRING },
+});
+
+/**
+ * Parameters of the `submit_clinical_summary` tool.
+ */
+export const CLINICAL_SUMMARY_PARAMETERS: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    chiefComplaint: {
+      type: Type.STRING,
+      description: 'The main reason for the visit, in the patient’s words.',
+    },
+    history: {
+      type: Type.STRING,
+      description:
+        'History of the present illness: onset, duration, severity and relevant context.',
+    },
+    medications: {
+      type: Type.ARRAY,
+      description: 'Medications the patient currently takes.',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          dose: { type: Type.STRING },
+          frequency: { type: Type.STRING },
+        },
+        required: ['name'],
+      },
+    },
+    allergies: stringList('Known allergies. Empty if none.'),
+    vitals: {
+      type: Type.OBJECT,
+      description: 'Vital signs mentioned during the intake, as free text.',
+      properties: Object.fromEntries(
+        VITAL_NAMES.map((name) => [name, { type: Type.STRING }]),
+      ),
+    },
+    redFlags: stringList('Findings that need urgent attention. Empty if none.'),
+  },
+  required: [
+    'chiefComplaint',
+    'history',
+    'medications',
+    'allergies',
+    'vitals',
+    'redFlags',
+  ],
+};
+
+export class ClinicalSummaryValidationError extends ToolCallError {
+  constructor(readonly issues: string[]) {
+    super(`Invalid clinical summary: ${issues.join(' ')}`, issues);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(
+  value: unknown,
+  field: string,
+  issues: string[],
+): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    issues.push(`${field} must be a string.`);
+    return undefined;
+  }
+  return value.trim();
+}
+
+function requiredString(
+  value: unknown,
+  field: string,
+  issues: string[],
+): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    issues.push(`${field} is required.`);
+    return '';
+  }
+  return value.trim();
+}
+
+function stringArray(value: unknown, field: string, issues: string[]) {
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    issues.push(`${field} must be a list of strings.`);
+    return [];
+  }
+  return (value as string[]).map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * Checks the arguments of a `submit_clinical_summary` call against the
+ * declared schema (the model does not always honour it) and normalises them.
+ * Unknown fields are dropped.
+ *
+ * @throws ClinicalSummaryValidationError listing every problem found.
+ */
+export function validateClinicalSummary(args: unknown): ClinicalSummary {
+  if (!isObject(args)) {
+    throw new ClinicalSummaryValidationError(['Arguments must be an object.']);
+  }
+  const issues: string[] = [];
+
+  let medications: Medication[] = [];
+  if (!Array.isArray(args.medications)) {
+    issues.push('medications must be a list.');
+  } else {
+    medications = args.medications.map((item: unknown, index) => {
+      const field = `medications[${index}]`;
+      if (!isObject(item)) {
+        issues.push(`${field} must be an object.`);
+        return { name: '' };
+      }
+      const medication: Medication = {
+        name: requiredString(item.name, `${field}.name`, issues),
+      };
+      const dose = optionalString(item.dose, `${field}.dose`, issues);
+      const frequency = optionalString(
+        item.frequency,
+        `${field}.frequency`,
+        issues,
+      );
+      if (dose) {
+        medication.dose = dose;
+      }
+      if (frequency) {
+        medication.frequency = frequency;
+      }
+      return medication;
+    });
+  }
+
+  const vitals: Vitals = {};
+  if (!isObject(args.vitals)) {
+    issues.push('vitals must be an object.');
+  } else {
+    for (const name of VITAL_NAMES) {
+      const value = optionalString(args.vitals[name], `vitals.${name}`, issues);
+      if (value) {
+        vitals[name] = value;
+      }
+    }
+  }
+
+  const summary: ClinicalSummary = {
+    chiefComplaint: requiredString(
+      args.chiefComplaint,
+      'chiefComplaint',
+      issues,
+    ),
+    history: requiredString(args.history, 'history', issues),
+    medications,
+    allergies: stringArray(args.allergies, 'allergies', issues),
+    vitals,
+    redFlags: stringArray(args.redFlags, 'redFlags', issues),
+  };
+
+  if (issues.length) {
+    throw new ClinicalSummaryValidationError(issues);
+  }
+  return summary;
+}
@@ -0,0 +1,76 @@
+import { Injectable } from '@nestjs/common';
+import { Type } from '@google/genai';
+import { ChecklistService } from '../checklist/checklist.service';
+import type { ChecklistProgressPayload } from '../checklist/intake-checklist';
+import { LiveTool, ToolCallError } from './live-tool';
+import type { LiveToolContext } from './live-tool';
+
+export const CHECKLIST_TOOL_NAME = 'mark_checklist_item';
+
+@Injectable()
+export class IntakeChecklistTool {
+  constructor(private readonly checklist: ChecklistService) {}
+
+  /**
+   * Marks intake topics as covered and pushes the new coverage to the
+   * client as `checklist-progress`. Unknown topics are refused with the
+   * list of known ones, so the model can correct itself.
+   */
+  @LiveTool({
+    name: CHECKLIST_TOOL_NAME,
+    description:
+      'Record that intake topics have been fully discussed with the patient, ' +
+      'e.g. "allergies", "current-medications", "symptom-onset" or "pain-scale". ' +
+      'The result lists the required topics still missing.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        topics: {
+          type: Type.ARRAY,
+          description: 'Ids or names of the topics covered.',
+          items: { type: Type.STRING },
+        },
+      },
+      required: ['topics'],
+    },
+    label: 'Updating the intake checklist',
+  })
+  mark(args: Record<string, unknown>, context: LiveToolContext) {
+    const { topics } = args;
+    if (
+      !Array.isArray(topics) ||
+      !topics.every((topic) => typeof topic === 'string')
+    ) {
+      throw new ToolCallError('topics must be an array of strings.');
+    }
+
+    let progress: ChecklistProgressPayload | null = null;
+    const unknown: string[] = [];
+    for (const topic of topics) {
+      const result = this.checklist.markCovered(
+        context.sessionId,
+        topic,
+        'tool',
+      );
+      if (result === 'unknown') {
+        unknown.push(topic);
+      } else {
+        progress = result ?? progress;
+      }
+    }
+    if (progress) {
+      context.emit('checklist-progress', progress);
+    }
+    if (unknown.length > 0) {
+      throw new ToolCallError(
+        `Unknown checklist topics: ${unknown.join(', ')}.`,
+        { unknown, knownTopics: this.checklist.itemIds },
+      );
+    }
+    return {
+      status: 'recorded',
+      missingRequired:
+        this.checklist.getProgress(context.sessionId)?.missingRequired ?? [],
+    };
+  }
+}
@@ -0,0 +1,60 @@
+import { DiscoveryService } from '@nestjs/core';
+import { Schema } from '@google/genai';
+import type { ServerEventEmitter } from '../protocol/socket-protocol';
+
+/**
+ * How long a tool may run before the model is told it timed out.
+ */
+export const DEFAULT_TOOL_TIMEOUT_MS = 10000;
+
+export interface LiveToolOptions {
+  /** Function name the model calls, e.g. `submit_clinical_summary`. */
+  name: string;
+  description: string;
+  /** JSON schema of the call arguments, in the subset Gemini accepts. */
+  parameters?: Schema;
+  /** Progress text shown to the user while the tool runs. */
+  label?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * What a tool handler knows about the call it is serving.
+ */
+export interface LiveToolContext {
+  sessionId: string;
+  /** The user who owns the session. */
+  userId: string;
+  /** Aborted when the model cancels the call, it times out or the session ends. */
+  signal: AbortSignal;
+  /** Sends an event to the client that owns the session. */
+  emit: ServerEventEmitter<Buffer>;
+}
+
+/**
+ * Tool handlers receive the model's arguments unchecked and resolve with the
+ * output returned to the model.
+ */
+export type LiveToolHandler = (
+  args: Record<string, unknown>,
+  context: LiveToolContext,
+) => unknown;
+
+/**
+ * Marks a provider method as a tool the live model may call. Providers must be
+ * registered in {@link ToolsModule} for the {@link ToolRegistry} to find them.
+ */
+export const LiveTool = DiscoveryService.createDecorator<LiveToolOptions>();
+
+/**
+ * Thrown by a handler to report a problem the model can act on. `details` (or
+ * the message) is returned to the model as the call's error.
+ */
+export class ToolCallError extends Error {
+  constructor(
+    message: string,
+    readonly details?: unknown,
+  ) {
+    super(message);
+  }
+}
@@ -0,0 +1,135 @@
+import { FunctionResponse } from '@google/genai';
+import { DiscoveryService, MetadataScanner } from '@nestjs/core';
+import { ToolCallError } from './live-tool';
+import { ToolCallEvent, ToolCallRunner } from './tool-call-runner';
+import { ToolRegistry } from './tool-registry.service';
+
+describe('ToolCallRunner', () => {
+  let registry: ToolRegistry;
+  let runner: ToolCallRunner;
+  let responses: FunctionResponse[];
+  let events: ToolCallEvent[];
+
+  beforeEach(() => {
+    registry = new ToolRegistry({} as DiscoveryService, new MetadataScanner());
+    responses = [];
+    events = [];
+    runner = new ToolCallRunner(registry, {
+      sessionId: 'session-1',
+      userId: 'user-1',
+      emit: (event, payload) => {
+        if (event === 'tool-call') {
+          events.push(payload as ToolCallEvent);
+        }
+      },
+      respond: (response) => responses.push(response),
+    });
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('answers with the handler output and reports progress', async () => {
+    registry.register(
+      { name: 'echo', description: 'Echo.', label: 'Echoing' },
+      (args) => ({ said: args.text }),
+    );
+
+    await runner.run([{ id: 'call-1', name: 'echo', args: { text: 'hi' } }]);
+
+    expect(responses).toEqual([
+      { id: 'call-1', name: 'echo', response: { output: { said: 'hi' } } },
+    ]);
+    expect(events.map((event) => event.status)).toEqual([
+      'running',
+      'succeeded',
+    ]);
+    expect(events[0]).toEqual({
+      id: 'call-1',
+      name: 'echo',
+      label: 'Echoing',
+      status: 'running',
+    });
+  });
+
+  it('returns tool errors and hides unexpected ones', async () => {
+    registry.register({ name: 'picky', description: 'Picky.' }, () => {
+      throw new ToolCallError('Bad arguments.', ['name is required.']);
+    });
+    registry.register({ name: 'broken', description: 'Broken.' }, () =>
+      Promise.reject(new Error('database password is wrong')),
+    );
+
+    await runner.run([
+      { id: 'call-1', name: 'picky', args: {} },
+      { id: 'call-2', name: 'broken', args: {} },
+      { id: 'call-3', name: 'missing', args: {} },
+    ]);
+
+    expect(responses).toEqual([
+      {
+        id: 'call-3',
+        name: 'missing',
+        response: { error: 'Unknown function "missing".' },
+      },
+      {
+        id: 'call-1',
+        name: 'picky',
+        response: { error: ['name is required.'] },
+      },
+      {
+        id: 'call-2',
+        name: 'broken',
+        response: { error: 'Tool "broken" failed.' },
+      },
+    ]);
+    expect(events.filter((event) => event.status === 'failed')).toHaveLength(2);
+  });
+
+  it('times out slow tools and aborts them', async () => {
+    jest.useFakeTimers();
+    let signal: AbortSignal | undefined;
+    registry.register(
+      { name: 'slow', description: 'Slow.', timeoutMs: 1000 },
+      (_args, context) => {
+        signal = context.signal;
+        return new Promise(() => {});
+      },
+    );
+
+    const done = runner.run([{ id: 'call-1', name: 'slow', args: {} }]);
+    await jest.advanceTimersByTimeAsync(1000);
+    await done;
+
+    expect(signal?.aborted).toBe(true);
+    expect(responses).toEqual([
+      {
+        id: 'call-1',
+        name: 'slow',
+        response: { error: 'Tool "slow" timed out after 1000 ms.' },
+      },
+    ]);
+  });
+
+  it('drops cancelled calls without answering them', async () => {
+    registry.register(
+      { name: 'slow', description: 'Slow.' },
+      () => new Promise(() => {}),
+    );
+
+    const done = runner.run([
+      { id: 'call-1', name: 'slow', args: {} },
+      { id: 'call-2', name: 'slow', args: {} },
+    ]);
+    runner.cancel(['call-1']);
+    runner.cancelAll();
+    await done;
+
+    expect(responses).toEqual([]);
+    expect(events.map((event) => `${event.id}:${event.status}`)).toEqual([
+      'call-1:running',
+      'call-2:running',
+      'call-1:cancelled',
+      'call-2:cancelled',
+    ]);
+  });
+});
@@ -0,0 +1,159 @@
+import { Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { FunctionCall, FunctionResponse } from '@google/genai';
+import type {
+  ServerEventEmitter,
+  ToolCallEvent,
+  ToolCallStatus,
+} from '../protocol/socket-protocol';
+import { ToolCallError } from './live-tool';
+import { RegisteredTool, ToolRegistry } from './tool-registry.service';
+
+export type { ToolCallEvent, ToolCallStatus };
+
+export interface ToolCallRunnerOptions {
+  sessionId: string;
+  userId: string;
+  emit: ServerEventEmitter<Buffer>;
+  respond: (response: FunctionResponse) => void;
+}
+
+class ToolTimeoutError extends Error {}
+class ToolCancelledError extends Error {}
+
+function untilAborted<T>(work: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason as Error);
+    signal.addEventListener('abort', onAbort, { once: true });
+    work
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Runs the tool calls of one live session. Calls run concurrently and each is
+ * answered on its own as soon as it settles: with the handler's output, with
+ * an error (unknown tool, {@link ToolCallError}, failure or timeout), or not
+ * at all when the model cancelled it.
+ */
+export class ToolCallRunner {
+  private readonly logger = new Logger(ToolCallRunner.name);
+  private readonly pending = new Map<string, AbortController>();
+
+  constructor(
+    private readonly registry: ToolRegistry,
+    private readonly options: ToolCallRunnerOptions,
+  ) {}
+
+  run(calls: FunctionCall[]): Promise<void> {
+    return Promise.all(calls.map((call) => this.runCall(call))).then(
+      () => undefined,
+    );
+  }
+
+  /**
+   * Handles `toolCallCancellation`: the model no longer wants these results.
+   */
+  cancel(ids: string[]) {
+    for (const id of ids) {
+      this.pending.get(id)?.abort(new ToolCancelledError());
+    }
+  }
+
+  cancelAll() {
+    this.cancel([...this.pending.keys()]);
+  }
+
+  private async runCall(call: FunctionCall): Promise<void> {
+    const tool = this.registry.get(call.name);
+    const reply = (response: Record<string, unknown>) =>
+      this.options.respond({ id: call.id, name: call.name, response });
+
+    if (!tool) {
+      this.logger.warn(
+        `Model called unknown function "${call.name}" in session ${this.options.sessionId}.`,
+      );
+      reply({ error: `Unknown function "${call.name}".` });
+      return;
+    }
+
+    const id = call.id ?? randomUUID();
+    const controller = new AbortController();
+    const timer = setTimeout(
+      () =>
+        controller.abort(
+          new ToolTimeoutError(
+            `Tool "${tool.name}" timed out after ${tool.timeoutMs} ms.`,
+          ),
+        ),
+      tool.timeoutMs,
+    );
+    this.pending.set(id, controller);
+    this.notify(id, tool, 'running');
+
+    try {
+      const output = await untilAborted(
+        Promise.resolve().then(() =>
+          tool.handler(call.args ?? {}, {
+            sessionId: this.options.sessionId,
+            userId: this.options.userId,
+            signal: controller.signal,
+            emit: this.options.emit,
+          }),
+        ),
+        controller.signal,
+      );
+      this.notify(id, tool, 'succeeded');
+      reply({ output });
+    } catch (error) {
+      if (error instanceof ToolCancelledError) {
+        this.notify(id, tool, 'cancelled');
+        return;
+      }
+      const message = this.describeFailure(tool, error);
+      this.notify(id, tool, 'failed', message);
+      reply({
+        error:
+          error instanceof ToolCallError ? (error.details ?? message) : message,
+      });
+    } finally {
+      clearTimeout(timer);
+      this.pending.delete(id);
+    }
+  }
+
+  private describeFailure(tool: RegisteredTool, error: unknown): string {
+    if (error instanceof ToolCallError || error instanceof ToolTimeoutError) {
+      this.logger.warn(
+        `Tool "${tool.name}" failed in session ${this.options.sessionId}: ${error.message}`,
+      );
+      return error.message;
+    }
+    // Unexpected errors stay in the server log; the model only learns that
+    // the tool failed.
+    this.logger.error(
+      `Tool "${tool.name}" threw in session ${this.options.sessionId}:`,
+      error,
+    );
+    return `Tool "${tool.name}" failed.`;
+  }
+
+  private notify(
+    id: string,
+    tool: RegisteredTool,
+    status: ToolCallStatus,
+    error?: string,
+  ) {
+    const event: ToolCallEvent = {
+      id,
+      name: tool.name,
+      label: tool.label,
+      status,
+    };
+    if (error) {
+      event.error = error;
+    }
+    this.options.emit('tool-call', event);
+  }
+}
@@ -0,0 +1,89 @@
+import { Injectable } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { Type } from '@google/genai';
+import { DEFAULT_TOOL_TIMEOUT_MS, LiveTool } from './live-tool';
+import { ToolRegistry } from './tool-registry.service';
+
+@Injectable()
+class MedicationTools {
+  private readonly formulary = ['ibuprofen', 'lisinopril'];
+
+  @LiveTool({
+    name: 'lookup_medication',
+    description: 'Checks whether a medication is on the formulary.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { name: { type: Type.STRING } },
+      required: ['name'],
+    },
+    label: 'Looking up medications',
+    timeoutMs: 500,
+  })
+  lookup(args: Record<string, unknown>) {
+    return { known: this.formulary.includes(String(args.name)) };
+  }
+
+  notATool() {
+    return 'ignored';
+  }
+}
+
+describe('ToolRegistry', () => {
+  let registry: ToolRegistry;
+
+  beforeEach(async () => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [DiscoveryModule],
+      providers: [ToolRegistry, MedicationTools],
+    }).compile();
+    await moduleRef.init();
+    registry = moduleRef.get(ToolRegistry);
+  });
+
+  it('collects decorated provider methods as declarations', () => {
+    expect(registry.getDeclarations()).toEqual([
+      {
+        name: 'lookup_medication',
+        description: 'Checks whether a medication is on the formulary.',
+        parameters: {
+          type: Type.OBJECT,
+          properties: { name: { type: Type.STRING } },
+          required: ['name'],
+        },
+      },
+    ]);
+  });
+
+  it('binds handlers to their provider', async () => {
+    const tool = registry.get('lookup_medication');
+
+    expect(tool).toMatchObject({
+      label: 'Looking up medications',
+      timeoutMs: 500,
+    });
+    expect(
+      await tool?.handler(
+        { name: 'ibuprofen' },
+        {
+          sessionId: 's',
+          userId: 'u',
+          signal: new AbortController().signal,
+          emit() {},
+        },
+      ),
+    ).toEqual({ known: true });
+  });
+
+  it('fills in defaults and rejects duplicate names', () => {
+    registry.register({ name: 'ping', description: 'Ping.' }, () => 'pong');
+
+    expect(registry.get('ping')).toMatchObject({
+      label: 'ping',
+      timeoutMs: DEFAULT_TOOL_TIMEOUT_MS,
+    });
+    expect(() =>
+      registry.register({ name: 'ping', description: 'Ping.' }, () => 'pong'),
+    ).toThrow(/declared twice/);
+  });
+});
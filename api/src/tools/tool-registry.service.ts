@@ -0,0 +1,78 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService, MetadataScanner } from '@nestjs/core';
+import { FunctionDeclaration } from '@google/genai';
+import {
+  DEFAULT_TOOL_TIMEOUT_MS,
+  LiveTool,
+  LiveToolHandler,
+  LiveToolOptions,
+} from './live-tool';
+
+export interface RegisteredTool {
+  name: string;
+  label: string;
+  timeoutMs: number;
+  declaration: FunctionDeclaration;
+  handler: LiveToolHandler;
+}
+
+/**
+ * Collects every {@link LiveTool} method at startup. The declarations are sent
+ * to the model when a session opens and calls are looked up here by name.
+ */
+@Injectable()
+export class ToolRegistry implements OnModuleInit {
+  private readonly logger = new Logger(ToolRegistry.name);
+  private readonly tools = new Map<string, RegisteredTool>();
+
+  constructor(
+    private readonly discovery: DiscoveryService,
+    private readonly metadataScanner: MetadataScanner,
+  ) {}
+
+  onModuleInit() {
+    for (const wrapper of this.discovery.getProviders()) {
+      const instance: unknown = wrapper.instance;
+      if (!instance || typeof instance !== 'object' || wrapper.isAlias) {
+        continue;
+      }
+      const prototype = Object.getPrototypeOf(instance) as object;
+      for (const method of this.metadataScanner.getAllMethodNames(prototype)) {
+        const options = this.discovery.getMetadataByDecorator(
+          LiveTool,
+          wrapper,
+          method,
+        );
+        if (options) {
+          const handler = (instance as Record<string, LiveToolHandler>)[method];
+          this.register(options, handler.bind(instance) as LiveToolHandler);
+        }
+      }
+    }
+    this.logger.log(
+      `Registered ${this.tools.size} live tool(s): ${[...this.tools.keys()].join(', ')}`,
+    );
+  }
+
+  register(options: LiveToolOptions, handler: LiveToolHandler) {
+    if (this.tools.has(options.name)) {
+      throw new Error(`Live tool "${options.name}" is declared twice.`);
+    }
+    const { name, description, parameters } = options;
+    this.tools.set(name, {
+      name,
+      label: options.label ?? name,
+      timeoutMs: options.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS,
+      declaration: { name, description, parameters },
+      handler,
+    });
+  }
+
+  get(name: string | undefined): RegisteredTool | undefined {
+    return name === undefined ? undefined : this.tools.get(name);
+  }
+
+  getDeclarations(): FunctionDeclaration[] {
+    return [...this.tools.values()].map((tool) => tool.declaration);
+  }
+}
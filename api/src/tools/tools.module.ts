@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { AuditModule } from '../audit/audit.module';
+import { ChecklistModule } from '../checklist/checklist.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { ClinicalSummaryTool } from './clinical-summary.tool';
+import { IntakeChecklistTool } from './intake-checklist.tool';
+import { ToolRegistry } from './tool-registry.service';
+
+/**
+ * Live tools are plain providers with {@link LiveTool} methods; add new ones
+ * to `providers` here.
+ */
+@Module({
+  imports: [AuditModule, ChecklistModule, DiscoveryModule, SessionsModule],
+  providers: [ToolRegistry, ClinicalSummaryTool, IntakeChecklistTool],
+  exports: [ToolRegistry],
+})
+export class ToolsModule {}
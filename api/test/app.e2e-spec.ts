@@ -1,6 +1,9 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { INestApplication } from '@nestjs/common';
-import * as request from 'supertest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import request from 'supertest';
 import { App } from 'supertest/types';
 import { AppModule } from './../src/app.module';
 
@@ -8,6 +11,9 @@ describe('AppController (e2e)', () => {
   let app: INestApplication<App>;
 
   beforeEach(async () => {
+    process.env.LIVE_MODEL_PROVIDER = 'mock';
+    process.env.SESSION_STORE = 'memory';
+    process.env.AUTH_MODE = 'none';
     const moduleFixture: TestingModule = await Test.createTestingModule({
       imports: [AppModule],
     }).compile();
@@ -16,10 +22,87 @@ describe('AppController (e2e)', () => {
     await app.init();
   });
 
+  afterEach(async () => {
+    await app.close();
+  });
+
   it('/ (GET)', () => {
     return request(app.getHttpServer())
       .get('/')
       .expect(200)
       .expect('Hello World!');
   });
+
+  it('/health/live (GET)', () => {
+    return request(app.getHttpServer())
+      .get('/health/live')
+      .expect(200)
+      .expect({ status: 'ok' });
+  });
+
+  it('/health/ready (GET)', () => {
+    return request(app.getHttpServer())
+      .get('/health/ready')
+      .expect(200)
+      .expect({
+        status: 'ok',
+        checks: { provider: { status: 'ok' }, storage: { status: 'ok' } },
+      });
+  });
+
+  it('/health/ready (GET) with unusable session storage', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'health-'));
+    const blocked = join(directory, 'sessions');
+    await writeFile(blocked, '');
+    process.env.SESSION_STORE = 'file';
+    process.env.SESSION_STORE_DIR = blocked;
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+    const fileApp =
+      moduleFixture.createNestApplication<INestApplication<App>>();
+    await fileApp.init();
+    try {
+      const response = await request(fileApp.getHttpServer())
+        .get('/health/ready')
+        .expect(503);
+      expect(response.body).toEqual({
+        status: 'error',
+        checks: {
+          provider: { status: 'ok' },
+          storage: {
+            status: 'error',
+            message: expect.stringMatching(/EEXIST/) as string,
+          },
+        },
+      });
+    } finally {
+      await fileApp.close();
+      delete process.env.SESSION_STORE_DIR;
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('refuses to start with a malformed reattach grace period', async () => {
+    process.env.SESSION_REATTACH_GRACE_MS = '30s';
+    try {
+      await expect(
+        Test.createTestingModule({ imports: [AppModule] }).compile(),
+      ).rejects.toThrow(
+        'SESSION_REATTACH_GRACE_MS must be a non-negative integer, got "30s".',
+      );
+    } finally {
+      delete process.env.SESSION_REATTACH_GRACE_MS;
+    }
+  });
+
+  it('/metrics (GET)', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/metrics')
+      .expect(200);
+
+    expect(response.headers['content-type']).toMatch(/^text\/plain/);
+    expect(response.text).toContain('# TYPE live_sessions gauge');
+    expect(response.text).toContain('# TYPE process_cpu_seconds_total counter');
+  });
 });
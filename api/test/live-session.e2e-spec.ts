@@ -0,0 +1,812 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { mkdtemp, rm } from 'fs/promises';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { io, Socket } from 'socket.io-client';
+import { SignJWT } from 'jose';
+import request from 'supertest';
+import { AppModule } from './../src/app.module';
+import type { AuditEntry } from './../src/audit/audit-chain';
+import { PROTOCOL_VERSION } from './../src/protocol/socket-protocol';
+import type {
+  ChecklistProgressPayload,
+  HandshakeAuth,
+  SessionConfig,
+} from './../src/protocol/socket-protocol';
+import { SessionRecord } from './../src/sessions/session-repository';
+
+const JWT_SECRET = 'e2e-secret-that-is-long-enough-for-hs256';
+
+const tokenFor = (userId: string) =>
+  new SignJWT({ sub: userId })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setExpirationTime('5m')
+    .sign(new TextEncoder().encode(JWT_SECRET));
+
+describe('AppGateway (e2e)', () => {
+  let app: INestApplication;
+  let client: Socket;
+  let port: number;
+  let token: string;
+  let auditDirectory: string;
+
+  const connect = (auth: HandshakeAuth) =>
+    io(`http://localhost:${port}`, {
+      transports: ['websocket'],
+      auth: { protocolVersion: PROTOCOL_VERSION, ...auth },
+    });
+
+  const nextEvent = <T = unknown>(event: string) =>
+    new Promise<T>((resolve) => client.once(event, resolve));
+
+  const setup = async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.listen(0);
+    const server = app.getHttpServer() as Server;
+    port = (server.address() as AddressInfo).port;
+
+    token = await tokenFor('user-1');
+    client = connect({ token });
+    await nextEvent('connect');
+  };
+
+  beforeEach(async () => {
+    process.env.LIVE_MODEL_PROVIDER = 'mock';
+    process.env.MOCK_LIVE_SCRIPT = 'default';
+    process.env.SESSION_STORE = 'memory';
+    process.env.AUTH_MODE = 'jwt';
+    process.env.JWT_SECRET = JWT_SECRET;
+    auditDirectory = await mkdtemp(join(tmpdir(), 'audit-'));
+    process.env.AUDIT_LOG_PATH = join(auditDirectory, 'audit.jsonl');
+    process.env.AUDIT_READERS = 'auditor';
+    process.env.TEMPLATE_STORE = 'memory';
+    process.env.TEMPLATE_EDITORS = 'editor';
+    await setup();
+  });
+
+  afterEach(async () => {
+    client.disconnect();
+    await app.close();
+    await rm(auditDirectory, { recursive: true, force: true });
+    for (const name of Object.keys(process.env)) {
+      if (name.startsWith('QUOTA_') || name.startsWith('RECORDING_')) {
+        delete process.env[name];
+      }
+    }
+  });
+
+  /** Restarts the app with extra configuration. */
+  const restartWith = async (env: Record<string, string>) => {
+    Object.assign(process.env, env);
+    client.disconnect();
+    await app.close();
+    await setup();
+  };
+
+  it('streams audio with an output transcription', async () => {
+    const started = nextEvent('session-started');
+    client.emit('start-session');
+    await started;
+
+    const audio = nextEvent<{ audio: { mimeType: string } }>('audio-part');
+    const transcription = nextEvent<{ text: string }>('output-transcription');
+    client.emit('send-text', { text: 'hello' });
+
+    expect((await audio).audio.mimeType).toBe('audio/pcm;rate=24000');
+    expect((await transcription).text).toBe('Hello, I am the mock assistant. ');
+  });
+
+  it('answers text-only sessions with text parts', async () => {
+    const started = nextEvent('session-started');
+    client.emit('start-session', { responseModality: 'TEXT' });
+    await started;
+
+    const texts: string[] = [];
+    client.on('text-part', ({ text }: { text: string }) => texts.push(text));
+    const turnComplete = nextEvent('turn-complete');
+    client.emit('send-text', { text: 'hello' });
+    await turnComplete;
+
+    expect(texts).toEqual([
+      'Hello, I am the mock assistant. ',
+      'What brings you in today?',
+    ]);
+  });
+
+  it('sends the final transcript before the turn completes', async () => {
+    const started = nextEvent('session-started');
+    client.emit('start-session');
+    await started;
+
+    const events: string[] = [];
+    client.onAny((event: string) => events.push(event));
+    const final = nextEvent<{ role: string; text: string }>('transcript-final');
+    const turnComplete = nextEvent('turn-complete');
+    client.emit('send-text', { text: 'hello' });
+    await turnComplete;
+
+    expect(await final).toEqual({
+      role: 'assistant',
+      text: 'Hello, I am the mock assistant. What brings you in today?',
+      interrupted: false,
+    });
+    expect(events.indexOf('transcript-final')).toBeLessThan(
+      events.indexOf('turn-complete'),
+    );
+  });
+
+  it('answers a spoken turn closed by a manual activity signal', async () => {
+    const started = nextEvent('session-started');
+    client.emit('start-session', { activityDetection: 'manual' });
+    await started;
+
+    const userSaid = nextEvent<{ text: string }>('input-transcription');
+    const turnComplete = nextEvent('turn-complete');
+    client.emit('activity-start');
+    client.emit('send-audio-chunk', {
+      data: Buffer.alloc(640).toString('base64'),
+      mimeType: 'audio/pcm;rate=16000',
+    });
+    client.emit('activity-end');
+
+    expect((await userSaid).text).toBe(
+      'Hi, I would like to check in for my appointment.',
+    );
+    await turnComplete;
+  });
+
+  it('records both sides of a session when recording is enabled', async () => {
+    await restartWith({
+      RECORDING_ENABLED: 'true',
+      RECORDING_DIR: join(auditDirectory, 'recordings'),
+    });
+    const started = nextEvent<{ sessionId: string }>('session-started');
+    client.emit('start-session', { activityDetection: 'manual' });
+    const { sessionId } = await started;
+
+    const turnComplete = nextEvent('turn-complete');
+    client.emit('activity-start');
+    client.emit('send-audio-chunk', {
+      data: Buffer.alloc(640).toString('base64'),
+      mimeType: 'audio/pcm;rate=16000',
+    });
+    client.emit('activity-end');
+    await turnComplete;
+    const closed = nextEvent('session-closed');
+    client.emit('end-session');
+    await closed;
+
+    // The files are completed in the background after the session ends
+    const server = app.getHttpServer() as Server;
+    const download = async (track: string) => {
+      for (let attempt = 0; attempt < 20; attempt++) {
+        const response = await request(server)
+          .get(`/sessions/${sessionId}/recording/${track}`)
+          .auth(token, { type: 'bearer' })
+          .buffer(true)
+          .parse((res, callback) => {
+            const chunks: Buffer[] = [];
+            res.on('data', (chunk: Buffer) => chunks.push(chunk));
+            res.on('end', () => callback(null, Buffer.concat(chunks)));
+          });
+        if (response.status !== 404) {
+          return response;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 25));
+      }
+      throw new Error(`No ${track} recording.`);
+    };
+    const input = await download('input');
+    expect(input.status).toBe(200);
+    expect(input.headers['content-type']).toBe('audio/wav');
+    const wav = input.body as Buffer;
+    expect(wav.toString('ascii', 8, 12)).toBe('WAVE');
+    expect(wav.readUInt32LE(24)).toBe(16000);
+    expect((await download('output')).status).toBe(200);
+
+    const otherUser = await tokenFor('user-2');
+    await request(server)
+      .get(`/sessions/${sessionId}/recording/input`)
+      .auth(otherUser, { type: 'bearer' })
+      .expect(404);
+  });
+
+  it('rejects activity signals when the model detects activity', async () => {
+    const started = nextEvent('session-started');
+    client.emit('start-session');
+    await started;
+
+    const error = nextEvent<{ message: string }>('session-error');
+    client.emit('activity-start');
+
+    expect((await error).message).toMatch(/activityDetection "manual"/);
+  });
+
+  it('exchanges audio as binary frames when negotiated', async () => {
+    const started = nextEvent('session-started');
+    client.emit('start-session', {
+      activityDetection: 'manual',
+      audioTransport: 'binary',
+    });
+    await started;
+
+    const base64Parts: unknown[] = [];
+    client.on('audio-part', (part) => base64Parts.push(part));
+    const frame = nextEvent<{ data: Buffer; mimeType: string }>('audio-frame');
+    const turnComplete = nextEvent('turn-complete');
+    client.emit('activity-start');
+    client.emit('send-audio-frame', {
+      data: new Int16Array(320).buffer,
+      mimeType: 'audio/pcm;rate=16000',
+    });
+    client.emit('activity-end');
+
+    const { data, mimeType } = await frame;
+    expect(Buffer.isBuffer(data)).toBe(true);
+    expect(data.length).toBe(24000 * 0.2 * 2);
+    expect(mimeType).toBe('audio/pcm;rate=24000');
+    await turnComplete;
+    expect(base64Parts).toEqual([]);
+  });
+
+  it('exports session metrics for Prometheus', async () => {
+    const started = nextEvent('session-started');
+    client.emit('start-session', { activityDetection: 'manual' });
+    await started;
+
+    const turnComplete = nextEvent('turn-complete');
+    client.emit('activity-start');
+    client.emit('send-audio-frame', {
+      data: Buffer.alloc(640),
+      mimeType: 'audio/pcm;rate=16000',
+    });
+    client.emit('activity-end');
+    await turnComplete;
+
+    const server = app.getHttpServer() as Server;
+    const open = await request(server).get('/metrics').expect(200);
+    expect(open.headers['content-type']).toMatch(/^text\/plain/);
+    expect(open.text).toContain('socket_connections 1');
+    expect(open.text).toContain('live_sessions 1');
+    expect(open.text).toContain('audio_bytes_total{direction="in"} 640');
+    expect(open.text).toMatch(/audio_bytes_total\{direction="out"\} [1-9]/);
+    expect(open.text).toContain(
+      'socket_messages_total{direction="in",event="send-audio-frame"} 1',
+    );
+    expect(open.text).toMatch(
+      /socket_messages_total\{direction="out",event="turn-complete"\} 1/,
+    );
+    expect(open.text).toMatch(/model_tokens_total\{kind="total"\} [1-9]/);
+    expect(open.text).toContain('time_to_first_audio_seconds_count 1');
+
+    const closed = nextEvent('session-closed');
+    client.emit('end-session');
+    await closed;
+    const ended = await request(server).get('/metrics').expect(200);
+    expect(ended.text).toContain('live_sessions 0');
+    expect(ended.text).toContain('live_session_duration_seconds_count 1');
+  });
+
+  it('rejects malformed binary audio frames', async () => {
+    const started = nextEvent('session-started');
+    client.emit('start-session');
+    await started;
+
+    const error = nextEvent<{ message: string }>('session-error');
+    client.emit('send-audio-frame', {
+      data: new Uint8Array(3).buffer,
+      mimeType: 'audio/pcm;rate=16000',
+    });
+
+    expect((await error).message).toMatch(/whole 16-bit samples/);
+  });
+
+  it('rejects base64 audio chunks larger than a binary frame', async () => {
+    const started = nextEvent('session-started');
+    client.emit('start-session');
+    await started;
+
+    const error = nextEvent<{ message: string }>('session-error');
+    client.emit('send-audio-chunk', {
+      data: Buffer.alloc(32002).toString('base64'),
+      mimeType: 'audio/pcm;rate=16000',
+    });
+
+    expect((await error).message).toBe(
+      'Invalid payload: data must be shorter than or equal to 42668 characters.',
+    );
+  });
+
+  it('records the transcript of a session for the history API', async () => {
+    const started = nextEvent<{ sessionId: string }>('session-started');
+    client.emit('start-session', { responseModality: 'TEXT' });
+    const { sessionId } = await started;
+
+    const turnComplete = nextEvent('turn-complete');
+    client.emit('send-text', { text: 'hello' });
+    await turnComplete;
+    const closed = nextEvent('session-closed');
+    client.emit('end-session');
+    await closed;
+
+    const server = app.getHttpServer() as Server;
+    const list = await request(server)
+      .get('/sessions')
+      .auth(token, { type: 'bearer' })
+      .expect(200);
+    expect(list.body).toEqual([
+      expect.objectContaining({ id: sessionId, status: 'ended', turnCount: 2 }),
+    ]);
+
+    const session = await request(server)
+      .get(`/sessions/${sessionId}`)
+      .auth(token, { type: 'bearer' })
+      .expect(200);
+    expect((session.body as SessionRecord).turns).toEqual([
+      expect.objectContaining({ role: 'user', text: 'hello' }),
+      expect.objectContaining({
+        role: 'assistant',
+        text: 'Hello, I am the mock assistant. What brings you in today?',
+      }),
+    ]);
+
+    const otherUser = await tokenFor('user-2');
+    await request(server)
+      .get(`/sessions/${sessionId}`)
+      .auth(otherUser, { type: 'bearer' })
+      .expect(404);
+    await request(server).get('/sessions').expect(401);
+
+    await request(server)
+      .delete(`/sessions/${sessionId}`)
+      .auth(token, { type: 'bearer' })
+      .expect(204);
+    await request(server)
+      .get(`/sessions/${sessionId}`)
+      .auth(token, { type: 'bearer' })
+      .expect(404);
+    await request(server)
+      .get('/sessions/not-a-uuid')
+      .auth(token, { type: 'bearer' })
+      .expect(400);
+  });
+
+  it('tracks coverage of the intake checklist', async () => {
+    let progress = nextEvent<ChecklistProgressPayload>('checklist-progress');
+    client.emit('start-session', { responseModality: 'TEXT' });
+    expect((await progress).missingRequired).toContain('allergies');
+
+    progress = nextEvent<ChecklistProgressPayload>('checklist-progress');
+    client.emit('send-text', { text: 'I am allergic to penicillin.' });
+    const { items, missingRequired } = await progress;
+    expect(items).toContainEqual(
+      expect.objectContaining({
+        id: 'allergies',
+        covered: true,
+        coveredBy: 'transcript',
+      }),
+    );
+    expect(missingRequired).not.toContain('allergies');
+    await nextEvent('turn-complete');
+
+    // The coverage request is answered but kept out of the transcript
+    const finals: string[] = [];
+    client.on('transcript-final', ({ role }: { role: string }) =>
+      finals.push(role),
+    );
+    const turnComplete = nextEvent('turn-complete');
+    client.emit('cover-checklist');
+    await turnComplete;
+    expect(finals).toEqual(['assistant']);
+  });
+
+  it('audits the session lifecycle for audit readers', async () => {
+    const started = nextEvent<{ sessionId: string }>('session-started');
+    client.emit('start-session', { responseModality: 'TEXT' });
+    const { sessionId } = await started;
+    const closed = nextEvent('session-closed');
+    client.emit('end-session');
+    await closed;
+
+    const server = app.getHttpServer() as Server;
+    await request(server)
+      .get(`/sessions/${sessionId}`)
+      .auth(token, { type: 'bearer' })
+      .expect(200);
+    await request(server)
+      .get('/audit')
+      .auth(token, { type: 'bearer' })
+      .expect(403);
+
+    const auditor = await tokenFor('auditor');
+    const audit = await request(server)
+      .get('/audit')
+      .query({ sessionId })
+      .auth(auditor, { type: 'bearer' })
+      .expect(200);
+    const entries = audit.body as AuditEntry[];
+    expect(entries.map(({ action, actor }) => ({ action, actor }))).toEqual([
+      { action: 'session.started', actor: 'user-1' },
+      { action: 'session.ended', actor: 'user-1' },
+      { action: 'transcript.viewed', actor: 'user-1' },
+    ]);
+    expect(entries[0].details).toMatchObject({
+      model: 'gemini-2.0-flash-live-001',
+    });
+    await request(server)
+      .get('/audit')
+      .query({ from: 'yesterday' })
+      .auth(auditor, { type: 'bearer' })
+      .expect(400);
+  });
+
+  it('emits the submitted clinical summary and stores it', async () => {
+    const started = nextEvent<{ sessionId: string }>('session-started');
+    client.emit('start-session', { responseModality: 'TEXT' });
+    const { sessionId } = await started;
+
+    const summaryReady = nextEvent<{ summary: { chiefComplaint: string } }>(
+      'summary-ready',
+    );
+    const toolCalls: { name: string; status: string }[] = [];
+    client.on('tool-call', (event: { name: string; status: string }) =>
+      toolCalls.push(event),
+    );
+    for (let turn = 0; turn < 3; turn++) {
+      const turnComplete = nextEvent('turn-complete');
+      client.emit('send-text', { text: 'next' });
+      await turnComplete;
+    }
+
+    expect((await summaryReady).summary).toMatchObject({
+      chiefComplaint: 'Headache',
+      allergies: ['Penicillin'],
+    });
+    expect(toolCalls).toEqual([
+      expect.objectContaining({
+        name: 'submit_clinical_summary',
+        status: 'running',
+      }),
+      expect.objectContaining({
+        name: 'submit_clinical_summary',
+        status: 'succeeded',
+      }),
+    ]);
+    const session = await request(app.getHttpServer() as Server)
+      .get(`/sessions/${sessionId}`)
+      .auth(token, { type: 'bearer' })
+      .expect(200);
+    expect((session.body as SessionRecord).summary).toMatchObject({
+      chiefComplaint: 'Headache',
+      submittedAt: expect.any(String) as string,
+    });
+  });
+
+  it('resumes the model session after goAway', async () => {
+    await restartWith({ MOCK_LIVE_SCRIPT: 'go-away' });
+
+    const started = nextEvent('session-started');
+    client.emit('start-session', { responseModality: 'TEXT' });
+    await started;
+
+    const reconnected = nextEvent('session-reconnected');
+    const reconnecting = nextEvent<{ reason: string }>('session-reconnecting');
+    client.emit('send-text', { text: 'hello' });
+    expect((await reconnecting).reason).toMatch(/going away/);
+    await reconnected;
+
+    const text = nextEvent<{ text: string }>('text-part');
+    client.emit('send-text', { text: 'still there?' });
+    expect((await text).text).toBe('Still here after the reconnect.');
+  });
+
+  it('reattaches a reconnecting client to its session', async () => {
+    const started = nextEvent<{ sessionId: string }>('session-started');
+    client.emit('start-session', { responseModality: 'TEXT' });
+    const { sessionId } = await started;
+
+    client.disconnect();
+    client.connect();
+    await nextEvent('connect');
+
+    const resumed = nextEvent<{ sessionId: string; resumed: boolean }>(
+      'session-started',
+    );
+    client.emit('resume-session', { sessionId });
+    expect(await resumed).toMatchObject({ sessionId, resumed: true });
+
+    const turnComplete = nextEvent('turn-complete');
+    client.emit('send-text', { text: 'hello' });
+    await turnComplete;
+  });
+
+  it('refuses to resume another user’s session', async () => {
+    const started = nextEvent<{ sessionId: string }>('session-started');
+    client.emit('start-session');
+    const { sessionId } = await started;
+
+    const intruder = connect({ token: await tokenFor('user-2') });
+    try {
+      const error = new Promise<{ message: string }>((resolve) =>
+        intruder.once('session-error', resolve),
+      );
+      intruder.emit('resume-session', { sessionId });
+      expect((await error).message).toBe('Session not found or already ended.');
+    } finally {
+      intruder.disconnect();
+    }
+  });
+
+  it('refuses sockets without a valid token', async () => {
+    for (const auth of [{}, { token: 'not-a-jwt' }]) {
+      const anonymous = connect(auth);
+      const error = await new Promise<Error & { data?: unknown }>((resolve) =>
+        anonymous.once('connect_error', resolve),
+      );
+      anonymous.disconnect();
+      expect(error.data).toEqual({ code: 'unauthorized' });
+    }
+  });
+
+  it('refuses sockets speaking another protocol version', async () => {
+    for (const auth of [
+      { token, protocolVersion: PROTOCOL_VERSION + 1 },
+      { token, protocolVersion: undefined },
+    ]) {
+      const outdated = connect(auth);
+      const error = await new Promise<Error & { data?: unknown }>((resolve) =>
+        outdated.once('connect_error', resolve),
+      );
+      outdated.disconnect();
+      expect(error.data).toEqual({
+        code: 'unsupported-protocol',
+        serverVersion: PROTOCOL_VERSION,
+      });
+    }
+  });
+
+  it('caps the sessions a user may have open', async () => {
+    await restartWith({ QUOTA_MAX_SESSIONS_PER_USER: '1' });
+    const started = nextEvent('session-started');
+    client.emit('start-session');
+    await started;
+
+    const second = connect({ token });
+    try {
+      const refused = new Promise<{ quota: string }>((resolve) =>
+        second.once('quota-exceeded', resolve),
+      );
+      second.emit('start-session');
+      expect(await refused).toEqual({
+        quota: 'user-sessions',
+        limit: 1,
+        message: 'Too many open sessions; the limit is 1.',
+      });
+    } finally {
+      second.disconnect();
+    }
+  });
+
+  it('drops messages over the per-minute limit', async () => {
+    await restartWith({ QUOTA_MESSAGES_PER_MINUTE: '1' });
+    const started = nextEvent('session-started');
+    client.emit('start-session', { responseModality: 'TEXT' });
+    await started;
+
+    const refusals: { quota: string; retryAfterMs: number }[] = [];
+    client.on('quota-exceeded', (payload: (typeof refusals)[number]) =>
+      refusals.push(payload),
+    );
+    const turnComplete = nextEvent('turn-complete');
+    client.emit('send-text', { text: 'hello' });
+    client.emit('send-text', { text: 'again' });
+    client.emit('send-text', { text: 'and again' });
+    await turnComplete;
+
+    expect(refusals).toEqual([
+      expect.objectContaining({
+        quota: 'messages-per-minute',
+        retryAfterMs: expect.any(Number) as number,
+      }),
+    ]);
+  });
+
+  it('does not let a claimed sample rate shrink the audio quota', async () => {
+    await restartWith({ QUOTA_AUDIO_SECONDS_PER_MINUTE: '1' });
+    const started = nextEvent('session-started');
+    client.emit('start-session');
+    await started;
+
+    const errors: string[] = [];
+    client.on('session-error', ({ message }: { message: string }) =>
+      errors.push(message),
+    );
+    const refused = nextEvent<{ quota: string }>('quota-exceeded');
+    // Half a second of 16 kHz audio per frame, which a rate of 99999999
+    // would have counted as next to nothing
+    const samples = Buffer.alloc(16000);
+    client.emit('send-audio-chunk', {
+      data: samples.toString('base64'),
+      mimeType: 'audio/pcm;rate=99999999',
+    });
+    client.emit('send-audio-frame', {
+      data: samples,
+      mimeType: 'audio/pcm;rate=99999999',
+    });
+    for (let i = 0; i < 3; i++) {
+      client.emit('send-audio-frame', {
+        data: samples,
+        mimeType: 'audio/pcm;rate=16000',
+      });
+    }
+
+    expect((await refused).quota).toBe('audio-seconds-per-minute');
+    // The chunk goes through the validation pipe, so it may be refused last
+    expect(errors.sort()).toEqual([
+      'Audio frame mimeType must be audio/pcm;rate=16000.',
+      'Invalid payload: mimeType must be audio/pcm;rate=16000.',
+    ]);
+  });
+
+  it('ends the session once the daily token budget is spent', async () => {
+    await restartWith({ QUOTA_DAILY_TOKENS_PER_USER: '150' });
+    const usage = nextEvent<{ tokensRemaining: number }>('quota-usage');
+    const started = nextEvent('session-started');
+    client.emit('start-session', { responseModality: 'TEXT' });
+    await started;
+    expect((await usage).tokensRemaining).toBe(150);
+
+    const refused = nextEvent<{ quota: string }>('quota-exceeded');
+    const closed = nextEvent('session-closed');
+    client.emit('send-text', { text: 'hello' });
+    expect((await refused).quota).toBe('daily-tokens');
+    await closed;
+
+    const refusedAgain = nextEvent<{ quota: string }>('quota-exceeded');
+    client.emit('start-session');
+    expect((await refusedAgain).quota).toBe('daily-tokens');
+  });
+
+  it('refuses to resume an unknown session', async () => {
+    const error = nextEvent<{ message: string }>('session-error');
+    client.emit('resume-session', { sessionId: 'nope' });
+
+    expect((await error).message).toBe('Session not found or already ended.');
+  });
+
+  it('echoes the negotiated session config', async () => {
+    const started = nextEvent<{ config: { voice: string; model: string } }>(
+      'session-started',
+    );
+    client.emit('start-session', { voice: 'Kore' });
+
+    const { config } = await started;
+    expect(config.voice).toBe('Kore');
+    expect(config.model).toBe('gemini-2.0-flash-live-001');
+  });
+
+  it('starts sessions from templates managed over the API', async () => {
+    const server = app.getHttpServer() as Server;
+    const editor = await tokenFor('editor');
+    const template = {
+      id: 'pre-op',
+      name: 'Pre-op call',
+      systemInstruction: 'Ask {{patientName}} about fasting.',
+      variables: [{ name: 'patientName', required: true }],
+      defaults: { voice: 'Kore' },
+    };
+    await request(server)
+      .post('/templates')
+      .auth(token, { type: 'bearer' })
+      .send(template)
+      .expect(403);
+    await request(server)
+      .post('/templates')
+      .auth(editor, { type: 'bearer' })
+      .send({ ...template, systemInstruction: 'Hi {{nickname}}.' })
+      .expect(400);
+    await request(server)
+      .post('/templates')
+      .auth(editor, { type: 'bearer' })
+      .send(template)
+      .expect(201);
+    const updated = await request(server)
+      .put('/templates/pre-op')
+      .auth(editor, { type: 'bearer' })
+      .send({ ...template, id: undefined, defaults: { voice: 'Puck' } })
+      .expect(200);
+    expect(updated.body).toMatchObject({ version: 2, createdBy: 'editor' });
+    const versions = await request(server)
+      .get('/templates/pre-op/versions')
+      .auth(token, { type: 'bearer' })
+      .expect(200);
+    expect(versions.body).toHaveLength(2);
+
+    const started = nextEvent<{ sessionId: string; config: SessionConfig }>(
+      'session-started',
+    );
+    client.emit('start-session', {
+      template: { id: 'pre-op', version: 1, variables: { patientName: 'Sam' } },
+    });
+    const { sessionId, config } = await started;
+    expect(config).toMatchObject({
+      voice: 'Kore',
+      systemInstruction: 'Ask Sam about fasting.',
+      template: { id: 'pre-op', version: 1, variables: { patientName: 'Sam' } },
+    });
+
+    const session = await request(server)
+      .get(`/sessions/${sessionId}`)
+      .auth(token, { type: 'bearer' })
+      .expect(200);
+    expect((session.body as SessionRecord).config.template).toEqual(
+      config.template,
+    );
+
+    const audit = await request(server)
+      .get('/audit')
+      .query({ sessionId })
+      .auth(await tokenFor('auditor'), { type: 'bearer' })
+      .expect(200);
+    const [startEntry] = audit.body as AuditEntry[];
+    expect(startEntry.action).toBe('session.started');
+    expect(startEntry.details).toEqual({
+      model: 'gemini-2.0-flash-live-001',
+      voice: 'Kore',
+      language: config.language,
+      responseModality: 'AUDIO',
+      activityDetection: 'automatic',
+      audioTransport: config.audioTransport,
+      template: { id: 'pre-op', version: 1 },
+    });
+    expect(JSON.stringify(audit.body)).not.toMatch(/Sam|fasting/);
+  });
+
+  it('rejects unknown templates', async () => {
+    const error = nextEvent<{ message: string }>('session-error');
+    client.emit('start-session', { template: { id: 'missing' } });
+
+    expect((await error).message).toBe('Unknown template missing.');
+  });
+
+  it('rejects session options outside the allow-list', async () => {
+    const error = nextEvent<{ message: string }>('session-error');
+    client.emit('start-session', { voice: 'Nobody' });
+
+    expect((await error).message).toMatch(/Invalid voice/);
+  });
+
+  it('rejects malformed payloads', async () => {
+    let error = nextEvent<{ message: string }>('session-error');
+    client.emit('start-session', { responseModality: 'VIDEO', extra: true });
+    expect((await error).message).toBe(
+      'Invalid payload: property extra should not exist; responseModality must be one of the following values: AUDIO, TEXT.',
+    );
+
+    const started = nextEvent('session-started');
+    client.emit('start-session', { responseModality: 'TEXT' });
+    await started;
+
+    error = nextEvent<{ message: string }>('session-error');
+    client.emit('send-text', 'hello');
+    expect((await error).message).toMatch(/^Invalid payload: text must be/);
+  });
+
+  it('rejects a second session on the same socket', async () => {
+    const started = nextEvent('session-started');
+    client.emit('start-session');
+    await started;
+
+    const error = nextEvent<{ message: string }>('session-error');
+    client.emit('start-session');
+
+    expect((await error).message).toBe('Session already active.');
+  });
+});
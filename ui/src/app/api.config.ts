@@ -0,0 +1,5 @@
+/**
+ * Base URL of the NestJS API, used for both the socket.io connection and the
+ * REST endpoints.
+ */
+export const API_URL = 'http://localhost:3000';
@@ -2,41 +2,107 @@ import { Component, OnInit, OnDestroy, signal } from '@angular/core';
 import { Subject, Subscription, takeUntil } from 'rxjs';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { AppMessage, GeminiRealtimeAudioService } from './gemini-realtime-audio.service';
+import { GeminiRealtimeAudioService } from './gemini-realtime-audio.service';
 import { GeminiAudioService } from './gemini-audio.service';
-
-interface ConversationMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-  timestamp: Date;
-}
+import { SessionHistoryService } from './session-history.service';
+import { TemplateLibraryService } from './template-library.service';
+import { ClinicalSummaryFormComponent } from './clinical-summary-form.component';
+import { MicrophoneControlsComponent } from './microphone-controls.component';
+import { AppMessage, AudioFrame, CaptureMode, ChecklistItemProgress, ChecklistProgress, ClinicalSummary, ConversationMessage, ExportFormat, FinalTranscript, PromptTemplate, QuotaExceeded, QuotaUsage, ResponseModality, SessionRecord, ToolCallEvent } from './audio.model';
 
 @Component({
   selector: 'app-root',
-  imports: [CommonModule, FormsModule],
+  imports: [CommonModule, FormsModule, ClinicalSummaryFormComponent, MicrophoneControlsComponent],
   templateUrl: './app.component.html',
   styleUrls: ['./app.component.scss']
 })
 export class AppComponent implements OnInit, OnDestroy {
 connectionStatus = 'disconnected';
   isRecording = false;
+  isSpeaking = false;
   isPlaying = false;
+  playbackBufferMs = 0;
+  playbackUnderruns = 0;
   conversationHistory: ConversationMessage[] = [];
   audioError: string | null = null;
 
-  summary = signal<{ extracted_data: string }>({ extracted_data: '' });
+  captureMode: CaptureMode = 'hands-free';
+  readonly captureModes: { value: CaptureMode; label: string }[] = [
+    { value: 'push-to-talk', label: 'Push to talk' },
+    { value: 'hands-free', label: 'Hands-free' },
+    { value: 'always-on', label: 'Always on' }
+  ];
+
+  // Milliseconds of audio per microphone frame, chosen per session
+  frameMs = 100;
+  readonly frameDurations: number[] = [20, 40, 60, 100];
+
+  // How the assistant answers, chosen per session
+  responseModality: ResponseModality = 'AUDIO';
+  readonly responseModalities: { value: ResponseModality; label: string }[] = [
+    { value: 'AUDIO', label: 'Spoken' },
+    { value: 'TEXT', label: 'Text only' }
+  ];
+
+  // The interview the assistant runs, from the API's template library;
+  // an empty id leaves the choice to the server
+  templates: PromptTemplate[] = [];
+  templateId = '';
+  templateVariables: Record<string, string> = {};
+
+  // The message being typed in the composer
+  draftText = '';
+
+  // Records both sides of the next session for QA review
+  recordConversation = false;
+  // The finished recording, as an object URL to download
+  recordingUrl: string | null = null;
+  recordingFileName = '';
+
+  exportFormat: ExportFormat = 'html';
+  readonly exportFormats: { value: ExportFormat; label: string; extension: string }[] = [
+    { value: 'html', label: 'Printable (PDF)', extension: 'html' },
+    { value: 'markdown', label: 'Markdown', extension: 'md' },
+    { value: 'fhir', label: 'FHIR R4 Bundle', extension: 'json' }
+  ];
+
+  summary = signal<ClinicalSummary | null>(null);
+
+  quotaUsage: QuotaUsage | null = null;
+
+  // Intake topics the session has covered, shown in the sidebar
+  checklist: ChecklistProgress | null = null;
+  // Set when End Session was pressed with required topics still missing
+  confirmingEnd = false;
+
+  // Pasted in when the API refuses the connection
+  accessToken = '';
+
+  // Tools the assistant is waiting on, shown as "Looking up medications…"
+  runningToolCalls: ToolCallEvent[] = [];
+
+  // The messages currently being streamed in for each side of the turn
+  private currentUserMessage: ConversationMessage | null = null;
+  private currentAssistantMessage: ConversationMessage | null = null;
   
+  // Set while the push-to-talk button is held
+  private talkStart: Promise<void> | null = null;
+
   // A Subject to trigger unsubscription on component destruction
   private destroy$ = new Subject<void>();
 
   constructor(
     private realtimeService: GeminiRealtimeAudioService,
     private audioService: GeminiAudioService,
+    private sessionHistory: SessionHistoryService,
+    private templateLibrary: TemplateLibraryService,
   ) { }
 
   ngOnInit(): void {
     this.initializeAudioService();
     this.setupServiceSubscriptions();
+    this.restoreLastSession();
+    this.loadTemplates();
   }
 
   ngOnDestroy(): void {
@@ -45,6 +111,7 @@ connectionStatus = 'disconnected';
     this.destroy$.complete();
 
     // Perform cleanup
+    this.discardRecording();
     this.audioService.cleanup();
     this.realtimeService.disconnect();
   }
@@ -68,6 +135,9 @@ connectionStatus = 'disconnected';
         if (status === 'error') {
           this.isRecording = false;
         }
+        if (status !== 'session-active' && status !== 'reconnecting') {
+          this.finishConversationRecording();
+        }
       });
 
     this.realtimeService.getMessages()
@@ -78,24 +148,90 @@ connectionStatus = 'disconnected';
         }
       });
 
+    this.realtimeService.getQuotaUsage()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(usage => this.quotaUsage = usage);
+
+    this.realtimeService.getChecklistProgress()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(progress => this.checklist = progress);
+
+    this.realtimeService.getSessionId()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(sessionId => {
+        if (sessionId) {
+          this.sessionHistory.rememberSession(sessionId);
+        }
+      });
+
     this.audioService.audioState$
       .pipe(takeUntil(this.destroy$))
       .subscribe(audioState => {
         // Keep component's isRecording in sync with the service state
         this.isRecording = audioState.isRecording;
+        this.isSpeaking = audioState.isSpeaking;
         this.isPlaying = audioState.isPlaying;
+        this.playbackBufferMs = audioState.playbackBufferMs;
+        this.playbackUnderruns = audioState.playbackUnderruns;
         if (audioState.error) {
           this.audioError = audioState.error;
         }
       });
+
+    this.audioService.playbackInterrupted$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.markAssistantInterrupted());
+
+    // In hands-free mode the client's voice activity detection decides when
+    // the user's turn starts and ends
+    this.audioService.voiceActivity$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(activity => {
+        if (this.captureMode !== 'hands-free') {
+          return;
+        }
+        if (activity === 'start') {
+          this.realtimeService.sendActivityStart();
+        } else {
+          this.realtimeService.sendActivityEnd();
+        }
+      });
   }
 
   // --- UI ACTIONS ---
 
+  signIn(): void {
+    const token = this.accessToken.trim();
+    if (token) {
+      this.realtimeService.signIn(token);
+      this.accessToken = '';
+      this.restoreLastSession();
+      this.loadTemplates();
+    }
+  }
+
   startSession(): void {
     if (this.connectionStatus === 'connected') {
-      this.realtimeService.startSession();
+      // Only always-on leaves turn detection to the model
+      this.audioService.setCaptureMode(this.captureMode);
+      this.audioService.setFrameDuration(this.frameMs);
+      this.realtimeService.startSession({
+        activityDetection: this.captureMode === 'always-on' ? 'automatic' : 'manual',
+        audioTransport: 'binary',
+        responseModality: this.responseModality,
+        template: this.templateId
+          ? { id: this.templateId, variables: this.filledTemplateVariables() }
+          : undefined
+      });
+      this.discardRecording();
+      if (this.recordConversation) {
+        this.audioService.startConversationRecording();
+      }
       this.conversationHistory = [];
+      this.currentUserMessage = null;
+      this.currentAssistantMessage = null;
+      this.summary.set(null);
+      this.runningToolCalls = [];
       this.audioError = null;
     }
   }
@@ -108,12 +244,11 @@ connectionStatus = 'disconnected';
 
     try {
       this.audioError = null;
-      this.addMessage('user', '...(Listening)', new Date());
 
       // The service now handles all the complex audio logic.
       // The component just passes the callback.
-      await this.audioService.startRecording((audioChunk) => {
-        this.realtimeService.sendAudioChunk(audioChunk);
+      await this.audioService.startRecording((frame) => {
+        this.realtimeService.sendAudioFrame(frame);
       });
     } catch (error) {
       console.error('Failed to start recording:', error);
@@ -122,42 +257,250 @@ connectionStatus = 'disconnected';
     }
   }
 
-  stopRecording(): void {
-    this.audioService.stopRecording();
+  async stopRecording(): Promise<void> {
+    await this.audioService.stopRecording();
+    if (this.captureMode === 'always-on') {
+      this.realtimeService.sendAudioStreamEnd();
+    }
     
     // The isRecording flag is now managed by the audioState$ subscription,
     // so we don't need to set it manually here.
-    const listeningMessage = this.conversationHistory.find(m => m.content === '...(Listening)');
-    if (listeningMessage) {
-      listeningMessage.content = '...(Processing)';
+  }
+
+  /** Push-to-talk: the turn starts when the talk button is pressed. */
+  startTalking(): void {
+    if (this.talkStart || this.isRecording || this.connectionStatus !== 'session-active') {
+      return;
+    }
+    this.realtimeService.sendActivityStart();
+    this.talkStart = this.startRecording();
+  }
+
+  /** Push-to-talk: releasing the button sends the rest of the audio and ends the turn. */
+  async stopTalking(): Promise<void> {
+    const talkStart = this.talkStart;
+    if (!talkStart) {
+      return;
     }
+    this.talkStart = null;
+    // The button may be released before the microphone finished starting
+    await talkStart;
+    await this.stopRecording();
+    this.realtimeService.sendActivityEnd();
   }
 
-  endSession(): void {
+  /** Required intake topics the assistant has not covered yet. */
+  get missingChecklistItems(): ChecklistItemProgress[] {
+    return this.checklist?.items.filter(item => item.required && !item.covered) ?? [];
+  }
+
+  /**
+   * Ends the session. With required checklist topics still missing it first
+   * asks for confirmation, unless `force` is set.
+   */
+  async endSession(force = false): Promise<void> {
+    if (!force && this.missingChecklistItems.length > 0) {
+      this.confirmingEnd = true;
+      return;
+    }
+    this.confirmingEnd = false;
     if (this.isRecording) {
-      this.stopRecording();
+      await this.stopRecording();
     }
     this.realtimeService.endSession();
     console.log(`Session ended, Summary`);
   }
   
   
-  closeChat(): void {
-    window.location.reload();
-    // Stop any ongoing recording
-    // if (this.isRecording) {
-    //   this.stopRecording();
-    // }
-    
-    // // this.dialogRef.close(this.summary());
-    // console.log(`Chat closed, Summary: ${this.summary()}`);
+  /** Asks the assistant to go over the missing topics instead of ending. */
+  coverMissingTopics(): void {
+    this.confirmingEnd = false;
+    this.realtimeService.coverChecklist();
   }
 
-  // Test method for development
-  testTextMessage(): void {
-    const input = 'hi there'
+  /**
+   * Ends any running session and clears the conversation. The transcript
+   * stays available from the API's session history.
+   */
+  async closeChat(): Promise<void> {
     if (this.connectionStatus === 'session-active') {
-      this.realtimeService.sendTextPart(input);
+      await this.endSession(true);
+    }
+    this.checklist = null;
+    this.audioService.interruptPlayback();
+    this.sessionHistory.forgetLastSession();
+    this.conversationHistory = [];
+    this.currentUserMessage = null;
+    this.currentAssistantMessage = null;
+    this.summary.set(null);
+    this.runningToolCalls = [];
+    this.audioError = null;
+    this.discardRecording();
+  }
+
+  /**
+   * Sends the composer's text as a complete user turn. Typed turns have no
+   * transcription, so the message is shown as sent.
+   */
+  sendText(): void {
+    const text = this.draftText.trim();
+    if (!text || this.connectionStatus !== 'session-active') {
+      return;
+    }
+    // A typed turn cuts off whatever the assistant was saying
+    this.audioService.interruptPlayback();
+    this.currentUserMessage = null;
+    this.currentAssistantMessage = null;
+    this.addMessage('user', text, new Date());
+    this.realtimeService.sendTextPart(text);
+    this.draftText = '';
+  }
+
+  /** Enter sends the message; Shift+Enter starts a new line. */
+  onComposerKeydown(event: KeyboardEvent): void {
+    if (event.key === 'Enter' && !event.shiftKey && !event.isComposing) {
+      event.preventDefault();
+      this.sendText();
+    }
+  }
+
+  /** The recorded session the conversation shown belongs to, if any. */
+  get exportableSessionId(): string | null {
+    return this.sessionHistory.getLastSessionId();
+  }
+
+  /**
+   * Exports the recorded session. The printable document opens in a new tab
+   * with the print dialog (where it can be saved as PDF); the other formats
+   * are downloaded.
+   */
+  exportConversation(): void {
+    const sessionId = this.exportableSessionId;
+    const format = this.exportFormats.find(option => option.value === this.exportFormat);
+    if (!sessionId || !format) {
+      return;
+    }
+    // Opened before the request so pop-up blockers treat it as user initiated
+    const printWindow = format.value === 'html' ? window.open('', '_blank') : null;
+    this.sessionHistory.exportSession(sessionId, format.value)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: blob => {
+          const url = URL.createObjectURL(blob);
+          if (printWindow) {
+            printWindow.location.href = url;
+            printWindow.addEventListener('load', () => printWindow.print(), { once: true });
+            // Revoked once the tab has had time to load it
+            setTimeout(() => URL.revokeObjectURL(url), 60_000);
+          } else {
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `session-${sessionId}.${format.extension}`;
+            link.click();
+            URL.revokeObjectURL(url);
+          }
+        },
+        error: error => {
+          printWindow?.close();
+          console.error('Export failed:', error);
+          this.addMessage('system', 'The conversation could not be exported.', new Date());
+        }
+      });
+  }
+
+  /** Turns the conversation recording into a WAV download once the session is over. */
+  private finishConversationRecording(): void {
+    const recording = this.audioService.stopConversationRecording();
+    if (!recording) {
+      return;
+    }
+    this.discardRecording();
+    this.recordingUrl = URL.createObjectURL(recording);
+    this.recordingFileName = `conversation-${new Date().toISOString().replace(/[:.]/g, '-')}.wav`;
+  }
+
+  private discardRecording(): void {
+    if (this.recordingUrl) {
+      URL.revokeObjectURL(this.recordingUrl);
+      this.recordingUrl = null;
+    }
+  }
+
+  get selectedTemplate(): PromptTemplate | undefined {
+    return this.templates.find(template => template.id === this.templateId);
+  }
+
+  /** Starts the variables of a newly chosen template empty, so defaults apply. */
+  onTemplateChange(): void {
+    this.templateVariables = {};
+  }
+
+  /** True when a required variable without a default is still empty. */
+  get missingTemplateVariables(): boolean {
+    return !!this.selectedTemplate?.variables.some(variable =>
+      variable.required && variable.default === undefined && !this.templateVariables[variable.name]?.trim());
+  }
+
+  private filledTemplateVariables(): Record<string, string> {
+    const variables: Record<string, string> = {};
+    for (const [name, value] of Object.entries(this.templateVariables)) {
+      if (value.trim()) {
+        variables[name] = value.trim();
+      }
+    }
+    return variables;
+  }
+
+  private loadTemplates(): void {
+    this.templateLibrary.listTemplates()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: templates => {
+          this.templates = templates;
+          if (!this.selectedTemplate) {
+            this.templateId = '';
+            this.templateVariables = {};
+          }
+        },
+        // Sessions still work without templates; a 401 is retried after sign-in
+        error: error => console.warn('Could not load prompt templates:', error)
+      });
+  }
+
+  /**
+   * Shows the transcript of the last session after a page reload.
+   */
+  private restoreLastSession(): void {
+    const sessionId = this.sessionHistory.getLastSessionId();
+    if (!sessionId) {
+      return;
+    }
+    this.sessionHistory.getSession(sessionId)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: session => this.showRecordedSession(session),
+        error: error => {
+          console.warn('Could not restore the last session:', error);
+          // Keep it for after sign-in; anything else means it is gone
+          if (error?.status !== 401) {
+            this.sessionHistory.forgetLastSession();
+          }
+        }
+      });
+  }
+
+  private showRecordedSession(session: SessionRecord): void {
+    // A session started in the meantime takes precedence
+    if (this.conversationHistory.length > 0 || this.connectionStatus === 'session-active') {
+      return;
+    }
+    this.addMessage('system', `Restored conversation from ${new Date(session.startedAt).toLocaleString()}.`, new Date(session.startedAt));
+    for (const turn of session.turns) {
+      this.addMessage(turn.role, turn.text, new Date(turn.timestamp)).interrupted = turn.interrupted;
+    }
+    if (session.summary) {
+      const { submittedAt, ...summary } = session.summary;
+      this.summary.set(summary);
     }
   }
 
@@ -166,15 +509,44 @@ connectionStatus = 'disconnected';
   private handleAppMessage(message: AppMessage): void {
     switch (message.type) {
       case 'text':
-        this.handleAssistantText(message.payload);
-        this.checkForSummary(message.payload);
+        this.appendAssistantText(message.payload);
+        break;
+
+      case 'output-transcription':
+        this.appendAssistantText(message.payload.text);
+        break;
+
+      case 'summary-ready':
+        this.summary.set(message.payload.summary);
+        break;
+
+      case 'tool-call':
+        this.trackToolCall(message.payload);
+        break;
+
+      case 'quota-exceeded':
+        this.addMessage('system', this.describeQuotaExceeded(message.payload), new Date());
+        break;
+
+      case 'input-transcription':
+        this.appendUserTranscript(message.payload.text);
+        break;
+
+      case 'transcript-final':
+        this.finalizeTranscript(message.payload);
         break;
 
       case 'audio':
         this.handleAudioPlayback(message.payload);
         break;
       
+      case 'interrupted':
+        this.audioService.interruptPlayback();
+        this.markAssistantInterrupted();
+        break;
+
       case 'turn-complete':
+        this.audioService.endOfTurn();
         this.handleTurnComplete();
         break;
         
@@ -184,21 +556,67 @@ connectionStatus = 'disconnected';
     }
   }
   
-  private handleAssistantText(text: string): void {
-    const lastMessage = this.conversationHistory[this.conversationHistory.length - 1];
-    
-    // If the last message was from the user (or system), create a new assistant message
-    if (!lastMessage || lastMessage.role !== 'assistant') {
-      this.addMessage('assistant', text, new Date());
+  private describeQuotaExceeded({ message, retryAfterMs }: QuotaExceeded): string {
+    if (retryAfterMs === undefined) {
+      return message;
+    }
+    const seconds = Math.ceil(retryAfterMs / 1000);
+    return seconds < 120
+      ? `${message} Try again in ${seconds} s.`
+      : `${message} Try again after ${new Date(Date.now() + retryAfterMs).toLocaleTimeString()}.`;
+  }
+
+  private trackToolCall(event: ToolCallEvent): void {
+    this.runningToolCalls = this.runningToolCalls.filter(call => call.id !== event.id);
+    if (event.status === 'running') {
+      this.runningToolCalls.push(event);
+    } else if (event.status === 'failed') {
+      console.warn(`Tool ${event.name} failed:`, event.error);
+    }
+  }
+
+  private appendAssistantText(text: string): void {
+    if (!this.currentAssistantMessage) {
+      this.currentAssistantMessage = this.addMessage('assistant', '', new Date(), true);
+    }
+    // Append to the message being streamed to create a streaming effect
+    this.currentAssistantMessage.content += text;
+  }
+
+  private appendUserTranscript(text: string): void {
+    if (!this.currentUserMessage) {
+      this.currentUserMessage = { role: 'user', content: '', timestamp: new Date(), pending: true };
+      // Transcription is not ordered with the model's reply, so the user's words
+      // may arrive after the reply started; they still belong before it.
+      const replyIndex = this.currentAssistantMessage
+        ? this.conversationHistory.indexOf(this.currentAssistantMessage)
+        : -1;
+      if (replyIndex >= 0) {
+        this.conversationHistory.splice(replyIndex, 0, this.currentUserMessage);
+      } else {
+        this.conversationHistory.push(this.currentUserMessage);
+      }
+    }
+    this.currentUserMessage.content += text;
+  }
+
+  private finalizeTranscript(transcript: FinalTranscript): void {
+    const streamed = transcript.role === 'user' ? this.currentUserMessage : this.currentAssistantMessage;
+    const message = streamed ?? this.addMessage(transcript.role, transcript.text, new Date());
+    message.content = transcript.text;
+    message.pending = false;
+    message.interrupted = message.interrupted || transcript.interrupted;
+
+    if (transcript.role === 'user') {
+      this.currentUserMessage = null;
     } else {
-      // Otherwise, append to the existing assistant message to create a streaming effect
-      lastMessage.content += text;
+      this.currentAssistantMessage = null;
     }
   }
 
-  private async handleAudioPlayback(audioPayload: { data: string; mimeType: string }): Promise<void> {
+  private async handleAudioPlayback(audioPayload: AudioFrame): Promise<void> {
     try {
-      await this.audioService.playAudioChunk(audioPayload);
+      await this.audioService.playAudioFrame(audioPayload);
       console.log('Playing audio chunk');
     } catch (error) {
       console.error('Failed to play audio chunk:', error);
@@ -206,47 +624,35 @@ connectionStatus = 'disconnected';
     }
   }
 
-  private handleTurnComplete(): void {
-    // The assistant has finished its current response
-    const lastMsg = this.conversationHistory[this.conversationHistory.length - 1];
-    if (lastMsg?.role === 'assistant') {
-      // You can add any finalization logic here if needed
-      console.log('Assistant turn completed');
-    }
-    
-    // Clear any processing messages
-    this.conversationHistory = this.conversationHistory.filter(m => 
-      !m.content.startsWith('...(Processing)')
-    );
-  }
-
-  private addMessage(role: ConversationMessage['role'], content: string, timestamp: Date): void {
-    // Don't clean up temporary messages if we're appending to assistant message
-    if (role !== 'assistant' || this.conversationHistory.length === 0 || 
-        this.conversationHistory[this.conversationHistory.length - 1].role !== 'assistant') {
-      // Clean up any temporary messages first
-      this.conversationHistory = this.conversationHistory.filter(m => 
-        !m.content.startsWith('...(') || m.content.startsWith('...(Processing)')
-      );
+  private markAssistantInterrupted(): void {
+    const message = this.currentAssistantMessage
+      ?? [...this.conversationHistory].reverse().find(m => m.role === 'assistant');
+    if (message) {
+      message.interrupted = true;
     }
-    
-    this.conversationHistory.push({ role, content, timestamp });
   }
 
-  private checkForSummary(text: string): void {
-    const upperText = text.toUpperCase();
-    if (upperText.includes('CLINICAL SUMMARY')) {
-      // Since text arrives in chunks, we need to re-evaluate the whole conversation
-      const fullAssistantResponse = this.conversationHistory
-        .filter(m => m.role === 'assistant')
-        .map(m => m.content)
-        .join(' ');
-        
-      const match = fullAssistantResponse.match(/## CLINICAL SUMMARY[\s\S]*/i);
-      if (match) {
-        this.summary.set({ extracted_data: match[0].trim() });
+  private handleTurnComplete(): void {
+    // The final transcripts arrive ahead of turn-complete; anything still
+    // streaming at this point is as complete as it will get.
+    for (const message of [this.currentUserMessage, this.currentAssistantMessage]) {
+      if (message) {
+        message.pending = false;
       }
     }
+    this.currentUserMessage = null;
+    this.currentAssistantMessage = null;
+  }
+
+  private addMessage(
+    role: ConversationMessage['role'],
+    content: string,
+    timestamp: Date,
+    pending = false,
+  ): ConversationMessage {
+    const message: ConversationMessage = { role, content, timestamp, pending };
+    this.conversationHistory.push(message);
+    return message;
   }
 
   // --- UTILITY METHODS ---
@@ -261,7 +667,7 @@ connectionStatus = 'disconnected';
 
   getRecordingButtonText(): string {
     if (this.isRecording) {
-      return 'Recording...';
+      return this.captureMode === 'hands-free' ? 'Listening...' : 'Recording...';
     }
     return this.audioError ? 'Check Audio Permissions' : 'Start Recording';
   }
@@ -27,4 +27,69 @@ export function pcm16ToFloat32(pcm16Array: Int16Array): Float32Array {
     float32Array[i] = pcm16Array[i] / 0x8000;
   }
   return float32Array;
-}
\ No newline at end of file
+}
+
+/**
+ * Reads the sample rate from a PCM mime type such as `audio/pcm;rate=24000`.
+ * @param mimeType The mime type sent alongside the audio data.
+ * @param fallback The rate to assume when the mime type does not name one.
+ * @returns The sample rate in Hz.
+ */
+export function parsePcmSampleRate(mimeType: string | undefined, fallback: number): number {
+  const match = mimeType?.match(/(?:^|;)\s*rate=(\d+)/i);
+  const rate = match ? parseInt(match[1], 10) : NaN;
+  return rate > 0 ? rate : fallback;
+}
+
+/**
+ * Base64-encodes binary data, for the legacy `send-audio-chunk` event.
+ * Works in blocks so large frames are not converted one character at a time.
+ * @param data The bytes to encode.
+ * @returns The base64 string.
+ */
+export function arrayBufferToBase64(data: ArrayBuffer): string {
+  const bytes = new Uint8Array(data);
+  const blockSize = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += blockSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + blockSize));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decodes base64 data, for the legacy `audio-part` event.
+ * @param base64 The base64 string.
+ * @returns The decoded bytes.
+ */
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+/**
+ * Resamples 16-bit PCM by linear interpolation.
+ * @param samples The input samples.
+ * @param fromRate Their sample rate in Hz.
+ * @param toRate The rate wanted, in Hz.
+ * @returns The resampled audio (the input itself when the rates match).
+ */
+export function resampleLinear(samples: Int16Array, fromRate: number, toRate: number): Int16Array {
+  if (fromRate === toRate) {
+    return samples;
+  }
+  const output = new Int16Array(Math.round(samples.length * toRate / fromRate));
+  const step = fromRate / toRate;
+  for (let i = 0; i < output.length; i++) {
+    const position = i * step;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, samples.length - 1);
+    const fraction = position - index;
+    output[i] = Math.round(samples[index] * (1 - fraction) + samples[next] * fraction);
+  }
+  return output;
+}
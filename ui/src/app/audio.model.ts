@@ -1,20 +1,91 @@
+import type {
+  AudioFrame,
+  Base64Audio,
+  ChecklistProgressPayload,
+  ClinicalSummary,
+  FinalTranscript,
+  QuotaExceededPayload,
+  QuotaUsagePayload,
+  SessionConfig,
+  StartSessionPayload,
+  ToolCallEvent,
+  TranscriptionChunk,
+  UsageMetadata,
+} from '@api/protocol';
+
+// Payloads shared with the API live in its socket protocol module
+export type {
+  AudioFrame,
+  ChecklistItemProgress,
+  ClinicalSummary,
+  FinalTranscript,
+  Medication,
+  QuotaName,
+  ResponseModality,
+  ResolvedTemplate,
+  SessionConfig,
+  TemplateSelection,
+  ToolCallEvent,
+  ToolCallStatus,
+  TranscriptionChunk,
+  UsageMetadata,
+  Vitals,
+} from '@api/protocol';
+
 /**
  * Represents the state of the audio service.
  */
 export interface AudioState {
   isRecording: boolean;
+  /** True while voice activity detection hears the user speaking. */
+  isSpeaking: boolean;
   isPlaying: boolean;
   error: string | null;
+  /** Assistant audio scheduled ahead of the playhead, in milliseconds. */
+  playbackBufferMs: number;
+  /** Times assistant playback ran dry mid-turn. */
+  playbackUnderruns: number;
+  /** Microphone level measured by the recorder worklet; zero while not recording. */
+  inputLevel: InputLevel;
+  /** True while the microphone is muted. Capture and the session keep running, sending silence. */
+  isMuted: boolean;
+  /** The microphone in use; null for the browser's default. */
+  inputDeviceId: string | null;
+}
+
+/**
+ * Amplitude of the microphone input over the last 50 ms, from 0 (silence)
+ * to 1 (full scale).
+ */
+export interface InputLevel {
+  rms: number;
+  peak: number;
 }
 
 /**
- * Represents a chunk of audio data, typically for transport to an API.
+ * A microphone the user can pick. Labels are empty until the browser has
+ * been granted microphone access.
  */
-export interface AudioChunk {
-  data: string; // Base64 encoded audio data
-  mimeType: string;
+export interface AudioInputDevice {
+  deviceId: string;
+  label: string;
 }
 
+/**
+ * How microphone audio is turned into user turns:
+ *  - `push-to-talk`: audio is captured while the talk button is held; pressing
+ *    and releasing it start and end the turn
+ *  - `hands-free`: the microphone stays open and the client's voice activity
+ *    detection starts and ends turns, so pauses end the turn automatically
+ *  - `always-on`: every frame is streamed and the model detects turns itself
+ */
+export type CaptureMode = 'push-to-talk' | 'hands-free' | 'always-on';
+
+/**
+ * Base64 audio, the legacy `send-audio-chunk` / `audio-part` format.
+ */
+export type AudioChunk = Base64Audio;
+
 /**
  * Represents a message in the conversation history.
  */
@@ -22,12 +93,116 @@ export interface ConversationMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: Date;
+  /** True while the message is still being streamed in. */
+  pending?: boolean;
+  /** True when the user talked over the assistant and playback was cut short. */
+  interrupted?: boolean;
+}
+
+/**
+ * Sent in `quota-exceeded` when the API drops a request that would go over
+ * one of its limits.
+ */
+export type QuotaExceeded = QuotaExceededPayload;
+
+/**
+ * The user's daily token budget, sent in `quota-usage`.
+ */
+export type QuotaUsage = QuotaUsagePayload;
+
+/**
+ * Represents a message received from the realtime service. There is one
+ * variant per server event forwarded by the API gateway.
+ */
+export type AppMessage =
+  | { type: 'text'; payload: string }
+  | { type: 'audio'; payload: AudioFrame }
+  | { type: 'input-transcription'; payload: TranscriptionChunk }
+  | { type: 'output-transcription'; payload: TranscriptionChunk }
+  | { type: 'transcript-final'; payload: FinalTranscript }
+  | { type: 'interrupted'; payload: null }
+  | { type: 'generation-complete'; payload: null }
+  | { type: 'turn-complete'; payload: null }
+  | { type: 'usage'; payload: UsageMetadata }
+  | { type: 'go-away'; payload: { timeLeftMs: number | null } }
+  | { type: 'session-resumption'; payload: { resumable: boolean } }
+  | { type: 'summary-ready'; payload: { summary: ClinicalSummary; submittedAt: string } }
+  | { type: 'tool-call'; payload: ToolCallEvent }
+  | { type: 'quota-exceeded'; payload: QuotaExceeded }
+  | { type: 'error'; payload: { message: string } };
+
+/**
+ * Which intake topics the session has covered, from `checklist-progress`.
+ */
+export type ChecklistProgress = ChecklistProgressPayload;
+
+/**
+ * Options sent with `start-session`. Anything omitted falls back to the
+ * server's defaults; values outside the server's allow-list are rejected
+ * with a `session-error`.
+ */
+export type SessionOptions = StartSessionPayload;
+
+/**
+ * One side of a recorded turn, as returned by `GET /sessions/:id`.
+ */
+export interface SessionTurn {
+  role: 'user' | 'assistant';
+  text: string;
+  interrupted: boolean;
+  timestamp: string;
+}
+
+/**
+ * A recorded session with its transcript, as returned by `GET /sessions/:id`.
+ */
+export interface SessionRecord {
+  id: string;
+  status: 'active' | 'ended';
+  startedAt: string;
+  endedAt: string | null;
+  config: SessionConfig;
+  turns: SessionTurn[];
+  summary: (ClinicalSummary & { submittedAt: string }) | null;
+}
+
+/**
+ * Session metadata, as returned by `GET /sessions`.
+ */
+export interface SessionListItem {
+  id: string;
+  status: 'active' | 'ended';
+  startedAt: string;
+  endedAt: string | null;
+  model: string;
+  turnCount: number;
+  hasSummary: boolean;
+}
+
+/**
+ * A variable of a prompt template, filled in when a session starts.
+ */
+export interface PromptTemplateVariable {
+  name: string;
+  description?: string;
+  required?: boolean;
+  default?: string;
+}
+
+/**
+ * The latest version of a prompt template, as returned by `GET /templates`.
+ */
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  name: string;
+  description?: string;
+  systemInstruction: string;
+  variables: PromptTemplateVariable[];
+  defaults: { voice?: string; language?: string };
 }
 
 /**
- * Represents a message received from the realtime service.
+ * Document formats of `GET /sessions/:id/export/:format`.
  */
-export interface AppMessage {
-    type: 'text' | 'audio' | 'turn-complete' | 'error';
-    payload?: any;
-}
\ No newline at end of file
+export type ExportFormat = 'markdown' | 'html' | 'fhir';
@@ -0,0 +1,25 @@
+import { Injectable } from '@angular/core';
+
+/**
+ * Holds the bearer token the API expects on the socket handshake and on REST
+ * calls. It is issued outside this app and pasted in, so it is kept in
+ * localStorage across reloads.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AuthTokenService {
+  private readonly TOKEN_KEY = 'gemini-poc.authToken';
+
+  getToken(): string | null {
+    return localStorage.getItem(this.TOKEN_KEY);
+  }
+
+  setToken(token: string): void {
+    localStorage.setItem(this.TOKEN_KEY, token);
+  }
+
+  clearToken(): void {
+    localStorage.removeItem(this.TOKEN_KEY);
+  }
+}
@@ -0,0 +1,13 @@
+import { HttpInterceptorFn } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { API_URL } from './api.config';
+import { AuthTokenService } from './auth-token.service';
+
+/** Adds the bearer token to requests for the API, and to nothing else. */
+export const authInterceptor: HttpInterceptorFn = (req, next) => {
+  const token = inject(AuthTokenService).getToken();
+  if (!token || !req.url.startsWith(API_URL)) {
+    return next(req);
+  }
+  return next(req.clone({ setHeaders: { Authorization: `Bearer ${token}` } }));
+};
@@ -0,0 +1,60 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ClinicalSummary, Medication, Vitals } from './audio.model';
+
+/**
+ * Shows the clinical summary submitted by the model as an editable form, so
+ * the clinician can review and correct it before it is used.
+ */
+@Component({
+  selector: 'app-clinical-summary-form',
+  imports: [CommonModule, FormsModule],
+  templateUrl: './clinical-summary-form.component.html',
+  styleUrls: ['./clinical-summary-form.component.scss']
+})
+export class ClinicalSummaryFormComponent {
+  // The form edits a copy; a newly submitted summary replaces it.
+  form: ClinicalSummary = ClinicalSummaryFormComponent.empty();
+
+  readonly vitalFields: { key: keyof Vitals; label: string }[] = [
+    { key: 'bloodPressure', label: 'Blood pressure' },
+    { key: 'heartRate', label: 'Heart rate' },
+    { key: 'temperature', label: 'Temperature' },
+    { key: 'respiratoryRate', label: 'Respiratory rate' },
+    { key: 'oxygenSaturation', label: 'Oxygen saturation' },
+    { key: 'weight', label: 'Weight' }
+  ];
+
+  @Input({ required: true })
+  set summary(summary: ClinicalSummary) {
+    this.form = {
+      ...summary,
+      medications: summary.medications.map(medication => ({ ...medication })),
+      allergies: [...summary.allergies],
+      vitals: { ...summary.vitals },
+      redFlags: [...summary.redFlags]
+    };
+  }
+
+  addMedication(): void {
+    this.form.medications.push({ name: '' });
+  }
+
+  removeMedication(medication: Medication): void {
+    this.form.medications = this.form.medications.filter(m => m !== medication);
+  }
+
+  /** Lists are edited as one entry per line. */
+  listToText(items: string[]): string {
+    return items.join('\n');
+  }
+
+  textToList(text: string): string[] {
+    return text.split('\n').map(item => item.trim()).filter(Boolean);
+  }
+
+  private static empty(): ClinicalSummary {
+    return { chiefComplaint: '', history: '', medications: [], allergies: [], vitals: {}, redFlags: [] };
+  }
+}
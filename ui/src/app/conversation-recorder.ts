@@ -0,0 +1,97 @@
+import { resampleLinear } from './audio-pcm.utils';
+
+interface RecordedChunk {
+  /** First sample of the chunk on the recording's clock. */
+  start: number;
+  samples: Int16Array;
+}
+
+/**
+ * One side of the conversation: chunks placed on a shared clock at the
+ * recording rate.
+ */
+class RecordedTrack {
+  private chunks: RecordedChunk[] = [];
+  private cursor = 0;
+
+  get length(): number {
+    return this.chunks.reduce((end, chunk) => Math.max(end, chunk.start + chunk.samples.length), 0);
+  }
+
+  /**
+   * Adds a chunk no earlier than the end of the previous one. `earliest` is
+   * where the chunk would start judging by the clock alone.
+   */
+  add(samples: Int16Array, earliest: number): void {
+    const start = Math.max(this.cursor, Math.round(earliest));
+    this.chunks.push({ start, samples });
+    this.cursor = start + samples.length;
+  }
+
+  /** Drops everything from `position` on. */
+  truncate(position: number): void {
+    if (this.cursor <= position) {
+      return;
+    }
+    this.chunks = this.chunks
+      .filter(chunk => chunk.start < position)
+      .map(chunk => ({ start: chunk.start, samples: chunk.samples.subarray(0, position - chunk.start) }));
+    this.cursor = Math.max(0, position);
+  }
+
+  writeChannel(interleaved: Int16Array, channel: number, channels: number): void {
+    for (const { start, samples } of this.chunks) {
+      for (let i = 0; i < samples.length; i++) {
+        interleaved[(start + i) * channels + channel] = samples[i];
+      }
+    }
+  }
+}
+
+/**
+ * Records both sides of a conversation as they were heard: the user's
+ * microphone on the left channel and the assistant on the right, at 24 kHz.
+ *
+ * Microphone frames end when they arrive (they were captured in real time);
+ * assistant chunks start when they arrive or when the previous chunk ends,
+ * the way the player schedules them. Assistant audio cut off by an
+ * interruption is dropped, as it was never heard.
+ */
+export class ConversationRecorder {
+  static readonly SAMPLE_RATE = 24000;
+
+  private readonly startedAt: number;
+  private readonly user = new RecordedTrack();
+  private readonly assistant = new RecordedTrack();
+
+  constructor(private readonly now: () => number = () => performance.now()) {
+    this.startedAt = now();
+  }
+
+  addUserAudio(samples: Int16Array, sampleRate: number): void {
+    const resampled = resampleLinear(samples, sampleRate, ConversationRecorder.SAMPLE_RATE);
+    this.user.add(resampled, this.elapsedSamples() - resampled.length);
+  }
+
+  addAssistantAudio(samples: Int16Array, sampleRate: number): void {
+    this.assistant.add(resampleLinear(samples, sampleRate, ConversationRecorder.SAMPLE_RATE), this.elapsedSamples());
+  }
+
+  /** The assistant was interrupted: audio queued past this moment was not played. */
+  interruptAssistant(): void {
+    this.assistant.truncate(this.elapsedSamples());
+  }
+
+  /** The recording so far as interleaved stereo samples. */
+  toStereo(): Int16Array {
+    const length = Math.max(this.user.length, this.assistant.length);
+    const interleaved = new Int16Array(length * 2);
+    this.user.writeChannel(interleaved, 0, 2);
+    this.assistant.writeChannel(interleaved, 1, 2);
+    return interleaved;
+  }
+
+  private elapsedSamples(): number {
+    return (this.now() - this.startedAt) * ConversationRecorder.SAMPLE_RATE / 1000;
+  }
+}
@@ -1,7 +1,19 @@
 import { Injectable } from '@angular/core';
-import { BehaviorSubject, Observable } from 'rxjs';
-import { pcm16ToFloat32 } from './audio-pcm.utils';
-import { AudioChunk, AudioState } from './audio.model';
+import { BehaviorSubject, Observable, Subject } from 'rxjs';
+import { parsePcmSampleRate } from './audio-pcm.utils';
+import { AudioFrame, AudioInputDevice, AudioState, CaptureMode } from './audio.model';
+import { ConversationRecorder } from './conversation-recorder';
+import { PlaybackStats, ScheduledAudioPlayer } from './scheduled-audio-player';
+
+/**
+ * Messages posted by the recorder worklet (see pcm-recorder.worklet.ts).
+ */
+type RecorderMessage =
+  | { type: 'audio'; samples: Int16Array; speech: boolean }
+  | { type: 'speech-start' }
+  | { type: 'speech-end' }
+  | { type: 'level'; rms: number; peak: number }
+  | { type: 'flushed' };
 
 @Injectable({
   providedIn: 'root'
@@ -12,40 +24,87 @@ export class GeminiAudioService {
   private source: MediaStreamAudioSourceNode | null = null;
   private workletNode: AudioWorkletNode | null = null;
 
-  // Audio playback queue
-  private playQueue: ArrayBuffer[] = [];
-  private isPlayingFromQueue = false;
+  // Assistant audio is played through its own output context at the
+  // hardware rate, independent of the capture context
+  private player = new ScheduledAudioPlayer(stats => this.onPlaybackStats(stats));
+
+  // Barge-in: after the user talks over the assistant, audio still in flight
+  // for the interrupted turn is dropped until the next turn starts.
+  private discardIncomingAudio = false;
+
+  private captureMode: CaptureMode = 'hands-free';
+  // Duration of each microphone frame sent to the server
+  private frameMs = 100;
+  // The last silent frames, sent ahead of the first speech frame so the
+  // start of an utterance is not clipped by the detector's reaction time
+  private preRollFrames: Int16Array[] = [];
+  private flushResolver: (() => void) | null = null;
+  // Set while both sides of the conversation are being recorded
+  private conversationRecorder: ConversationRecorder | null = null;
+
+  // The microphone actually open, which differs from the remembered choice
+  // while that device is unplugged; null means the browser's default
+  private activeInputDeviceId: string | null = null;
+  // Device switches run one at a time so a burst of devicechange events
+  // cannot leave two streams open
+  private inputSwitch: Promise<void> = Promise.resolve();
+  private watchingDevices = false;
+  private readonly onDeviceChange = () => this.queueInputSwitch(() => this.handleDeviceChange());
 
   private readonly SAMPLE_RATE = 16000;
+  private readonly MIN_FRAME_MS = 20;
+  private readonly MAX_FRAME_MS = 100;
+  private readonly PRE_ROLL_MS = 300;
+  private readonly FLUSH_TIMEOUT_MS = 200;
+  private readonly DEFAULT_OUTPUT_SAMPLE_RATE = 24000;
   private readonly WORKLET_URL = 'assets/js/pcm-recorder.worklet.js';
+  private readonly INPUT_DEVICE_KEY = 'gemini-poc.inputDeviceId';
 
   private audioStateSubject = new BehaviorSubject<AudioState>({
     isRecording: false,
+    isSpeaking: false,
     isPlaying: false,
-    error: null
+    error: null,
+    playbackBufferMs: 0,
+    playbackUnderruns: 0,
+    inputLevel: { rms: 0, peak: 0 },
+    isMuted: false,
+    inputDeviceId: null
   });
   public audioState$: Observable<AudioState> = this.audioStateSubject.asObservable();
 
+  private playbackInterruptedSubject = new Subject<void>();
+  /** Emits when playback was cut short because the user started talking. */
+  public playbackInterrupted$: Observable<void> = this.playbackInterruptedSubject.asObservable();
+
+  private voiceActivitySubject = new Subject<'start' | 'end'>();
+  /** Emits when the worklet's voice activity detection hears the user start or stop speaking. */
+  public voiceActivity$: Observable<'start' | 'end'> = this.voiceActivitySubject.asObservable();
+
+  private inputDevicesSubject = new BehaviorSubject<AudioInputDevice[]>([]);
+  /** Microphones currently plugged in, refreshed when devices change. */
+  public inputDevices$: Observable<AudioInputDevice[]> = this.inputDevicesSubject.asObservable();
+
   async initializeAudio(): Promise<void> {
     try {
       if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
         throw new Error('Browser does not support audio recording');
       }
 
-      this.stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          sampleRate: this.SAMPLE_RATE,
-          channelCount: 1,
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true
-        }
-      });
+      this.stream = await this.openInputStream(this.getPreferredInputDevice());
 
-      this.audioContext = new AudioContext({ sampleRate: this.SAMPLE_RATE });
+      // Runs at the hardware rate; the worklet resamples to SAMPLE_RATE
+      this.audioContext = new AudioContext();
       // The AudioWorklet must be loaded before it can be used.
       await this.audioContext.audioWorklet.addModule(this.WORKLET_URL);
-      
+
+      // Device labels are only available once microphone access is granted
+      await this.refreshInputDevices();
+      if (!this.watchingDevices) {
+        navigator.mediaDevices.addEventListener('devicechange', this.onDeviceChange);
+        this.watchingDevices = true;
+      }
+
       this.updateState({ error: null });
       console.log('Audio service initialized successfully');
     } catch (error) {
@@ -56,7 +115,26 @@ export class GeminiAudioService {
     }
   }
 
-  async startRecording(onDataAvailable: (audioChunk: AudioChunk) => void): Promise<void> {
+  /**
+   * Selects how captured audio is filtered. In `hands-free` mode frames the
+   * voice activity detector considers silent are not sent at all; in the other
+   * modes every captured frame is sent (push-to-talk is bounded by the button,
+   * always-on leaves turn detection to the model).
+   */
+  setCaptureMode(mode: CaptureMode): void {
+    this.captureMode = mode;
+  }
+
+  /**
+   * Sets how many milliseconds of audio each microphone frame carries,
+   * clamped to 20-100 ms. Shorter frames reach the model sooner at the cost
+   * of more messages; takes effect the next time recording starts.
+   */
+  setFrameDuration(ms: number): void {
+    this.frameMs = Math.min(this.MAX_FRAME_MS, Math.max(this.MIN_FRAME_MS, Math.round(ms)));
+  }
+
+  async startRecording(onDataAvailable: (frame: AudioFrame) => void): Promise<void> {
     if (!this.stream || !this.audioContext) {
       await this.initializeAudio();
     }
@@ -67,22 +145,31 @@ export class GeminiAudioService {
     }
 
     this.source = this.audioContext!.createMediaStreamSource(this.stream!);
-    this.workletNode = new AudioWorkletNode(this.audioContext!, 'pcm-recorder-processor');
-    
-this.workletNode.port.onmessage = (event: MessageEvent<Int16Array>) => {
-  // event.data is the Int16Array from the worklet.
-  
-  // This correctly creates a Uint8Array view on the ArrayBuffer of the Int16Array.
-  const pcm16Data = new Uint8Array(event.data.buffer);
-  
-  // This calls your Base64 conversion function, which is correct for a browser.
-  const base64Data = this.pcm16DataToBase64(pcm16Data); 
-  
-  onDataAvailable({
-    data: base64Data,
-    mimeType: `audio/pcm;rate=${this.SAMPLE_RATE}` // Ensure this.SAMPLE_RATE is 16000
-  });
-};
+    this.workletNode = new AudioWorkletNode(this.audioContext!, 'pcm-recorder-processor', {
+      processorOptions: { targetSampleRate: this.SAMPLE_RATE, frameMs: this.frameMs }
+    });
+    this.preRollFrames = [];
+
+    this.workletNode.port.onmessage = (event: MessageEvent<RecorderMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'audio':
+          this.handleRecordedFrame(message.samples, message.speech, onDataAvailable);
+          break;
+        case 'speech-start':
+          this.onSpeechStart();
+          break;
+        case 'speech-end':
+          this.onSpeechEnd();
+          break;
+        case 'level':
+          this.updateState({ inputLevel: { rms: message.rms, peak: message.peak } });
+          break;
+        case 'flushed':
+          this.flushResolver?.();
+          break;
+      }
+    };
 
     this.source.connect(this.workletNode);
     // Note: We don't connect the workletNode to the destination,
@@ -92,80 +179,273 @@ this.workletNode.port.onmessage = (event: MessageEvent<Int16Array>) => {
     console.log('Recording started successfully');
   }
 
-  stopRecording(): void {
-    if (this.workletNode) {
-      this.workletNode.port.onmessage = null; // Clean up listener
-      this.workletNode.disconnect();
+  /**
+   * Stops capturing. The worklet is asked for its partial frame first so the
+   * tail of the last utterance still reaches the server; if the user was
+   * speaking, `voiceActivity$` reports the end of speech.
+   */
+  async stopRecording(): Promise<void> {
+    const workletNode = this.workletNode;
+    if (workletNode) {
       this.workletNode = null;
+      await this.flushWorklet(workletNode);
+      workletNode.port.onmessage = null; // Clean up listener
+      workletNode.disconnect();
     }
     if (this.source) {
       this.source.disconnect();
       this.source = null;
     }
-    this.updateState({ isRecording: false });
+    this.preRollFrames = [];
+    if (this.audioStateSubject.value.isSpeaking) {
+      this.onSpeechEnd();
+    }
+    this.updateState({ isRecording: false, inputLevel: { rms: 0, peak: 0 } });
     console.log('Recording stopped');
   }
 
-  async playAudioChunk(audioChunk: AudioChunk): Promise<void> {
-    if (!this.audioContext) {
-      throw new Error('Audio context not initialized for playback.');
+  /**
+   * Switches to another microphone, or to the browser's default with null,
+   * and remembers the choice for later visits. A recording in progress
+   * carries on from the new device without interrupting the session.
+   */
+  selectInputDevice(deviceId: string | null): Promise<void> {
+    if (deviceId) {
+      localStorage.setItem(this.INPUT_DEVICE_KEY, deviceId);
+    } else {
+      localStorage.removeItem(this.INPUT_DEVICE_KEY);
+    }
+    return this.queueInputSwitch(() => this.switchInput(deviceId));
+  }
+
+  /**
+   * Mutes or unmutes the microphone. Capture keeps running and sends
+   * silence, so the session and any recording stay intact.
+   */
+  setMuted(muted: boolean): void {
+    this.stream?.getAudioTracks().forEach(track => track.enabled = !muted);
+    this.updateState({ isMuted: muted });
+  }
+
+  private getPreferredInputDevice(): string | null {
+    return localStorage.getItem(this.INPUT_DEVICE_KEY);
+  }
+
+  /**
+   * Opens a microphone, falling back to the default one when the device is
+   * gone. The stream inherits the current mute state.
+   */
+  private async openInputStream(deviceId: string | null): Promise<MediaStream> {
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          deviceId: deviceId ? { exact: deviceId } : undefined,
+          channelCount: 1,
+          echoCancellation: true,
+          noiseSuppression: true,
+          autoGainControl: true
+        }
+      });
+    } catch (error: any) {
+      if (deviceId && (error?.name === 'OverconstrainedError' || error?.name === 'NotFoundError')) {
+        console.warn(`Microphone ${deviceId} is not available, using the default one`);
+        return this.openInputStream(null);
+      }
+      throw error;
+    }
+    for (const track of stream.getAudioTracks()) {
+      track.enabled = !this.audioStateSubject.value.isMuted;
+      // Fired when the device is unplugged, sometimes ahead of devicechange
+      track.addEventListener('ended', this.onDeviceChange);
     }
-    const pcmData = this.base64ToPCMBuffer(audioChunk.data);
-    this.playQueue.push(pcmData.buffer);
-    if (!this.isPlayingFromQueue) {
-      this.playNextInQueue();
+    this.activeInputDeviceId = deviceId;
+    this.updateState({ inputDeviceId: deviceId });
+    return stream;
+  }
+
+  private queueInputSwitch(work: () => Promise<void>): Promise<void> {
+    this.inputSwitch = this.inputSwitch.then(work).catch(error => {
+      console.error('Error switching microphone:', error);
+      this.updateState({ error: this.getAudioErrorMessage(error) });
+    });
+    return this.inputSwitch;
+  }
+
+  /**
+   * Moves to the remembered microphone when it is plugged back in, and to
+   * the default one when the microphone in use disappears.
+   */
+  private async handleDeviceChange(): Promise<void> {
+    const devices = await this.refreshInputDevices();
+    if (!this.stream) {
+      return;
+    }
+    const available = (deviceId: string | null) =>
+      deviceId === null || devices.some(device => device.deviceId === deviceId);
+    const preferred = this.getPreferredInputDevice();
+    const ended = this.stream.getAudioTracks().every(track => track.readyState === 'ended');
+
+    if (preferred !== this.activeInputDeviceId && available(preferred)) {
+      await this.switchInput(preferred);
+    } else if (ended || !available(this.activeInputDeviceId)) {
+      await this.switchInput(available(this.activeInputDeviceId) ? this.activeInputDeviceId : null);
     }
   }
 
-  private async playNextInQueue(): Promise<void> {
-    if (this.playQueue.length === 0) {
-      this.isPlayingFromQueue = false;
-      this.updateState({ isPlaying: false });
+  private async switchInput(deviceId: string | null): Promise<void> {
+    if (!this.audioContext) {
+      // Nothing is open yet; initializeAudio will use the remembered device
       return;
     }
+    const previous = this.stream;
+    this.stream = await this.openInputStream(deviceId);
+    if (this.source && this.workletNode) {
+      this.source.disconnect();
+      this.source = this.audioContext.createMediaStreamSource(this.stream);
+      this.source.connect(this.workletNode);
+    }
+    previous?.getTracks().forEach(track => {
+      track.removeEventListener('ended', this.onDeviceChange);
+      track.stop();
+    });
+    await this.refreshInputDevices();
+    console.log(`Microphone switched to ${deviceId ?? 'the default device'}`);
+  }
 
-    this.isPlayingFromQueue = true;
-    this.updateState({ isPlaying: true });
+  private async refreshInputDevices(): Promise<AudioInputDevice[]> {
+    const devices = (await navigator.mediaDevices.enumerateDevices())
+      .filter(device => device.kind === 'audioinput' && device.deviceId !== 'default' && device.deviceId !== '')
+      .map(({ deviceId, label }, index) => ({ deviceId, label: label || `Microphone ${index + 1}` }));
+    this.inputDevicesSubject.next(devices);
+    return devices;
+  }
 
-    const arrayBuffer = this.playQueue.shift()!;
+  private flushWorklet(workletNode: AudioWorkletNode): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => this.flushResolver?.(), this.FLUSH_TIMEOUT_MS);
+      this.flushResolver = () => {
+        clearTimeout(timer);
+        this.flushResolver = null;
+        resolve();
+      };
+      workletNode.port.postMessage({ type: 'flush' });
+    });
+  }
 
-    try {
-      if (this.audioContext!.state === 'suspended') {
-        await this.audioContext!.resume();
+  private handleRecordedFrame(
+    samples: Int16Array,
+    speech: boolean,
+    onDataAvailable: (frame: AudioFrame) => void,
+  ): void {
+    // Recorded as captured, including what voice activity detection holds back
+    this.conversationRecorder?.addUserAudio(samples, this.SAMPLE_RATE);
+    if (this.captureMode === 'hands-free') {
+      if (!speech) {
+        this.preRollFrames.push(samples);
+        if (this.preRollFrames.length > Math.ceil(this.PRE_ROLL_MS / this.frameMs)) {
+          this.preRollFrames.shift();
+        }
+        return;
       }
+      this.preRollFrames.forEach(frame => onDataAvailable(this.toAudioFrame(frame)));
+      this.preRollFrames = [];
+    }
+    onDataAvailable(this.toAudioFrame(samples));
+  }
+
+  private toAudioFrame(samples: Int16Array): AudioFrame {
+    // The worklet transfers a buffer per frame, so it can be sent as is
+    const data = samples.byteOffset === 0 && samples.byteLength === samples.buffer.byteLength
+      ? samples.buffer as ArrayBuffer
+      : samples.slice().buffer;
+    return {
+      data,
+      mimeType: `audio/pcm;rate=${this.SAMPLE_RATE}`
+    };
+  }
 
-      const audioBuffer = this.createAudioBufferFromPCM(arrayBuffer, 24000);
-      const source = this.audioContext!.createBufferSource();
-      source.buffer = audioBuffer;
-      source.connect(this.audioContext!.destination);
-      source.onended = () => this.playNextInQueue();
-      source.start();
+  private onSpeechStart(): void {
+    this.updateState({ isSpeaking: true });
+    // The user talking over the assistant interrupts it locally without
+    // waiting for the server's `interrupted` signal.
+    if (this.audioStateSubject.value.isPlaying) {
+      this.discardIncomingAudio = true;
+      this.interruptPlayback();
+      this.playbackInterruptedSubject.next();
+    }
+    this.voiceActivitySubject.next('start');
+  }
+
+  private onSpeechEnd(): void {
+    this.updateState({ isSpeaking: false });
+    this.voiceActivitySubject.next('end');
+  }
+
+  async playAudioFrame(frame: AudioFrame): Promise<void> {
+    if (this.discardIncomingAudio) {
+      return;
+    }
+    const pcmData = new Int16Array(frame.data);
+    const sampleRate = parsePcmSampleRate(frame.mimeType, this.DEFAULT_OUTPUT_SAMPLE_RATE);
+    this.conversationRecorder?.addAssistantAudio(pcmData, sampleRate);
+    try {
+      await this.player.enqueue(pcmData, sampleRate);
     } catch (error) {
       console.error('Error playing audio chunk:', error);
       this.updateState({ error: 'Failed to play audio' });
-      // Continue with the next chunk even if one fails
-      this.playNextInQueue();
     }
   }
 
-  private createAudioBufferFromPCM(arrayBuffer: ArrayBuffer, sampleRate: number): AudioBuffer {
-    const pcm16Data = new Int16Array(arrayBuffer);
-    const float32Data = this.pcm16ToFloat32(pcm16Data);
-    const audioBuffer = this.audioContext!.createBuffer(1, float32Data.length, sampleRate);
-    audioBuffer.copyToChannel(float32Data, 0);
-    return audioBuffer;
+  /**
+   * Stops the audio that is currently playing and drops everything scheduled
+   * behind it. Called when the server reports an interruption or the user
+   * starts talking over the assistant.
+   */
+  interruptPlayback(): void {
+    this.player.flush();
+    this.conversationRecorder?.interruptAssistant();
   }
 
   /**
-   * Convert PCM16 (Int16Array) to Float32Array for Web Audio API
+   * Starts recording both sides of the conversation (see
+   * {@link ConversationRecorder}), replacing any recording in progress.
    */
-  private pcm16ToFloat32(pcm16Data: Int16Array): Float32Array {
-    const float32Data = new Float32Array(pcm16Data.length);
-    for (let i = 0; i < pcm16Data.length; i++) {
-      // Convert from Int16 range (-32768 to 32767) to Float32 range (-1 to 1)
-      float32Data[i] = pcm16Data[i] / 32768.0;
-    }
-    return float32Data;
+  startConversationRecording(): void {
+    this.conversationRecorder = new ConversationRecorder();
+  }
+
+  get isRecordingConversation(): boolean {
+    return this.conversationRecorder !== null;
+  }
+
+  /**
+   * Stops recording the conversation and returns it as a stereo WAV: the user
+   * on the left channel, the assistant on the right. Null when nothing was
+   * recorded.
+   */
+  stopConversationRecording(): Blob | null {
+    const samples = this.conversationRecorder?.toStereo();
+    this.conversationRecorder = null;
+    return samples?.length ? this.createWAVFromPCM16(samples, ConversationRecorder.SAMPLE_RATE, 2) : null;
+  }
+
+  /**
+   * Called when the model's turn is over: lets the playback engine drain
+   * without counting it as an underrun, and re-enables playback after a local
+   * barge-in now that the server has moved on from the interrupted turn.
+   */
+  endOfTurn(): void {
+    this.discardIncomingAudio = false;
+    this.player.endStream();
+  }
+
+  private onPlaybackStats(stats: PlaybackStats): void {
+    this.updateState({
+      isPlaying: stats.isPlaying,
+      playbackBufferMs: stats.bufferedMs,
+      playbackUnderruns: stats.underruns
+    });
   }
 
   /**
@@ -183,40 +463,10 @@ this.workletNode.port.onmessage = (event: MessageEvent<Int16Array>) => {
   }
 
   /**
-   * Optimized Base64 encoding for Uint8Array
-   */
-  pcm16DataToBase64(pcm16Data: Uint8Array): string {
-    // In a browser environment, you can use btoa() directly after converting
-    // the Uint8Array to a string where each character represents a byte.
-    // This is generally suitable for smaller chunks. For very large amounts of data,
-    // consider alternative approaches if performance becomes an issue.
-
-    let binaryString = '';
-    // Iterate over each byte in the Uint8Array
-    for (let i = 0; i < pcm16Data.length; i++) {
-      // Convert each byte to its corresponding character
-      binaryString += String.fromCharCode(pcm16Data[i]);
-    }
-
-    // Encode the binary string to Base64
-    const base64Data = btoa(binaryString);
-    return base64Data;
-  }
-
-  private base64ToPCMBuffer(base64Data: string): Int16Array {
-    const binaryString = atob(base64Data);
-    const len = binaryString.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
-    return new Int16Array(bytes.buffer);
-  }
-
-  /**
-   * Create a WAV file from PCM16 data (useful for downloading/debugging)
+   * Create a WAV file from PCM16 data, interleaved when there is more than
+   * one channel
    */
-  createWAVFromPCM16(pcm16Data: Int16Array, sampleRate: number = this.SAMPLE_RATE): Blob {
+  createWAVFromPCM16(pcm16Data: Int16Array, sampleRate: number = this.SAMPLE_RATE, channels = 1): Blob {
     const buffer = new ArrayBuffer(44 + pcm16Data.length * 2);
     const view = new DataView(buffer);
     
@@ -236,10 +486,10 @@ this.workletNode.port.onmessage = (event: MessageEvent<Int16Array>) => {
     writeString(12, 'fmt ');
     view.setUint32(16, 16, true); // SubChunk1Size
     view.setUint16(20, 1, true); // AudioFormat (1 = PCM)
-    view.setUint16(22, 1, true); // NumChannels (1 = mono)
+    view.setUint16(22, channels, true); // NumChannels
     view.setUint32(24, sampleRate, true); // SampleRate
-    view.setUint32(28, sampleRate * 2, true); // ByteRate
-    view.setUint16(32, 2, true); // BlockAlign
+    view.setUint32(28, sampleRate * channels * 2, true); // ByteRate
+    view.setUint16(32, channels * 2, true); // BlockAlign
     view.setUint16(34, 16, true); // BitsPerSample
     
     // data sub-chunk
@@ -269,6 +519,10 @@ this.workletNode.port.onmessage = (event: MessageEvent<Int16Array>) => {
 
   cleanup(): void {
     this.stopRecording();
+    if (this.watchingDevices) {
+      navigator.mediaDevices.removeEventListener('devicechange', this.onDeviceChange);
+      this.watchingDevices = false;
+    }
     if (this.stream) {
       this.stream.getTracks().forEach(track => track.stop());
       this.stream = null;
@@ -277,9 +531,10 @@ this.workletNode.port.onmessage = (event: MessageEvent<Int16Array>) => {
       this.audioContext.close().catch(console.error);
       this.audioContext = null;
     }
-    this.playQueue = [];
-    this.isPlayingFromQueue = false;
-    this.updateState({ isRecording: false, isPlaying: false, error: null });
+    this.player.close().catch(console.error);
+    this.discardIncomingAudio = false;
+    this.conversationRecorder = null;
+    this.updateState({ isRecording: false, isSpeaking: false, isPlaying: false, error: null, playbackBufferMs: 0, inputLevel: { rms: 0, peak: 0 } });
     console.log('Audio service cleaned up');
   }
 }
\ No newline at end of file
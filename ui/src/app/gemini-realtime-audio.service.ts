@@ -1,32 +1,50 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject, Observable } from 'rxjs';
 import { io, Socket } from 'socket.io-client';
+import { PROTOCOL_VERSION } from '@api/protocol';
+import type { ClientToServerEvents, HandshakeErrorData, ServerToClientEvents } from '@api/protocol';
+import { API_URL } from './api.config';
+import { arrayBufferToBase64, base64ToArrayBuffer } from './audio-pcm.utils';
+import { AuthTokenService } from './auth-token.service';
+import {
+  AppMessage,
+  AudioChunk,
+  AudioFrame,
+  ChecklistProgress,
+  ClinicalSummary,
+  FinalTranscript,
+  QuotaExceeded,
+  QuotaUsage,
+  SessionConfig,
+  SessionOptions,
+  ToolCallEvent,
+  TranscriptionChunk,
+  UsageMetadata,
+} from './audio.model';
 
-// A standardized interface for messages from our service to the component
-export interface AppMessage {
-  type: 'text' | 'audio' | 'turn-complete' | 'error';
-  payload: any;
-}
-
-const environment = {
-  API_URL: 'http://localhost:3000/'
-}
+// Roughly a minute of microphone frames at the shortest (20 ms) frame length
+const MAX_BUFFERED_EMITS = 3000;
 
 @Injectable({
   providedIn: 'root'
 })
 export class GeminiRealtimeAudioService {
-  private socket: Socket;
+  private socket: Socket<ServerToClientEvents, ClientToServerEvents>;
+  // Input held back while the session is reconnecting, replayed once it is back
+  private buffered: (() => void)[] = [];
+  private resuming = false;
   private connectionStatus = new BehaviorSubject<string>('disconnected');
   private messages = new BehaviorSubject<AppMessage | null>(null);
+  private sessionConfig = new BehaviorSubject<SessionConfig | null>(null);
+  private sessionId = new BehaviorSubject<string | null>(null);
+  private quotaUsage = new BehaviorSubject<QuotaUsage | null>(null);
+  private checklistProgress = new BehaviorSubject<ChecklistProgress | null>(null);
 
-  
-
-  constructor() {
-    // Ensure the URL is correct for socket.io (remove trailing slash if present)
-    const url = environment.API_URL.endsWith('/') ? environment.API_URL.slice(0, -1) : environment.API_URL;
-    this.socket = io(url, {
-      transports: ['websocket']
+  constructor(private authToken: AuthTokenService) {
+    this.socket = io(API_URL, {
+      transports: ['websocket'],
+      // Read on every (re)connect so a new token takes effect without a reload
+      auth: (cb) => cb({ token: this.authToken.getToken(), protocolVersion: PROTOCOL_VERSION })
     });
 
     this.setupSocketListeners();
@@ -35,22 +53,76 @@ export class GeminiRealtimeAudioService {
   private setupSocketListeners(): void {
     this.socket.on('connect', () => {
       console.log('Connected to NestJS server');
-      this.connectionStatus.next('connected');
+      if (this.connectionStatus.value === 'reconnecting' && this.sessionId.value) {
+        // The server keeps the session open for a while after a drop
+        this.resuming = true;
+        this.socket.emit('resume-session', { sessionId: this.sessionId.value });
+      } else {
+        this.connectionStatus.next('connected');
+      }
+    });
+
+    // The server refuses the handshake without a valid token or from a
+    // client speaking another protocol version; socket.io does not retry
+    // either on its own
+    this.socket.on('connect_error', (error: Error & { data?: HandshakeErrorData }) => {
+      const code = error.data?.code;
+      if (code !== 'unauthorized' && code !== 'unsupported-protocol') {
+        console.warn('Connection failed:', error.message);
+        return;
+      }
+      console.error('Connection refused:', error.message);
+      this.resuming = false;
+      this.buffered = [];
+      this.sessionConfig.next(null);
+      if (code === 'unauthorized') {
+        this.connectionStatus.next('unauthorized');
+        this.messages.next({ type: 'error', payload: { message: `Not signed in: ${error.message}` } });
+      } else {
+        this.connectionStatus.next('error');
+        this.messages.next({ type: 'error', payload: { message: 'This page is out of date; reload it to reconnect.' } });
+      }
     });
 
     this.socket.on('disconnect', () => {
       console.log('Disconnected from NestJS server');
-      this.connectionStatus.next('disconnected');
+      const status = this.connectionStatus.value;
+      // socket.io reconnects on its own unless the disconnect was deliberate;
+      // a session in progress waits for it
+      const inSession = status === 'session-active' || status === 'reconnecting';
+      this.connectionStatus.next(inSession && this.socket.active ? 'reconnecting' : 'disconnected');
+    });
+
+    // Event from backend when Gemini session is ready, or reattached after a reconnect
+    this.socket.on('session-started', (data: { sessionId: string, config: SessionConfig, resumed?: boolean }) => {
+      console.log(data.resumed ? 'Realtime session resumed' : 'Realtime session started', data.sessionId, data.config);
+      this.resuming = false;
+      this.sessionConfig.next(data.config);
+      this.sessionId.next(data.sessionId);
+      this.connectionStatus.next('session-active');
+      this.flushBuffered();
+    });
+
+    // The server is moving the session to a new model connection
+    this.socket.on('session-reconnecting', (data: { reason: string }) => {
+      console.warn('Realtime session reconnecting:', data.reason);
+      this.connectionStatus.next('reconnecting');
     });
 
-    // Event from backend when Gemini session is ready
-    this.socket.on('session-started', () => {
-      console.log('Realtime session started');
+    this.socket.on('session-reconnected', () => {
+      console.log('Realtime session reconnected');
       this.connectionStatus.next('session-active');
+      this.flushBuffered();
     });
 
     this.socket.on('session-error', (error) => {
       console.error('Session error:', error);
+      if (this.resuming) {
+        // The session ended while we were away
+        this.resuming = false;
+        this.buffered = [];
+        this.sessionConfig.next(null);
+      }
       this.connectionStatus.next('error');
       this.messages.next({ type: 'error', payload: error });
     });
@@ -58,6 +130,8 @@ export class GeminiRealtimeAudioService {
     // Event from backend when Gemini session is explicitly closed
     this.socket.on('session-closed', (data) => {
       console.log('Session closed:', data.reason);
+      this.buffered = [];
+      this.sessionConfig.next(null);
       this.connectionStatus.next('connected'); // Or 'disconnected' depending on desired state
     });
 
@@ -67,30 +141,118 @@ export class GeminiRealtimeAudioService {
       this.messages.next({ type: 'text', payload: data.text });
     });
 
-    this.socket.on('audio-part', (data: { audio: { data: string; mimeType: string; } }) => {
-      this.messages.next({ type: 'audio', payload: data.audio });
+    this.socket.on('audio-frame', (frame: AudioFrame) => {
+      this.messages.next({ type: 'audio', payload: frame });
+    });
+
+    // Legacy base64 audio, sent when the session did not negotiate binary frames
+    this.socket.on('audio-part', (data: { audio: AudioChunk }) => {
+      this.messages.next({
+        type: 'audio',
+        payload: { data: base64ToArrayBuffer(data.audio.data), mimeType: data.audio.mimeType }
+      });
+    });
+
+    this.socket.on('input-transcription', (data: TranscriptionChunk) => {
+      this.messages.next({ type: 'input-transcription', payload: data });
+    });
+
+    this.socket.on('output-transcription', (data: TranscriptionChunk) => {
+      this.messages.next({ type: 'output-transcription', payload: data });
+    });
+
+    this.socket.on('transcript-final', (data: FinalTranscript) => {
+      this.messages.next({ type: 'transcript-final', payload: data });
+    });
+
+    this.socket.on('interrupted', () => {
+      this.messages.next({ type: 'interrupted', payload: null });
+    });
+
+    this.socket.on('generation-complete', () => {
+      this.messages.next({ type: 'generation-complete', payload: null });
     });
 
     this.socket.on('turn-complete', () => {
       this.messages.next({ type: 'turn-complete', payload: null });
     });
+
+    this.socket.on('usage-metadata', (usage: UsageMetadata) => {
+      this.messages.next({ type: 'usage', payload: usage });
+    });
+
+    this.socket.on('go-away', (data: { timeLeftMs: number | null }) => {
+      console.warn('Server will close the session soon:', data.timeLeftMs);
+      this.messages.next({ type: 'go-away', payload: data });
+    });
+
+    this.socket.on('summary-ready', (data: { summary: ClinicalSummary; submittedAt: string }) => {
+      this.messages.next({ type: 'summary-ready', payload: data });
+    });
+
+    this.socket.on('tool-call', (event: ToolCallEvent) => {
+      this.messages.next({ type: 'tool-call', payload: event });
+    });
+
+    this.socket.on('quota-exceeded', (data: QuotaExceeded) => {
+      console.warn('Quota exceeded:', data.quota, data.message);
+      this.messages.next({ type: 'quota-exceeded', payload: data });
+    });
+
+    this.socket.on('quota-usage', (usage: QuotaUsage) => {
+      this.quotaUsage.next(usage);
+    });
+
+    this.socket.on('checklist-progress', (progress: ChecklistProgress) => {
+      this.checklistProgress.next(progress);
+    });
+
+    this.socket.on('session-resumption-update', (data: { resumable: boolean }) => {
+      this.messages.next({ type: 'session-resumption', payload: data });
+    });
   }
 
   // --- UPDATED PUBLIC METHODS ---
 
-  startSession(): void {
-    this.socket.emit('start-session');
+  startSession(options: SessionOptions = {}): void {
+    this.socket.emit('start-session', options);
   }
 
-  // Changed from sendAudio to be more descriptive
-  sendAudioChunk(audioData: { data: string, mimeType: string }): void {
-    if (this.socket.connected) {
-      this.socket.emit('send-audio-chunk', audioData);
+  /**
+   * Sends a microphone frame as a binary attachment, or as base64 JSON when
+   * the session was started with `audioTransport: 'base64'`.
+   */
+  sendAudioFrame(frame: AudioFrame): void {
+    if (this.sessionConfig.value?.audioTransport === 'base64') {
+      const chunk: AudioChunk = { data: arrayBufferToBase64(frame.data), mimeType: frame.mimeType };
+      this.sendInput(() => this.socket.emit('send-audio-chunk', chunk));
+    } else {
+      this.sendInput(() => this.socket.emit('send-audio-frame', frame));
     }
   }
 
+  /** Marks the start of the user's turn (manual activity detection). */
+  sendActivityStart(): void {
+    this.sendInput(() => this.socket.emit('activity-start'));
+  }
+
+  /** Marks the end of the user's turn (manual activity detection). */
+  sendActivityEnd(): void {
+    this.sendInput(() => this.socket.emit('activity-end'));
+  }
+
+  /** Tells the model no more audio is coming when the microphone is closed (automatic activity detection). */
+  sendAudioStreamEnd(): void {
+    this.sendInput(() => this.socket.emit('audio-stream-end'));
+  }
+
   sendTextPart(text: string){
-    this.socket.emit('send-text', text);
+    this.sendInput(() => this.socket.emit('send-text', { text }));
+  }
+
+  /** Asks the model to cover the required checklist items still missing. */
+  coverChecklist(): void {
+    this.sendInput(() => this.socket.emit('cover-checklist'));
   }
 
   endSession(): void {
@@ -105,10 +267,58 @@ export class GeminiRealtimeAudioService {
     return this.connectionStatus.asObservable();
   }
 
+  getSessionConfig(): Observable<SessionConfig | null> {
+    return this.sessionConfig.asObservable();
+  }
+
+  /** The id under which the API records the current session. */
+  getSessionId(): Observable<string | null> {
+    return this.sessionId.asObservable();
+  }
+
+  /** The user's token budget as last reported by the API. */
+  getQuotaUsage(): Observable<QuotaUsage | null> {
+    return this.quotaUsage.asObservable();
+  }
+
+  getChecklistProgress(): Observable<ChecklistProgress | null> {
+    return this.checklistProgress.asObservable();
+  }
+
   getMessages(): Observable<AppMessage | null> {
     return this.messages.asObservable();
   }
 
+  /**
+   * Sends session input, or holds it back while the session is reconnecting
+   * so nothing the user says in the meantime is lost.
+   */
+  private sendInput(emit: () => void): void {
+    if (this.connectionStatus.value === 'reconnecting') {
+      this.buffered.push(emit);
+      if (this.buffered.length > MAX_BUFFERED_EMITS) {
+        this.buffered.shift();
+      }
+    } else if (this.socket.connected) {
+      emit();
+    }
+  }
+
+  private flushBuffered(): void {
+    const buffered = this.buffered;
+    this.buffered = [];
+    for (const emit of buffered) {
+      this.sendInput(emit);
+    }
+  }
+
+  /** Stores a new access token and connects with it. */
+  signIn(token: string): void {
+    this.authToken.setToken(token);
+    this.socket.disconnect();
+    this.socket.connect();
+  }
+
   disconnect(): void {
     this.endSession();
     this.socket.disconnect();
@@ -0,0 +1,69 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { Subject, takeUntil } from 'rxjs';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { GeminiAudioService } from './gemini-audio.service';
+import { AudioInputDevice, InputLevel } from './audio.model';
+
+/**
+ * The microphone picker, mute button and input level meter. The choices live
+ * in GeminiAudioService, so they apply to the recording whoever starts it.
+ */
+@Component({
+  selector: 'app-microphone-controls',
+  imports: [CommonModule, FormsModule],
+  templateUrl: './microphone-controls.component.html',
+  styleUrls: ['./microphone-controls.component.scss']
+})
+export class MicrophoneControlsComponent implements OnInit, OnDestroy {
+  inputDevices: AudioInputDevice[] = [];
+  inputDeviceId: string | null = null;
+  inputLevel: InputLevel = { rms: 0, peak: 0 };
+  isMuted = false;
+  isRecording = false;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(private audioService: GeminiAudioService) { }
+
+  ngOnInit(): void {
+    this.audioService.audioState$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(audioState => {
+        this.inputLevel = audioState.inputLevel;
+        this.isMuted = audioState.isMuted;
+        this.inputDeviceId = audioState.inputDeviceId;
+        this.isRecording = audioState.isRecording;
+      });
+
+    this.audioService.inputDevices$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(devices => this.inputDevices = devices);
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /** Switches microphones; a recording in progress carries on from the new one. */
+  selectInputDevice(deviceId: string | null): void {
+    this.audioService.selectInputDevice(deviceId);
+  }
+
+  toggleMute(): void {
+    this.audioService.setMuted(!this.isMuted);
+  }
+
+  /**
+   * The meter's fill, in percent. Levels are shown on a decibel scale from
+   * -60 dBFS, which matches how loud speech sounds better than raw amplitude.
+   */
+  levelPercent(amplitude: number): number {
+    if (amplitude <= 0) {
+      return 0;
+    }
+    const decibels = 20 * Math.log10(amplitude);
+    return Math.max(0, Math.min(100, (decibels + 60) / 60 * 100));
+  }
+}
@@ -1,5 +1,6 @@
+import { PolyphaseResampler } from './pcm-resampler.js';
+
 function float32ToPcm16(float32Array: Float32Array): Int16Array {
-  // ... (implementation is correct)
   const pcm16 = new Int16Array(float32Array.length);
   for (let i = 0; i < float32Array.length; i++) {
     const s = Math.max(-1, Math.min(1, float32Array[i]));
@@ -8,13 +9,120 @@ function float32ToPcm16(float32Array: Float32Array): Int16Array {
   return pcm16;
 }
 
+/**
+ * Voice activity detection settings, passed in `processorOptions.vad`.
+ */
+interface VadOptions {
+  /** Lowest RMS energy that can count as speech, whatever the noise floor. */
+  minEnergy: number;
+  /** How far above the estimated noise floor speech must be. */
+  noiseFloorRatio: number;
+  /** Zero-crossing rate above which quiet audio is treated as noise/hiss. */
+  maxZeroCrossingRate: number;
+  /** Speech needed before `speech-start` is reported. */
+  minSpeechMs: number;
+  /** Silence needed before `speech-end` is reported. */
+  hangoverMs: number;
+}
+
+const DEFAULT_VAD_OPTIONS: VadOptions = {
+  minEnergy: 0.01,
+  noiseFloorRatio: 3,
+  maxZeroCrossingRate: 0.3,
+  minSpeechMs: 60,
+  hangoverMs: 800,
+};
+
+// Length of the analysis window used for the speech decision
+const VAD_WINDOW_MS = 20;
+
+// How often the input level is reported for the meter
+const LEVEL_INTERVAL_MS = 50;
+
+// Duration of each `audio` frame unless `processorOptions.frameMs` says
+// otherwise, and the range that option is clamped to
+const DEFAULT_FRAME_MS = 100;
+const MIN_FRAME_MS = 20;
+const MAX_FRAME_MS = 1000;
+
+/**
+ * Messages posted to the main thread.
+ *  - `audio`: a frame of 16-bit PCM at the target rate, flagged with whether
+ *    the user was speaking during it
+ *  - `speech-start` / `speech-end`: voice activity transitions
+ *  - `level`: RMS and peak amplitude (0 to 1) of the input over the last
+ *    50 ms, for the level meter
+ *  - `flushed`: reply to a `flush` request, after the partial frame was sent
+ */
+type RecorderMessage =
+  | { type: 'audio'; samples: Int16Array; speech: boolean }
+  | { type: 'speech-start' }
+  | { type: 'speech-end' }
+  | { type: 'level'; rms: number; peak: number }
+  | { type: 'flushed' };
+
+interface RecorderOptions {
+  processorOptions?: {
+    targetSampleRate?: number;
+    /** Duration of each `audio` frame, 20 to 1000 ms. */
+    frameMs?: number;
+    vad?: Partial<VadOptions>;
+  };
+}
+
 class PcmRecorderProcessor extends AudioWorkletProcessor {
-  private bufferSize = 4096;
-  private _buffer: Int16Array = new Int16Array(this.bufferSize);
+  private bufferSize: number;
+  private _buffer: Int16Array;
   private _bytesWritten = 0;
+  private _frameHasSpeech = false;
+
+  private targetSampleRate: number;
+  // Null when the context already runs at the target rate
+  private resampler: PolyphaseResampler | null;
+  private vad: VadOptions;
+
+  // Voice activity state
+  private windowSize: number;
+  private window: Float32Array;
+  private windowFill = 0;
+  private noiseFloor = 0;
+  private speaking = false;
+  private speechMs = 0;
+  private silenceMs = 0;
+
+  // Level meter state
+  private levelInterval: number;
+  private levelSamples = 0;
+  private levelSumSquares = 0;
+  private levelPeak = 0;
 
-  constructor() {
+  constructor(options?: RecorderOptions) {
     super();
+    this.targetSampleRate = options?.processorOptions?.targetSampleRate ?? sampleRate;
+    // `sampleRate` is the rate the context really runs at (usually the
+    // hardware's), which is not necessarily the target
+    this.resampler = this.targetSampleRate === sampleRate
+      ? null
+      : new PolyphaseResampler(sampleRate, this.targetSampleRate);
+    const frameMs = Math.min(MAX_FRAME_MS, Math.max(MIN_FRAME_MS, options?.processorOptions?.frameMs ?? DEFAULT_FRAME_MS));
+    this.bufferSize = Math.round((this.targetSampleRate * frameMs) / 1000);
+    this._buffer = new Int16Array(this.bufferSize);
+    this.vad = { ...DEFAULT_VAD_OPTIONS, ...options?.processorOptions?.vad };
+    this.windowSize = Math.round((sampleRate * VAD_WINDOW_MS) / 1000);
+    this.window = new Float32Array(this.windowSize);
+    this.levelInterval = Math.round((sampleRate * LEVEL_INTERVAL_MS) / 1000);
+
+    // The main thread asks for the partial frame before it stops recording,
+    // so the end of an utterance is not lost.
+    this.port.onmessage = (event: MessageEvent<{ type: string }>) => {
+      if (event.data?.type === 'flush') {
+        if (this._bytesWritten > 0) {
+          this._buffer = this._buffer.slice(0, this._bytesWritten);
+          this.flushFrame();
+        }
+        this.post({ type: 'flushed' });
+      }
+    };
   }
 
   process(inputs: Float32Array[][]): boolean {
@@ -24,24 +132,117 @@ class PcmRecorderProcessor extends AudioWorkletProcessor {
       return true;
     }
 
-    const pcm16Data = float32ToPcm16(inputChannel);
+    this.measureLevel(inputChannel);
+    this.detectVoiceActivity(inputChannel);
+
+    const resampled = this.resampler ? this.resampler.process(inputChannel) : inputChannel;
+    const pcm16Data = float32ToPcm16(resampled);
 
     for (let i = 0; i < pcm16Data.length; i++) {
-        this._buffer[this._bytesWritten++] = pcm16Data[i];
-    }
-    
-    if (this._bytesWritten >= this.bufferSize) {
-      // This is a more performant way to send the data.
-      // The second argument transfers ownership of the buffer's memory
-      // instead of copying it.
-      this.port.postMessage(this._buffer, [this._buffer.buffer]);
-      
-      this._buffer = new Int16Array(this.bufferSize);
-      this._bytesWritten = 0;
+      this._buffer[this._bytesWritten++] = pcm16Data[i];
+
+      if (this._bytesWritten >= this.bufferSize) {
+        this.flushFrame();
+      }
     }
 
     return true;
   }
+
+  private flushFrame(): void {
+    const message: RecorderMessage = {
+      type: 'audio',
+      samples: this._buffer,
+      speech: this._frameHasSpeech || this.speaking,
+    };
+    // The second argument transfers ownership of the buffer's memory
+    // instead of copying it.
+    this.port.postMessage(message, [this._buffer.buffer]);
+
+    this._buffer = new Int16Array(this.bufferSize);
+    this._bytesWritten = 0;
+    this._frameHasSpeech = false;
+  }
+
+  private measureLevel(input: Float32Array): void {
+    for (let i = 0; i < input.length; i++) {
+      const sample = input[i];
+      this.levelSumSquares += sample * sample;
+      this.levelPeak = Math.max(this.levelPeak, Math.abs(sample));
+      if (++this.levelSamples < this.levelInterval) {
+        continue;
+      }
+      this.post({
+        type: 'level',
+        rms: Math.sqrt(this.levelSumSquares / this.levelSamples),
+        peak: Math.min(1, this.levelPeak),
+      });
+      this.levelSamples = 0;
+      this.levelSumSquares = 0;
+      this.levelPeak = 0;
+    }
+  }
+
+  /**
+   * Energy and zero-crossing-rate voice activity detection over 20 ms
+   * windows. The noise floor is tracked while the user is silent so the
+   * detector adapts to the room.
+   */
+  private detectVoiceActivity(input: Float32Array): void {
+    for (let i = 0; i < input.length; i++) {
+      this.window[this.windowFill++] = input[i];
+      if (this.windowFill < this.windowSize) {
+        continue;
+      }
+      this.windowFill = 0;
+
+      let sumSquares = 0;
+      let crossings = 0;
+      for (let j = 0; j < this.windowSize; j++) {
+        sumSquares += this.window[j] * this.window[j];
+        if (j > 0 && (this.window[j] >= 0) !== (this.window[j - 1] >= 0)) {
+          crossings++;
+        }
+      }
+      const energy = Math.sqrt(sumSquares / this.windowSize);
+      const zeroCrossingRate = crossings / this.windowSize;
+
+      const threshold = Math.max(this.vad.minEnergy, this.noiseFloor * this.vad.noiseFloorRatio);
+      // Loud audio is speech whatever its ZCR; quieter audio only if it is not hiss
+      const isSpeech = energy >= threshold
+        && (zeroCrossingRate <= this.vad.maxZeroCrossingRate || energy >= threshold * 4);
+
+      if (!isSpeech) {
+        this.noiseFloor = this.noiseFloor === 0 ? energy : this.noiseFloor * 0.95 + energy * 0.05;
+      }
+      this.updateSpeechState(isSpeech);
+    }
+  }
+
+  private updateSpeechState(isSpeech: boolean): void {
+    if (isSpeech) {
+      this._frameHasSpeech = true;
+      this.speechMs += VAD_WINDOW_MS;
+      this.silenceMs = 0;
+      if (!this.speaking && this.speechMs >= this.vad.minSpeechMs) {
+        this.speaking = true;
+        this.post({ type: 'speech-start' });
+      }
+    } else {
+      this.silenceMs += VAD_WINDOW_MS;
+      if (this.silenceMs >= VAD_WINDOW_MS * 3) {
+        this.speechMs = 0;
+      }
+      if (this.speaking && this.silenceMs >= this.vad.hangoverMs) {
+        this.speaking = false;
+        this.post({ type: 'speech-end' });
+      }
+    }
+  }
+
+  private post(message: RecorderMessage): void {
+    this.port.postMessage(message);
+  }
 }
 
-registerProcessor('pcm-recorder-processor', PcmRecorderProcessor);
\ No newline at end of file
+registerProcessor('pcm-recorder-processor', PcmRecorderProcessor);
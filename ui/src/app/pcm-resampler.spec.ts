@@ -0,0 +1,100 @@
+import { PolyphaseResampler } from './pcm-resampler';
+
+function sine(frequency: number, sampleRate: number, seconds: number, amplitude = 0.5): Float32Array {
+  const samples = new Float32Array(Math.round(sampleRate * seconds));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  }
+  return samples;
+}
+
+// Skips the filter's start-up transient
+const SETTLE_SAMPLES = 200;
+
+/** Frequency estimated from the rising zero crossings, interpolated between samples. */
+function measureFrequency(samples: Float32Array, sampleRate: number): number {
+  let first: number | null = null;
+  let last = 0;
+  let cycles = 0;
+  for (let i = SETTLE_SAMPLES; i < samples.length - 1; i++) {
+    if (samples[i] <= 0 && samples[i + 1] > 0) {
+      const crossing = i + samples[i] / (samples[i] - samples[i + 1]);
+      if (first === null) {
+        first = crossing;
+      } else {
+        last = crossing;
+        cycles++;
+      }
+    }
+  }
+  return (cycles * sampleRate) / (last - (first ?? 0));
+}
+
+function rms(samples: Float32Array): number {
+  let sumSquares = 0;
+  for (let i = SETTLE_SAMPLES; i < samples.length; i++) {
+    sumSquares += samples[i] * samples[i];
+  }
+  return Math.sqrt(sumSquares / (samples.length - SETTLE_SAMPLES));
+}
+
+describe('PolyphaseResampler', () => {
+  for (const inputRate of [48000, 44100, 22050, 8000]) {
+    it(`keeps the frequency and level of a tone from ${inputRate} Hz to 16 kHz`, () => {
+      const resampler = new PolyphaseResampler(inputRate, 16000);
+
+      const output = resampler.process(sine(1000, inputRate, 1));
+
+      expect(output.length).toBe(16000);
+      expect(measureFrequency(output, 16000)).toBeCloseTo(1000, 1);
+      expect(rms(output)).toBeCloseTo(0.5 / Math.SQRT2, 2);
+    });
+  }
+
+  it('reduces the rates to their smallest ratio', () => {
+    const resampler = new PolyphaseResampler(44100, 16000);
+
+    expect([resampler.up, resampler.down]).toEqual([160, 441]);
+  });
+
+  it('filters out tones above the output Nyquist frequency instead of aliasing them', () => {
+    // Without filtering, 12 kHz would fold back to 4 kHz at 16 kHz
+    expect(rms(new PolyphaseResampler(48000, 16000).process(sine(12000, 48000, 1)))).toBeLessThan(0.001);
+    expect(rms(new PolyphaseResampler(44100, 16000).process(sine(10000, 44100, 1)))).toBeLessThan(0.001);
+  });
+
+  it('gives the same output in render-quantum chunks as in one go', () => {
+    const input = sine(440, 44100, 0.25);
+    const whole = new PolyphaseResampler(44100, 16000).process(input);
+
+    const chunked = new PolyphaseResampler(44100, 16000);
+    const parts: number[] = [];
+    for (let i = 0; i < input.length; i += 128) {
+      parts.push(...chunked.process(input.subarray(i, i + 128)));
+    }
+
+    expect(parts.length).toBe(whole.length);
+    expect(parts).toEqual(Array.from(whole));
+  });
+
+  it('keeps a constant signal constant', () => {
+    const output = new PolyphaseResampler(48000, 16000).process(new Float32Array(4800).fill(0.5));
+
+    expect(output[output.length - 1]).toBeCloseTo(0.5, 5);
+  });
+
+  it('starts from silence again after a reset', () => {
+    const resampler = new PolyphaseResampler(48000, 16000);
+    const input = sine(1000, 48000, 0.01);
+    const first = resampler.process(input);
+
+    resampler.process(sine(3000, 48000, 0.01));
+    resampler.reset();
+
+    expect(resampler.process(input)).toEqual(first);
+  });
+
+  it('rejects non-integer rates', () => {
+    expect(() => new PolyphaseResampler(44100.5, 16000)).toThrowError(RangeError);
+  });
+});
@@ -0,0 +1,212 @@
+import { pcm16ToFloat32 } from './audio-pcm.utils';
+
+/**
+ * Snapshot of the playback engine, reported after every change.
+ */
+export interface PlaybackStats {
+  isPlaying: boolean;
+  /** Audio scheduled ahead of the playhead, in milliseconds. */
+  bufferedMs: number;
+  /** Times playback ran dry and had to restart after a gap. */
+  underruns: number;
+}
+
+export interface ScheduledAudioPlayerOptions {
+  /** Audio to collect before starting (or restarting after an underrun). */
+  prebufferMs?: number;
+  /** Longest wait for the prebuffer to fill before starting anyway. */
+  maxPrebufferWaitMs?: number;
+  /** Fade applied when playback is flushed, to avoid a click. */
+  fadeOutMs?: number;
+}
+
+/**
+ * Gapless PCM playback on the AudioContext clock.
+ *
+ * Each chunk becomes an AudioBuffer at the chunk's own sample rate and is
+ * started exactly when the previous one ends, so consecutive chunks join
+ * sample-accurately. The browser resamples every buffer to the hardware rate
+ * of the output context. A small jitter buffer is filled before playback
+ * starts so that network jitter does not immediately cause an underrun.
+ */
+export class ScheduledAudioPlayer {
+  private context: AudioContext | null = null;
+  private output: GainNode | null = null;
+  private activeSources = new Set<AudioBufferSourceNode>();
+  private nextStartTime = 0;
+  private underruns = 0;
+  // Set once the sender has no more audio for the current turn, so that
+  // running dry afterwards is not counted as an underrun.
+  private streamEnded = false;
+
+  // Chunks held back while the jitter buffer fills
+  private pending: AudioBuffer[] = [];
+  private pendingMs = 0;
+  private prebufferTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private readonly prebufferMs: number;
+  private readonly maxPrebufferWaitMs: number;
+  private readonly fadeOutMs: number;
+
+  constructor(
+    private readonly onStats: (stats: PlaybackStats) => void,
+    options: ScheduledAudioPlayerOptions = {},
+  ) {
+    this.prebufferMs = options.prebufferMs ?? 120;
+    this.maxPrebufferWaitMs = options.maxPrebufferWaitMs ?? 150;
+    this.fadeOutMs = options.fadeOutMs ?? 15;
+  }
+
+  /**
+   * Queues a chunk of 16-bit PCM for playback right after what is already
+   * scheduled.
+   */
+  async enqueue(pcm16: Int16Array, sampleRate: number): Promise<void> {
+    const context = await this.ensureContext();
+    const buffer = context.createBuffer(1, pcm16.length, sampleRate);
+    buffer.copyToChannel(pcm16ToFloat32(pcm16), 0);
+
+    if (this.isScheduling()) {
+      this.schedule(buffer);
+      this.reportStats();
+      return;
+    }
+
+    // Idle or ran dry: fill the jitter buffer before starting again
+    this.pending.push(buffer);
+    this.pendingMs += buffer.duration * 1000;
+    if (this.pendingMs >= this.prebufferMs) {
+      this.startPending();
+    } else if (!this.prebufferTimer) {
+      this.prebufferTimer = setTimeout(() => this.startPending(), this.maxPrebufferWaitMs);
+    }
+  }
+
+  /**
+   * Marks the end of the current stream of chunks (the model's turn is over).
+   */
+  endStream(): void {
+    if (this.pending.length > 0) {
+      this.startPending();
+    }
+    if (this.activeSources.size === 0) {
+      this.nextStartTime = 0;
+    } else {
+      this.streamEnded = true;
+    }
+  }
+
+  /**
+   * Stops everything that is playing or scheduled, with a short fade-out.
+   */
+  flush(): void {
+    this.clearPending();
+    if (this.context && this.output && this.activeSources.size > 0) {
+      const now = this.context.currentTime;
+      const fadeSeconds = this.fadeOutMs / 1000;
+      this.output.gain.cancelScheduledValues(now);
+      this.output.gain.setValueAtTime(this.output.gain.value, now);
+      this.output.gain.linearRampToValueAtTime(0, now + fadeSeconds);
+      for (const source of this.activeSources) {
+        source.onended = null;
+        try {
+          source.stop(now + fadeSeconds);
+        } catch {
+          // Already stopped
+        }
+      }
+      this.output.gain.setValueAtTime(1, now + fadeSeconds);
+    }
+    this.activeSources.clear();
+    this.nextStartTime = 0;
+    this.streamEnded = false;
+    this.reportStats();
+  }
+
+  async close(): Promise<void> {
+    this.flush();
+    const context = this.context;
+    this.context = null;
+    this.output = null;
+    if (context && context.state !== 'closed') {
+      await context.close();
+    }
+  }
+
+  private async ensureContext(): Promise<AudioContext> {
+    if (!this.context) {
+      // Runs at the hardware's native rate; buffers are resampled on playback
+      this.context = new AudioContext({ latencyHint: 'interactive' });
+      this.output = this.context.createGain();
+      this.output.connect(this.context.destination);
+    }
+    if (this.context.state === 'suspended') {
+      await this.context.resume();
+    }
+    return this.context;
+  }
+
+  private isScheduling(): boolean {
+    return !!this.context && this.activeSources.size > 0 && this.nextStartTime > this.context.currentTime;
+  }
+
+  private startPending(): void {
+    if (this.prebufferTimer) {
+      clearTimeout(this.prebufferTimer);
+      this.prebufferTimer = null;
+    }
+    if (!this.context || this.pending.length === 0) {
+      return;
+    }
+    if (this.nextStartTime > 0) {
+      // We were playing before and ran out of audio
+      this.underruns++;
+    }
+    this.nextStartTime = this.context.currentTime + 0.01;
+    for (const buffer of this.pending) {
+      this.schedule(buffer);
+    }
+    this.pending = [];
+    this.pendingMs = 0;
+    this.reportStats();
+  }
+
+  private schedule(buffer: AudioBuffer): void {
+    const context = this.context!;
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.output!);
+    source.onended = () => {
+      this.activeSources.delete(source);
+      source.disconnect();
+      if (this.activeSources.size === 0 && this.streamEnded) {
+        this.streamEnded = false;
+        this.nextStartTime = 0;
+      }
+      this.reportStats();
+    };
+
+    const startAt = Math.max(this.nextStartTime, context.currentTime);
+    source.start(startAt);
+    this.nextStartTime = startAt + buffer.duration;
+    this.activeSources.add(source);
+  }
+
+  private clearPending(): void {
+    if (this.prebufferTimer) {
+      clearTimeout(this.prebufferTimer);
+      this.prebufferTimer = null;
+    }
+    this.pending = [];
+    this.pendingMs = 0;
+  }
+
+  private reportStats(): void {
+    const now = this.context?.currentTime ?? 0;
+    this.onStats({
+      isPlaying: this.activeSources.size > 0,
+      bufferedMs: Math.max(0, Math.round((this.nextStartTime - now) * 1000)),
+      underruns: this.underruns,
+    });
+  }
+}
@@ -0,0 +1,47 @@
+import { HttpClient } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { API_URL } from './api.config';
+import { ExportFormat, SessionListItem, SessionRecord } from './audio.model';
+
+/**
+ * Reads the conversation history the API records for every session, and
+ * remembers the last session so it can be restored after a reload.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SessionHistoryService {
+  private readonly LAST_SESSION_KEY = 'gemini-poc.lastSessionId';
+
+  constructor(private http: HttpClient) { }
+
+  listSessions(): Observable<SessionListItem[]> {
+    return this.http.get<SessionListItem[]>(`${API_URL}/sessions`);
+  }
+
+  getSession(id: string): Observable<SessionRecord> {
+    return this.http.get<SessionRecord>(`${API_URL}/sessions/${encodeURIComponent(id)}`);
+  }
+
+  /** The session's summary and transcript, rendered by the API as a document. */
+  exportSession(id: string, format: ExportFormat): Observable<Blob> {
+    return this.http.get(`${API_URL}/sessions/${encodeURIComponent(id)}/export/${format}`, { responseType: 'blob' });
+  }
+
+  deleteSession(id: string): Observable<void> {
+    return this.http.delete<void>(`${API_URL}/sessions/${encodeURIComponent(id)}`);
+  }
+
+  rememberSession(id: string): void {
+    localStorage.setItem(this.LAST_SESSION_KEY, id);
+  }
+
+  getLastSessionId(): string | null {
+    return localStorage.getItem(this.LAST_SESSION_KEY);
+  }
+
+  forgetLastSession(): void {
+    localStorage.removeItem(this.LAST_SESSION_KEY);
+  }
+}
@@ -0,0 +1,21 @@
+import { HttpClient } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { API_URL } from './api.config';
+import { PromptTemplate } from './audio.model';
+
+/**
+ * Reads the prompt templates sessions can be started from. Templates are
+ * managed through the API; the UI only picks one and fills in its variables.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TemplateLibraryService {
+  constructor(private http: HttpClient) { }
+
+  /** The latest version of every template. */
+  listTemplates(): Observable<PromptTemplate[]> {
+    return this.http.get<PromptTemplate[]>(`${API_URL}/templates`);
+  }
+}
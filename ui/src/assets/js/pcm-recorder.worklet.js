@@ -1,101 +1,169 @@
-
-class PCMRecorderProcessor extends AudioWorkletProcessor {
-  // Use static getter to define parameters if needed, though not required for this simple case.
-  
-  constructor() {
-    super();
-    this.bufferSize = 4096; // The size of chunks we want to send
-    this.buffer = new Float32Array(0); // Use a Float32Array for the buffer for efficiency
-    
-    // The target sample rate for the output
-    this.targetSampleRate = 16000;
-    
-    // The actual sample rate of the AudioContext is available as a global
-    // in the AudioWorkletGlobalScope.
-    this.inputSampleRate = sampleRate;
-    
-    console.log(`AudioWorklet started with input sample rate: ${this.inputSampleRate}`);
-  }
-
-  /**
-   * Appends new data to the internal buffer.
-   */
-  append(data) {
-    const newBuffer = new Float32Array(this.buffer.length + data.length);
-    newBuffer.set(this.buffer);
-    newBuffer.set(data, this.buffer.length);
-    this.buffer = newBuffer;
-  }
-
-  /**
-   * Convert Float32Array to Int16Array (PCM16 format)
-   */
-  float32ToPCM16(float32Array) {
+import { PolyphaseResampler } from './pcm-resampler.js';
+function float32ToPcm16(float32Array) {
     const pcm16 = new Int16Array(float32Array.length);
     for (let i = 0; i < float32Array.length; i++) {
-      const sample = Math.max(-1, Math.min(1, float32Array[i]));
-      pcm16[i] = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
+        const s = Math.max(-1, Math.min(1, float32Array[i]));
+        pcm16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
     }
     return pcm16;
-  }
-
-  /**
-   * Simple downsampling using linear interpolation.
-   */
-  downsample(buffer) {
-    if (this.inputSampleRate === this.targetSampleRate) {
-      return buffer;
+}
+const DEFAULT_VAD_OPTIONS = {
+    minEnergy: 0.01,
+    noiseFloorRatio: 3,
+    maxZeroCrossingRate: 0.3,
+    minSpeechMs: 60,
+    hangoverMs: 800,
+};
+// Length of the analysis window used for the speech decision
+const VAD_WINDOW_MS = 20;
+// How often the input level is reported for the meter
+const LEVEL_INTERVAL_MS = 50;
+// Duration of each `audio` frame unless `processorOptions.frameMs` says
+// otherwise, and the range that option is clamped to
+const DEFAULT_FRAME_MS = 100;
+const MIN_FRAME_MS = 20;
+const MAX_FRAME_MS = 1000;
+class PcmRecorderProcessor extends AudioWorkletProcessor {
+    constructor(options) {
+        super();
+        this._bytesWritten = 0;
+        this._frameHasSpeech = false;
+        this.windowFill = 0;
+        this.noiseFloor = 0;
+        this.speaking = false;
+        this.speechMs = 0;
+        this.silenceMs = 0;
+        this.levelSamples = 0;
+        this.levelSumSquares = 0;
+        this.levelPeak = 0;
+        this.targetSampleRate = options?.processorOptions?.targetSampleRate ?? sampleRate;
+        // `sampleRate` is the rate the context really runs at (usually the
+        // hardware's), which is not necessarily the target
+        this.resampler = this.targetSampleRate === sampleRate
+            ? null
+            : new PolyphaseResampler(sampleRate, this.targetSampleRate);
+        const frameMs = Math.min(MAX_FRAME_MS, Math.max(MIN_FRAME_MS, options?.processorOptions?.frameMs ?? DEFAULT_FRAME_MS));
+        this.bufferSize = Math.round((this.targetSampleRate * frameMs) / 1000);
+        this._buffer = new Int16Array(this.bufferSize);
+        this.vad = { ...DEFAULT_VAD_OPTIONS, ...options?.processorOptions?.vad };
+        this.windowSize = Math.round((sampleRate * VAD_WINDOW_MS) / 1000);
+        this.window = new Float32Array(this.windowSize);
+        this.levelInterval = Math.round((sampleRate * LEVEL_INTERVAL_MS) / 1000);
+        // The main thread asks for the partial frame before it stops recording,
+        // so the end of an utterance is not lost.
+        this.port.onmessage = (event) => {
+            if (event.data?.type === 'flush') {
+                if (this._bytesWritten > 0) {
+                    this._buffer = this._buffer.slice(0, this._bytesWritten);
+                    this.flushFrame();
+                }
+                this.post({ type: 'flushed' });
+            }
+        };
+    }
+    process(inputs) {
+        const inputChannel = inputs[0]?.[0];
+        if (!inputChannel) {
+            return true;
+        }
+        this.measureLevel(inputChannel);
+        this.detectVoiceActivity(inputChannel);
+        const resampled = this.resampler ? this.resampler.process(inputChannel) : inputChannel;
+        const pcm16Data = float32ToPcm16(resampled);
+        for (let i = 0; i < pcm16Data.length; i++) {
+            this._buffer[this._bytesWritten++] = pcm16Data[i];
+            if (this._bytesWritten >= this.bufferSize) {
+                this.flushFrame();
+            }
+        }
+        return true;
+    }
+    flushFrame() {
+        const message = {
+            type: 'audio',
+            samples: this._buffer,
+            speech: this._frameHasSpeech || this.speaking,
+        };
+        // The second argument transfers ownership of the buffer's memory
+        // instead of copying it.
+        this.port.postMessage(message, [this._buffer.buffer]);
+        this._buffer = new Int16Array(this.bufferSize);
+        this._bytesWritten = 0;
+        this._frameHasSpeech = false;
+    }
+    measureLevel(input) {
+        for (let i = 0; i < input.length; i++) {
+            const sample = input[i];
+            this.levelSumSquares += sample * sample;
+            this.levelPeak = Math.max(this.levelPeak, Math.abs(sample));
+            if (++this.levelSamples < this.levelInterval) {
+                continue;
+            }
+            this.post({
+                type: 'level',
+                rms: Math.sqrt(this.levelSumSquares / this.levelSamples),
+                peak: Math.min(1, this.levelPeak),
+            });
+            this.levelSamples = 0;
+            this.levelSumSquares = 0;
+            this.levelPeak = 0;
+        }
     }
-    
-    const sampleRateRatio = this.inputSampleRate / this.targetSampleRate;
-    const newLength = Math.round(buffer.length / sampleRateRatio);
-    const result = new Float32Array(newLength);
-    
-    for (let i = 0; i < newLength; i++) {
-        // A simple but effective way: take the sample at the corresponding position
-        const index = i * sampleRateRatio;
-        result[i] = buffer[Math.floor(index)];
+    /**
+     * Energy and zero-crossing-rate voice activity detection over 20 ms
+     * windows. The noise floor is tracked while the user is silent so the
+     * detector adapts to the room.
+     */
+    detectVoiceActivity(input) {
+        for (let i = 0; i < input.length; i++) {
+            this.window[this.windowFill++] = input[i];
+            if (this.windowFill < this.windowSize) {
+                continue;
+            }
+            this.windowFill = 0;
+            let sumSquares = 0;
+            let crossings = 0;
+            for (let j = 0; j < this.windowSize; j++) {
+                sumSquares += this.window[j] * this.window[j];
+                if (j > 0 && (this.window[j] >= 0) !== (this.window[j - 1] >= 0)) {
+                    crossings++;
+                }
+            }
+            const energy = Math.sqrt(sumSquares / this.windowSize);
+            const zeroCrossingRate = crossings / this.windowSize;
+            const threshold = Math.max(this.vad.minEnergy, this.noiseFloor * this.vad.noiseFloorRatio);
+            // Loud audio is speech whatever its ZCR; quieter audio only if it is not hiss
+            const isSpeech = energy >= threshold
+                && (zeroCrossingRate <= this.vad.maxZeroCrossingRate || energy >= threshold * 4);
+            if (!isSpeech) {
+                this.noiseFloor = this.noiseFloor === 0 ? energy : this.noiseFloor * 0.95 + energy * 0.05;
+            }
+            this.updateSpeechState(isSpeech);
+        }
     }
-    
-    return result;
-  }
-
-  process(inputs, outputs, parameters) {
-    // We only care about the first input, and the first channel (mono) of that input.
-    const inputChannel = inputs[0][0];
-
-    // If there's no data, we have nothing to do.
-    if (!inputChannel) {
-      return true; // Keep the processor alive.
+    updateSpeechState(isSpeech) {
+        if (isSpeech) {
+            this._frameHasSpeech = true;
+            this.speechMs += VAD_WINDOW_MS;
+            this.silenceMs = 0;
+            if (!this.speaking && this.speechMs >= this.vad.minSpeechMs) {
+                this.speaking = true;
+                this.post({ type: 'speech-start' });
+            }
+        }
+        else {
+            this.silenceMs += VAD_WINDOW_MS;
+            if (this.silenceMs >= VAD_WINDOW_MS * 3) {
+                this.speechMs = 0;
+            }
+            if (this.speaking && this.silenceMs >= this.vad.hangoverMs) {
+                this.speaking = false;
+                this.post({ type: 'speech-end' });
+            }
+        }
     }
-
-    // Append the new audio data to our internal buffer.
-    this.append(inputChannel);
-
-    // Process the buffer in chunks of `bufferSize`. A while loop is more robust
-    // than an if statement in case a large chunk of data comes in.
-    while (this.buffer.length >= this.bufferSize) {
-      const chunkToProcess = this.buffer.subarray(0, this.bufferSize);
-      
-      // Remove the processed chunk from the start of our buffer.
-      this.buffer = this.buffer.subarray(this.bufferSize);
-
-      // Downsample the chunk to our target sample rate (e.g., 16000 Hz)
-      const downsampledBuffer = this.downsample(chunkToProcess);
-      
-      // Convert the downsampled audio from 32-bit float to 16-bit signed integer PCM.
-      const pcm16Buffer = this.float32ToPCM16(downsampledBuffer);
-      
-      // Post the PCM data back to the main thread.
-      // The second argument is a list of "Transferable" objects. This transfers
-      // ownership of the buffer's memory to the main thread, which is much
-      // more efficient than copying it (zero-copy transfer).
-      this.port.postMessage(pcm16Buffer, [pcm16Buffer.buffer]);
+    post(message) {
+        this.port.postMessage(message);
     }
-    
-    // Return true to indicate the processor should not be terminated.
-    return true;
-  }
 }
-
-registerProcessor('pcm-recorder-processor', PCMRecorderProcessor);
\ No newline at end of file
+registerProcessor('pcm-recorder-processor', PcmRecorderProcessor);
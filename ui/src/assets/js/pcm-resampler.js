@@ -0,0 +1,115 @@
+export const DEFAULT_RESAMPLER_OPTIONS = {
+    tapsPerPhase: 64,
+    cutoff: 0.9,
+    kaiserBeta: 7,
+};
+function greatestCommonDivisor(a, b) {
+    while (b) {
+        [a, b] = [b, a % b];
+    }
+    return a;
+}
+/** Zeroth-order modified Bessel function of the first kind, by its power series. */
+function besselI0(x) {
+    let sum = 1;
+    let term = 1;
+    for (let k = 1; k < 50; k++) {
+        term *= (x / (2 * k)) ** 2;
+        sum += term;
+        if (term < sum * 1e-12) {
+            break;
+        }
+    }
+    return sum;
+}
+/**
+ * Streaming rational-ratio resampler for mono float audio.
+ *
+ * The rates are reduced to `up / down`; the input is conceptually upsampled
+ * by `up`, low-pass filtered below the lower of the two Nyquist frequencies
+ * (so nothing above the output's Nyquist aliases back into the audio) and
+ * decimated by `down`. The filter is a Kaiser-windowed sinc split into `up`
+ * polyphase branches, so only the taps that contribute to an output sample
+ * are ever computed.
+ *
+ * Input can arrive in chunks of any size: the filter history carries over
+ * between calls, so chunked and one-shot processing give the same output.
+ */
+export class PolyphaseResampler {
+    constructor(inputRate, outputRate, options = {}) {
+        this.inputRate = inputRate;
+        this.outputRate = outputRate;
+        // Position of the next output sample on the upsampled clock, relative to
+        // the first sample of the next chunk
+        this.position = 0;
+        if (!Number.isInteger(inputRate) || !Number.isInteger(outputRate) || inputRate <= 0 || outputRate <= 0) {
+            throw new RangeError('Sample rates must be positive integers.');
+        }
+        const { tapsPerPhase, cutoff, kaiserBeta } = { ...DEFAULT_RESAMPLER_OPTIONS, ...options };
+        const divisor = greatestCommonDivisor(inputRate, outputRate);
+        this.up = outputRate / divisor;
+        this.down = inputRate / divisor;
+        this.taps = tapsPerPhase;
+        this.history = new Float32Array(tapsPerPhase - 1);
+        this.phases = this.designFilter(cutoff, kaiserBeta);
+    }
+    /** Output samples produced for `inputLength` more input samples. */
+    outputLength(inputLength) {
+        const end = inputLength * this.up;
+        return end > this.position ? Math.ceil((end - this.position) / this.down) : 0;
+    }
+    /** Resamples the next chunk of input. */
+    process(input) {
+        const output = new Float32Array(this.outputLength(input.length));
+        const historyLength = this.taps - 1;
+        const buffer = new Float32Array(historyLength + input.length);
+        buffer.set(this.history);
+        buffer.set(input, historyLength);
+        let position = this.position;
+        for (let n = 0; n < output.length; n++) {
+            const index = Math.floor(position / this.up);
+            const phase = this.phases[position - index * this.up];
+            // buffer[newest] is input[index]; taps walk back through older samples
+            const newest = index + historyLength;
+            let sum = 0;
+            for (let k = 0; k < this.taps; k++) {
+                sum += phase[k] * buffer[newest - k];
+            }
+            output[n] = sum;
+            position += this.down;
+        }
+        this.position = position - input.length * this.up;
+        this.history = buffer.slice(buffer.length - historyLength);
+        return output;
+    }
+    /** Forgets the filter history, for a new, unrelated stream. */
+    reset() {
+        this.history.fill(0);
+        this.position = 0;
+    }
+    designFilter(cutoff, beta) {
+        const length = this.up * this.taps;
+        // Cutoff in cycles per upsampled sample
+        const frequency = (cutoff * 0.5 * Math.min(1, this.up / this.down)) / this.up;
+        const center = (length - 1) / 2;
+        const windowScale = besselI0(beta);
+        const prototype = new Float64Array(length);
+        for (let i = 0; i < length; i++) {
+            const t = i - center;
+            const sinc = t === 0 ? 1 : Math.sin(2 * Math.PI * frequency * t) / (Math.PI * t * 2 * frequency);
+            const ratio = (2 * i) / (length - 1) - 1;
+            const window = besselI0(beta * Math.sqrt(Math.max(0, 1 - ratio * ratio))) / windowScale;
+            prototype[i] = 2 * frequency * sinc * window;
+        }
+        // Normalise each branch to unity DC gain so a constant stays constant
+        return Array.from({ length: this.up }, (_, phase) => {
+            const branch = new Float32Array(this.taps);
+            let gain = 0;
+            for (let k = 0; k < this.taps; k++) {
+                branch[k] = prototype[phase + k * this.up];
+                gain += branch[k];
+            }
+            return branch.map(tap => tap / gain);
+        });
+    }
+}